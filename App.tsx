@@ -10,6 +10,9 @@ import * as THREE from 'three';
 import { Environment } from './components/World/Environment';
 import { Player } from './components/World/Player';
 import { LevelManager } from './components/World/LevelManager';
+import { Boss } from './components/World/Boss';
+import { SafeCorridorDebug } from './components/World/SafeCorridorDebug';
+import { HitboxDebug } from './components/World/HitboxDebug';
 import { Effects } from './components/World/Effects';
 import { HUD } from './components/UI/HUD';
 import { useStore } from './store';
@@ -56,11 +59,14 @@ function Scene() {
     <>
         <Environment />
         <group>
-            {/* Attach a userData to identify player group for LevelManager collision logic */}
+            {/* Player and LevelManager both render the run simulated by RunController */}
             <group userData={{ isPlayer: true }} name="PlayerGroup">
                  <Player />
             </group>
             <LevelManager />
+            <Boss />
+            <SafeCorridorDebug />
+            <HitboxDebug />
         </group>
         <Effects />
     </>
@@ -0,0 +1,65 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+
+// Connection and auth helpers for the handlers that work on the server's
+// models and ledger (server/models, server/utils). The leading underscore
+// keeps Vercel from deploying this file as a function of its own.
+
+// MongoDB connection - optimized for serverless
+let cached = (global as any).mongoose;
+
+if (!cached) {
+  cached = (global as any).mongoose = { conn: null, promise: null };
+}
+
+export const connectDB = async () => {
+  if (cached.conn) {
+    return cached.conn;
+  }
+
+  const uri = process.env.MONGODB_URI;
+  if (!uri) throw new Error('MONGODB_URI is not defined');
+
+  if (!cached.promise) {
+    cached.promise = mongoose.connect(uri, { bufferCommands: false }).then((mongoose) => mongoose);
+  }
+
+  try {
+    cached.conn = await cached.promise;
+  } catch (e) {
+    cached.promise = null;
+    throw e;
+  }
+
+  return cached.conn;
+};
+
+// Verify JWT
+const verifyToken = (token: string) => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new Error('JWT_SECRET is not defined');
+  return jwt.verify(token, secret) as { walletAddress: string; userId: string };
+};
+
+// Wallet of the signed-in caller, if the request carries a valid token
+export const getOptionalWallet = (req: VercelRequest): string | null => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) return null;
+  try {
+    return verifyToken(authHeader.split(' ')[1]).walletAddress;
+  } catch {
+    return null;
+  }
+};
+
+// Answers preflight requests; returns true if the request was one
+export const handleCors = (req: VercelRequest, res: VercelResponse, methods: string): boolean => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', `${methods}, OPTIONS`);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method !== 'OPTIONS') return false;
+  res.status(200).end();
+  return true;
+};
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import mongoose from 'mongoose';
 import jwt from 'jsonwebtoken';
+import { DEFAULT_COSMETICS } from '../cosmetics';
 
 // MongoDB connection - optimized for serverless
 let cached = (global as any).mongoose;
@@ -43,11 +44,21 @@ const userSchema = new mongoose.Schema({
   totalGemsCollected: { type: Number, default: 0 },
   totalDistance: { type: Number, default: 0 },
   achievements: [{ type: String }],
+  gems: { type: Number, default: 0, min: 0 },
   inventory: {
     hasDoubleJump: { type: Boolean, default: false },
     hasImmortality: { type: Boolean, default: false },
     maxLives: { type: Number, default: 3 },
   },
+  cosmetics: {
+    owned: [{ type: String }],
+    equipped: {
+      skin: { type: String, default: DEFAULT_COSMETICS.skin },
+      trail: { type: String, default: DEFAULT_COSMETICS.trail },
+      landing: { type: String, default: DEFAULT_COSMETICS.landing },
+    },
+  },
+  controls: { type: mongoose.Schema.Types.Mixed },
   sessions: [{
     token: { type: String, required: true },
     createdAt: { type: Date, default: Date.now },
@@ -151,7 +162,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           highestScore: user.highestScore,
           totalGamesPlayed: user.totalGamesPlayed,
           totalGemsCollected: user.totalGemsCollected,
+          gems: user.gems,
           inventory: user.inventory,
+          cosmetics: user.cosmetics,
+          controls: user.controls,
           achievements: user.achievements,
         },
       });
@@ -180,7 +194,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           highestScore: user.highestScore,
           totalGamesPlayed: user.totalGamesPlayed,
           totalGemsCollected: user.totalGemsCollected,
+          gems: user.gems,
           inventory: user.inventory,
+          cosmetics: user.cosmetics,
+          controls: user.controls,
           achievements: user.achievements,
           createdAt: user.createdAt,
           lastLogin: user.lastLogin,
@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import mongoose from 'mongoose';
+import { DEFAULT_COSMETICS } from '../cosmetics';
 
 // MongoDB connection - optimized for serverless
 let cached = (global as any).mongoose;
@@ -57,11 +58,21 @@ const userSchema = new mongoose.Schema({
   totalGemsCollected: { type: Number, default: 0 },
   totalDistance: { type: Number, default: 0 },
   achievements: [{ type: String }],
+  gems: { type: Number, default: 0, min: 0 },
   inventory: {
     hasDoubleJump: { type: Boolean, default: false },
     hasImmortality: { type: Boolean, default: false },
     maxLives: { type: Number, default: 3 },
   },
+  cosmetics: {
+    owned: [{ type: String }],
+    equipped: {
+      skin: { type: String, default: DEFAULT_COSMETICS.skin },
+      trail: { type: String, default: DEFAULT_COSMETICS.trail },
+      landing: { type: String, default: DEFAULT_COSMETICS.landing },
+    },
+  },
+  controls: { type: mongoose.Schema.Types.Mixed },
   sessions: [{
     token: { type: String, required: true },
     createdAt: { type: Date, default: Date.now },
@@ -1,82 +1,19 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import mongoose from 'mongoose';
-import jwt from 'jsonwebtoken';
-
-// MongoDB connection - optimized for serverless
-let cached = (global as any).mongoose;
-
-if (!cached) {
-  cached = (global as any).mongoose = { conn: null, promise: null };
-}
-
-const connectDB = async () => {
-  if (cached.conn) {
-    return cached.conn;
-  }
-
-  const uri = process.env.MONGODB_URI;
-  if (!uri) throw new Error('MONGODB_URI is not defined');
-
-  if (!cached.promise) {
-    cached.promise = mongoose.connect(uri, { bufferCommands: false }).then((mongoose) => mongoose);
-  }
-
-  try {
-    cached.conn = await cached.promise;
-  } catch (e) {
-    cached.promise = null;
-    throw e;
-  }
-
-  return cached.conn;
-};
-
-// Schemas
-const userSchema = new mongoose.Schema({
-  walletAddress: { type: String, required: true, unique: true, lowercase: true },
-  username: { type: String, required: true },
-  totalGamesPlayed: { type: Number, default: 0 },
-  highestScore: { type: Number, default: 0 },
-  highestLevel: { type: Number, default: 0 },
-  totalGemsCollected: { type: Number, default: 0 },
-  totalDistance: { type: Number, default: 0 },
-  achievements: [{ type: String }],
-  gameHistory: [{
-    score: Number,
-    level: Number,
-    gemsCollected: Number,
-    distance: Number,
-    playedAt: Date,
-    outcome: String,
-  }],
-});
-
-const leaderboardSchema = new mongoose.Schema({
-  walletAddress: { type: String, required: true, lowercase: true },
-  username: { type: String, required: true },
-  score: { type: Number, required: true },
-  level: { type: Number, default: 1 },
-  gemsCollected: { type: Number, default: 0 },
-  distance: { type: Number, default: 0 },
-  createdAt: { type: Date, default: Date.now },
-});
-
-const User = mongoose.models.User || mongoose.model('User', userSchema);
-const Leaderboard = mongoose.models.Leaderboard || mongoose.model('Leaderboard', leaderboardSchema);
-
-// Verify JWT
-const verifyToken = (token: string) => {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) throw new Error('JWT_SECRET is not defined');
-  return jwt.verify(token, secret) as { walletAddress: string; userId: string };
-};
+import { DEFAULT_LOADOUT, isLoadoutOwned, parseReplay, replayRun } from '../simulation';
+import { getEarnedCosmetics } from '../cosmetics';
+import { Leaderboard, User } from '../server/models';
+import { recordTransaction } from '../server/utils/ledger';
+import { awardAchievements } from '../server/utils/achievements';
+import { claimActiveRun, createRunToken, findActiveRun, openClassicRun } from '../server/utils/activeRun';
+import { DAILY_CHALLENGE_REWARD, MAX_DAILY_ATTEMPTS, getChallengeDate, getDailySeed, isChallengeDate } from '../server/utils/dailyChallenge';
+import { connectDB, getOptionalWallet, handleCors } from './_shared';
+
+// Entries on the all-time board (older entries predate the mode field)
+const CLASSIC_FILTER = { mode: { $ne: 'daily' } };
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  
-  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (handleCors(req, res, 'GET, POST')) return;
 
   try {
     await connectDB();
@@ -85,17 +22,59 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // GET /api/leaderboard?action=top
     if (req.method === 'GET' && action === 'top') {
-      const entries = await Leaderboard.find()
+      const entries = await Leaderboard.find(CLASSIC_FILTER)
         .sort({ score: -1, createdAt: -1 })
         .limit(5)
-        .select('username score createdAt');
+        .select('username score verified cosmetics createdAt');
+
+      return res.status(200).json({
+        entries: entries.map((entry: any, index: number) => ({
+          rank: index + 1,
+          name: entry.username,
+          score: entry.score,
+          date: entry.createdAt.getTime(),
+          verified: entry.verified,
+          cosmetics: entry.cosmetics,
+        })),
+      });
+    }
+
+    // GET /api/leaderboard?action=daily[&date=YYYY-MM-DD]
+    if (req.method === 'GET' && action === 'daily') {
+      const today = getChallengeDate();
+      const challengeDate = isChallengeDate(req.query.date) ? req.query.date : today;
+
+      if (challengeDate > today) {
+        return res.status(400).json({ error: 'Challenge not available yet' });
+      }
+
+      const entries = await Leaderboard.find({ mode: 'daily', challengeDate })
+        .sort({ score: -1, createdAt: -1 })
+        .limit(10)
+        .select('username score verified cosmetics createdAt');
+
+      let attemptsUsed: number | null = null;
+      const walletAddress = getOptionalWallet(req);
+      if (walletAddress && challengeDate === today) {
+        const user = await User.findOne({ walletAddress });
+        attemptsUsed = user?.dailyChallenge?.date === today ? user.dailyChallenge.attemptsUsed : 0;
+      }
+
+      // Today's track stays hidden until the player's ranked attempts are spent
+      const isSeedOpen = challengeDate < today || (attemptsUsed ?? 0) >= MAX_DAILY_ATTEMPTS;
 
       return res.status(200).json({
+        date: challengeDate,
+        seed: isSeedOpen ? getDailySeed(challengeDate) : null,
+        maxAttempts: MAX_DAILY_ATTEMPTS,
+        attemptsUsed,
         entries: entries.map((entry: any, index: number) => ({
           rank: index + 1,
           name: entry.username,
           score: entry.score,
           date: entry.createdAt.getTime(),
+          verified: entry.verified,
+          cosmetics: entry.cosmetics,
         })),
       });
     }
@@ -106,12 +85,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const page = Math.max(parseInt(req.query.page as string) || 1, 1);
       const skip = (page - 1) * limit;
 
-      const entries = await Leaderboard.find()
+      const entries = await Leaderboard.find(CLASSIC_FILTER)
         .sort({ score: -1, createdAt: -1 })
         .skip(skip)
         .limit(limit);
 
-      const total = await Leaderboard.countDocuments();
+      const total = await Leaderboard.countDocuments(CLASSIC_FILTER);
 
       return res.status(200).json({
         entries: entries.map((entry: any, index: number) => ({
@@ -122,78 +101,178 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           gemsCollected: entry.gemsCollected,
           distance: entry.distance,
           walletAddress: `${entry.walletAddress.slice(0, 6)}...${entry.walletAddress.slice(-4)}`,
+          verified: entry.verified,
+          cosmetics: entry.cosmetics,
           createdAt: entry.createdAt,
         })),
         pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
       });
     }
 
+    // POST /api/leaderboard?action=daily-start (use one of today's ranked attempts)
+    if (req.method === 'POST' && action === 'daily-start') {
+      const walletAddress = getOptionalWallet(req);
+      if (!walletAddress) {
+        return res.status(401).json({ error: 'No token provided' });
+      }
+
+      const user = await User.findOne({ walletAddress });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const challengeDate = getChallengeDate();
+      if (user.dailyChallenge?.date !== challengeDate) {
+        user.dailyChallenge = { date: challengeDate, attemptsUsed: 0, attemptsSubmitted: 0 };
+      }
+
+      if (user.dailyChallenge.attemptsUsed >= MAX_DAILY_ATTEMPTS) {
+        return res.status(403).json({ error: 'No daily attempts left' });
+      }
+
+      const seed = getDailySeed(challengeDate);
+      const token = createRunToken();
+      user.dailyChallenge.attemptsUsed += 1;
+      user.activeRun = { token, mode: 'daily', seed, challengeDate, startedAt: new Date() };
+      await user.save();
+
+      return res.status(200).json({
+        success: true,
+        date: challengeDate,
+        seed,
+        token,
+        maxAttempts: MAX_DAILY_ATTEMPTS,
+        attemptsUsed: user.dailyChallenge.attemptsUsed,
+      });
+    }
+
+    // POST /api/leaderboard?action=run-start (open a ranked classic run on a server-picked seed)
+    if (req.method === 'POST' && action === 'run-start') {
+      const walletAddress = getOptionalWallet(req);
+      if (!walletAddress) {
+        return res.status(401).json({ error: 'No token provided' });
+      }
+
+      const run = await openClassicRun(walletAddress);
+      if (!run) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      return res.status(200).json({ success: true, ...run });
+    }
+
     // POST /api/leaderboard (submit score)
     if (req.method === 'POST') {
-      const authHeader = req.headers.authorization;
-      if (!authHeader?.startsWith('Bearer ')) {
+      const walletAddress = getOptionalWallet(req);
+      if (!walletAddress) {
         return res.status(401).json({ error: 'No token provided' });
       }
 
-      const token = authHeader.split(' ')[1];
-      const decoded = verifyToken(token);
-      const walletAddress = decoded.walletAddress;
-
-      const { score, level, gemsCollected, distance, username, outcome } = req.body;
+      const { score, username } = req.body;
+      const mode = req.body.mode === 'daily' ? 'daily' : 'classic';
 
       if (typeof score !== 'number' || score < 0) {
         return res.status(400).json({ error: 'Invalid score' });
       }
 
+      const replay = parseReplay(req.body.replay);
+      if (!replay) {
+        return res.status(400).json({ error: 'Invalid replay' });
+      }
+
+      // The run must be the player's open run, on the seed it was given; each
+      // is scored once. Checked before the costly re-simulation.
+      const noRunError = mode === 'daily' ? 'No daily attempt in progress' : 'No run in progress';
+      const run = await findActiveRun(walletAddress, replay, mode);
+      if (!run) {
+        return res.status(400).json({ error: noRunError });
+      }
+      const challengeDate = run.challengeDate;
+
+      // Re-simulate the run; only a finished run that reproduces the score is accepted
+      const { score: replayedScore, level, gemsCollected, distance, outcome, stats } = replayRun(replay);
+      if (!outcome || replayedScore !== score) {
+        return res.status(400).json({ error: 'Score could not be verified' });
+      }
+
+      const user = await User.findOne({ walletAddress });
+
+      // The run may only start with upgrades the player has bought
+      if (!isLoadoutOwned(replay.loadout, user?.inventory ?? DEFAULT_LOADOUT)) {
+        return res.status(400).json({ error: 'Run used upgrades the player does not own' });
+      }
+
+      if (user && mode === 'daily' && user.dailyChallenge.date === challengeDate) {
+        user.dailyChallenge.attemptsSubmitted += 1;
+      }
+
       // Create leaderboard entry
       const entry = new Leaderboard({
         walletAddress,
         username: username || `Runner_${walletAddress.slice(2, 8)}`,
         score,
-        level: level || 1,
-        gemsCollected: gemsCollected || 0,
-        distance: distance || 0,
+        level,
+        gemsCollected,
+        distance,
+        verified: true,
+        mode,
+        challengeDate,
+        cosmetics: user?.cosmetics?.equipped,
       });
-      await entry.save();
 
       // Update user stats
-      const user = await User.findOne({ walletAddress });
       if (user) {
         user.totalGamesPlayed += 1;
-        user.totalGemsCollected += gemsCollected || 0;
-        user.totalDistance += distance || 0;
+        user.totalGemsCollected += gemsCollected;
+        user.totalDistance += distance;
         if (score > user.highestScore) user.highestScore = score;
-        if ((level || 1) > user.highestLevel) user.highestLevel = level || 1;
+        if (level > user.highestLevel) user.highestLevel = level;
 
         // Add to game history
         user.gameHistory.push({
           score,
-          level: level || 1,
-          gemsCollected: gemsCollected || 0,
-          distance: distance || 0,
+          level,
+          gemsCollected,
+          distance,
           playedAt: new Date(),
-          outcome: outcome === 'victory' ? 'victory' : 'game_over',
+          outcome,
+          stats,
         });
 
         if (user.gameHistory.length > 50) {
           user.gameHistory = user.gameHistory.slice(-50);
         }
 
-        // Check achievements
-        if (user.totalGamesPlayed === 1 && !user.achievements.includes('FIRST_RUN')) {
-          user.achievements.push('FIRST_RUN');
-        }
-        if (score >= 10000 && !user.achievements.includes('SCORE_10K')) {
-          user.achievements.push('SCORE_10K');
+        const newAchievements = awardAchievements(user, { score, level, outcome, stats });
+
+        // Cosmetics tied to an achievement unlock along with it, from this run's achievements only
+        const earnedCosmetics = getEarnedCosmetics(newAchievements).filter((id: string) => !user.cosmetics.owned.includes(id));
+        user.cosmetics.owned.push(...earnedCosmetics);
+      }
+
+      // Closing the run, the entry, the player's stats and the gem payout are
+      // written together, so the run is only used up once it has been scored
+      const claimed = await mongoose.connection.transaction(async session => {
+        if (!await claimActiveRun(walletAddress, replay, mode, session)) return false;
+        await entry.save({ session });
+        if (!user) return true;
+        await user.save({ session });
+
+        // Pay the run's gems, plus the bonus for the day's first daily run, into the balance
+        if (gemsCollected > 0) {
+          await recordTransaction({ walletAddress, amount: gemsCollected, type: 'run_reward', reference: String(entry._id), session });
         }
-        if (outcome === 'victory' && !user.achievements.includes('VICTORY')) {
-          user.achievements.push('VICTORY');
+        if (mode === 'daily' && user.dailyChallenge.attemptsSubmitted === 1) {
+          await recordTransaction({ walletAddress, amount: DAILY_CHALLENGE_REWARD, type: 'daily_reward', reference: challengeDate, session });
         }
-
-        await user.save();
+        return true;
+      });
+      if (!claimed) {
+        return res.status(400).json({ error: noRunError });
       }
 
-      const rank = await Leaderboard.countDocuments({ score: { $gt: score } }) + 1;
+      const boardFilter = mode === 'daily' ? { mode, challengeDate } : CLASSIC_FILTER;
+      const rank = await Leaderboard.countDocuments({ ...boardFilter, score: { $gt: score } }) + 1;
 
       return res.status(200).json({
         success: true,
@@ -0,0 +1,171 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { User } from '../server/models';
+import { ITEM_CATALOG, getCatalogItem, getPurchaseFilter, getPurchaseUpdate, isSoldOut } from '../server/utils/itemCatalog';
+import { recordTransaction } from '../server/utils/ledger';
+import { COSMETICS, getCosmetic, isCosmeticOwned } from '../cosmetics';
+import { parseBindings } from '../controls';
+import { connectDB, getOptionalWallet, handleCors } from './_shared';
+
+// Upgrades, cosmetics and control bindings (see server/routes/user.ts)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res, 'GET, POST, PUT')) return;
+
+  try {
+    await connectDB();
+
+    const walletAddress = getOptionalWallet(req);
+    if (!walletAddress) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const { action } = req.query;
+
+    // GET /api/user?action=catalog
+    if (req.method === 'GET' && action === 'catalog') {
+      const user = await User.findOne({ walletAddress });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      return res.status(200).json({
+        gems: user.gems,
+        items: ITEM_CATALOG.map(item => ({
+          id: item.id,
+          name: item.name,
+          description: item.description,
+          cost: item.cost,
+          soldOut: isSoldOut(item, user.inventory),
+        })),
+      });
+    }
+
+    // POST /api/user?action=purchase (buy a permanent upgrade with gems)
+    if (req.method === 'POST' && action === 'purchase') {
+      const item = getCatalogItem(req.body.itemId);
+      if (!item) {
+        return res.status(400).json({ error: 'Unknown item' });
+      }
+
+      const user = await User.findOne({ walletAddress });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (isSoldOut(item, user.inventory)) {
+        return res.status(400).json({ error: 'Item already owned' });
+      }
+      if (user.gems < item.cost) {
+        return res.status(400).json({ error: 'Not enough gems' });
+      }
+
+      // Re-checked in the write so two purchases can't spend the same gems
+      const updated = await recordTransaction({
+        walletAddress,
+        amount: -item.cost,
+        type: 'purchase',
+        reference: item.id,
+        filter: getPurchaseFilter(item),
+        update: getPurchaseUpdate(item),
+      });
+      if (!updated) {
+        return res.status(409).json({ error: 'Purchase conflicted with another update' });
+      }
+
+      return res.status(200).json({ success: true, gems: updated.gems, inventory: updated.inventory });
+    }
+
+    // GET /api/user?action=cosmetics
+    if (req.method === 'GET' && action === 'cosmetics') {
+      const user = await User.findOne({ walletAddress });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      return res.status(200).json({
+        gems: user.gems,
+        equipped: user.cosmetics.equipped,
+        items: COSMETICS.map(cosmetic => ({
+          id: cosmetic.id,
+          slot: cosmetic.slot,
+          name: cosmetic.name,
+          cost: cosmetic.cost,
+          achievement: cosmetic.achievement,
+          owned: isCosmeticOwned(cosmetic, user.cosmetics.owned),
+        })),
+      });
+    }
+
+    // POST /api/user?action=cosmetics-purchase
+    if (req.method === 'POST' && action === 'cosmetics-purchase') {
+      const cosmetic = getCosmetic(req.body.cosmeticId);
+      if (!cosmetic || cosmetic.cost === undefined) {
+        return res.status(400).json({ error: 'Cosmetic is not for sale' });
+      }
+
+      const user = await User.findOne({ walletAddress });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (isCosmeticOwned(cosmetic, user.cosmetics.owned)) {
+        return res.status(400).json({ error: 'Cosmetic already owned' });
+      }
+      if (user.gems < cosmetic.cost) {
+        return res.status(400).json({ error: 'Not enough gems' });
+      }
+
+      const updated = await recordTransaction({
+        walletAddress,
+        amount: -cosmetic.cost,
+        type: 'purchase',
+        reference: cosmetic.id,
+        filter: { 'cosmetics.owned': { $ne: cosmetic.id } },
+        update: { $addToSet: { 'cosmetics.owned': cosmetic.id } },
+      });
+      if (!updated) {
+        return res.status(409).json({ error: 'Purchase conflicted with another update' });
+      }
+
+      return res.status(200).json({ success: true, gems: updated.gems, cosmetics: updated.cosmetics });
+    }
+
+    // PUT /api/user?action=cosmetics-equip
+    if (req.method === 'PUT' && action === 'cosmetics-equip') {
+      const cosmetic = getCosmetic(req.body.cosmeticId);
+      if (!cosmetic) {
+        return res.status(400).json({ error: 'Unknown cosmetic' });
+      }
+
+      const user = await User.findOne({ walletAddress });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!isCosmeticOwned(cosmetic, user.cosmetics.owned)) {
+        return res.status(403).json({ error: 'Cosmetic not owned' });
+      }
+
+      user.cosmetics.equipped[cosmetic.slot] = cosmetic.id;
+      await user.save();
+
+      return res.status(200).json({ success: true, cosmetics: user.cosmetics });
+    }
+
+    // PUT /api/user?action=controls
+    if (req.method === 'PUT' && action === 'controls') {
+      const controls = parseBindings(req.body.controls);
+      if (!controls) {
+        return res.status(400).json({ error: 'Invalid controls' });
+      }
+
+      const user = await User.findOneAndUpdate({ walletAddress }, { $set: { controls } }, { new: true });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      return res.status(200).json({ success: true, controls: user.controls });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('User error:', error);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
@@ -0,0 +1,61 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { User, GemTransaction } from '../server/models';
+import { connectDB, getOptionalWallet, handleCors } from './_shared';
+
+// Gem balance and ledger history (see server/routes/wallet.ts; the admin
+// endpoints are only on the Express server)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res, 'GET')) return;
+
+  try {
+    await connectDB();
+
+    const walletAddress = getOptionalWallet(req);
+    if (!walletAddress) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const { action } = req.query;
+
+    // GET /api/wallet?action=transactions (newest first)
+    if (req.method === 'GET' && action === 'transactions') {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const skip = (page - 1) * limit;
+
+      const transactions = await GemTransaction.find({ walletAddress })
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit);
+
+      const total = await GemTransaction.countDocuments({ walletAddress });
+
+      return res.status(200).json({
+        transactions: transactions.map(tx => ({
+          id: tx._id,
+          amount: tx.amount,
+          type: tx.type,
+          reference: tx.reference,
+          balanceAfter: tx.balanceAfter,
+          createdAt: tx.createdAt,
+        })),
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      });
+    }
+
+    // GET /api/wallet
+    if (req.method === 'GET') {
+      const user = await User.findOne({ walletAddress });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      return res.status(200).json({ balance: user.gems });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Wallet error:', error);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Polls connected controllers through the Gamepad API and reports presses.
+// Assumes the browser's "standard" mapping (Xbox layout), which covers most
+// controllers on desktop and TV browsers.
+
+export type GamepadInput = 'up' | 'down' | 'left' | 'right' | 'a' | 'b' | 'x' | 'y' | 'rb' | 'start';
+
+type GamepadListener = (input: GamepadInput) => void;
+
+// Standard mapping button indices
+const BUTTONS: Partial<Record<GamepadInput, number>> = {
+  a: 0,
+  b: 1,
+  x: 2,
+  y: 3,
+  rb: 5,
+  start: 9,
+};
+
+const DPAD: Record<'up' | 'down' | 'left' | 'right', number> = {
+  up: 12,
+  down: 13,
+  left: 14,
+  right: 15,
+};
+
+// The stick counts as a direction past STICK_PRESS and lets go below
+// STICK_RELEASE, so resting near the threshold doesn't chatter
+const STICK_PRESS = 0.5;
+const STICK_RELEASE = 0.3;
+
+export class GamepadController {
+  private listeners = new Set<GamepadListener>();
+  private held = new Set<GamepadInput>();
+  private frame: number | null = null;
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+    window.addEventListener('gamepadconnected', () => this.startPolling());
+    window.addEventListener('gamepaddisconnected', () => {
+      if (!this.isConnected()) this.stopPolling();
+    });
+  }
+
+  isConnected(): boolean {
+    return this.getPads().length > 0;
+  }
+
+  // Called once per press; returns an unsubscribe function
+  subscribe(listener: GamepadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getPads(): Gamepad[] {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+    return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  }
+
+  private startPolling() {
+    if (this.frame !== null) return;
+    const poll = () => {
+      this.poll();
+      this.frame = requestAnimationFrame(poll);
+    };
+    this.frame = requestAnimationFrame(poll);
+  }
+
+  private stopPolling() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.held.clear();
+  }
+
+  private isStickHeld(input: GamepadInput, value: number): boolean {
+    return value > (this.held.has(input) ? STICK_RELEASE : STICK_PRESS);
+  }
+
+  // Merges every connected pad and reports inputs that went down since the last poll
+  private poll() {
+    const down = new Set<GamepadInput>();
+
+    for (const pad of this.getPads()) {
+      const isPressed = (index: number) => pad.buttons[index]?.pressed ?? false;
+      const [stickX = 0, stickY = 0] = pad.axes;
+
+      for (const [input, index] of Object.entries(BUTTONS) as [GamepadInput, number][]) {
+        if (isPressed(index)) down.add(input);
+      }
+      if (isPressed(DPAD.up) || this.isStickHeld('up', -stickY)) down.add('up');
+      if (isPressed(DPAD.down) || this.isStickHeld('down', stickY)) down.add('down');
+      if (isPressed(DPAD.left) || this.isStickHeld('left', -stickX)) down.add('left');
+      if (isPressed(DPAD.right) || this.isStickHeld('right', stickX)) down.add('right');
+    }
+
+    const pressed = [...down].filter(input => !this.held.has(input));
+    this.held = down;
+    for (const input of pressed) {
+      this.listeners.forEach(listener => listener(input));
+    }
+  }
+}
+
+export const gamepad = new GamepadController();
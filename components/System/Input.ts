@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ControlAction, ControlBindings, DEFAULT_BINDINGS } from '../../controls';
+import { gamepad, GamepadInput } from './Gamepad';
+
+// The input action layer. Keyboard, touch, mouse and controller inputs are
+// named (see controls.ts) and looked up in the player's bindings; listeners
+// only ever see the resulting actions.
+
+type ActionListener = (action: ControlAction) => void;
+type CaptureListener = (input: string) => void;
+type GamepadListener = (button: GamepadInput) => void;
+
+const SWIPE_DISTANCE = 30; // Pixels before a drag counts as a swipe
+const TAP_DISTANCE = 10; // Pixels a tap may wander
+
+// Gestures that start on a control are that control's, not the game's
+const INTERACTIVE = 'button, input, a, select, textarea';
+
+const ARROWS: Record<string, string> = { up: '↑', down: '↓', left: '←', right: '→' };
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'SPACE',
+  Enter: 'ENTER',
+  Escape: 'ESC',
+  Backspace: 'BKSP',
+  ShiftLeft: 'L-SHIFT',
+  ShiftRight: 'R-SHIFT',
+  ControlLeft: 'L-CTRL',
+  ControlRight: 'R-CTRL',
+};
+
+// Chrome's keyboard layout map, for showing keys as the player's layout prints them
+interface KeyboardLayoutApi {
+  getLayoutMap?: () => Promise<Map<string, string>>;
+}
+
+export class InputController {
+  private bindings: ControlBindings = DEFAULT_BINDINGS;
+  private actions = new Map<string, ControlAction>();
+  private listeners = new Set<ActionListener>();
+  private gamepadListeners = new Set<GamepadListener>();
+  private captureListener: CaptureListener | null = null;
+  private layout: Map<string, string> | null = null;
+  private gestureStart: { x: number; y: number } | null = null;
+
+  constructor() {
+    this.setBindings(DEFAULT_BINDINGS);
+    if (typeof window === 'undefined') return;
+
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('touchstart', e => this.startGesture(e.touches[0], e.target));
+    window.addEventListener('touchend', e => this.endGesture(e.changedTouches[0]));
+    window.addEventListener('pointerdown', e => {
+      if (e.pointerType !== 'touch') this.startGesture(e, e.target);
+    });
+    window.addEventListener('pointerup', e => {
+      if (e.pointerType !== 'touch') this.endGesture(e);
+    });
+    gamepad.subscribe(button => {
+      const wasCapturing = this.isCapturing();
+      this.emit(`Pad:${button}`);
+      if (!wasCapturing) this.gamepadListeners.forEach(listener => listener(button));
+    });
+
+    const keyboard = (navigator as Navigator & { keyboard?: KeyboardLayoutApi }).keyboard;
+    keyboard?.getLayoutMap?.().then(map => { this.layout = map; }).catch(() => {});
+  }
+
+  getBindings(): ControlBindings {
+    return this.bindings;
+  }
+
+  setBindings(bindings: ControlBindings) {
+    this.bindings = bindings;
+    this.actions.clear();
+    for (const [action, inputs] of Object.entries(bindings) as [ControlAction, string[]][]) {
+      for (const input of inputs) this.actions.set(input, action);
+    }
+  }
+
+  getAction(input: string): ControlAction | undefined {
+    return this.actions.get(input);
+  }
+
+  // Called with each action as it's triggered; returns an unsubscribe function
+  subscribe(listener: ActionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Raw controller presses, for menu navigation. Presses taken by capture()
+  // aren't passed on.
+  subscribeGamepad(listener: GamepadListener): () => void {
+    this.gamepadListeners.add(listener);
+    return () => {
+      this.gamepadListeners.delete(listener);
+    };
+  }
+
+  // Hands the next input from any source to `listener` instead of triggering
+  // its action, for rebinding. Returns a function that stops waiting.
+  capture(listener: CaptureListener): () => void {
+    this.captureListener = listener;
+    return () => {
+      if (this.captureListener === listener) this.captureListener = null;
+    };
+  }
+
+  isCapturing(): boolean {
+    return this.captureListener !== null;
+  }
+
+  // How an input reads on screen, e.g. "W", "PAD A", "SWIPE ←"
+  getLabel(input: string): string {
+    const [source, name = ''] = input.split(':');
+    switch (source) {
+      case 'Key':
+        return KEY_LABELS[name] ?? this.layout?.get(name)?.toUpperCase() ?? name.replace(/^(Key|Digit)/, '').toUpperCase();
+      case 'Pad':
+        return `PAD ${ARROWS[name] ?? name.toUpperCase()}`;
+      case 'Swipe':
+        return `SWIPE ${ARROWS[name] ?? name.toUpperCase()}`;
+      case 'Tap':
+        return 'TAP';
+      default:
+        return input;
+    }
+  }
+
+  private emit(input: string) {
+    if (this.captureListener) {
+      const listener = this.captureListener;
+      this.captureListener = null;
+      listener(input);
+      return;
+    }
+    const action = this.actions.get(input);
+    if (action) this.listeners.forEach(listener => listener(action));
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (this.captureListener) {
+      // Keep Enter/Space from also pressing the focused button
+      e.preventDefault();
+      this.emit(`Key:${e.code}`);
+      return;
+    }
+    if (e.repeat || (e.target instanceof Element && e.target.matches('input, textarea'))) return;
+    this.emit(`Key:${e.code}`);
+  };
+
+  private startGesture(point: { clientX: number; clientY: number }, target: EventTarget | null) {
+    const isOnControl = target instanceof Element && target.closest(INTERACTIVE) !== null;
+    this.gestureStart = isOnControl ? null : { x: point.clientX, y: point.clientY };
+  }
+
+  private endGesture(point: { clientX: number; clientY: number }) {
+    if (!this.gestureStart) return;
+    const deltaX = point.clientX - this.gestureStart.x;
+    const deltaY = point.clientY - this.gestureStart.y;
+    this.gestureStart = null;
+
+    if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > SWIPE_DISTANCE) {
+      this.emit(deltaX > 0 ? 'Swipe:right' : 'Swipe:left');
+    } else if (Math.abs(deltaY) > Math.abs(deltaX) && Math.abs(deltaY) > SWIPE_DISTANCE) {
+      this.emit(deltaY < 0 ? 'Swipe:up' : 'Swipe:down');
+    } else if (Math.abs(deltaX) < TAP_DISTANCE && Math.abs(deltaY) < TAP_DISTANCE) {
+      this.emit('Tap:screen');
+    }
+  }
+}
+
+export const input = new InputController();
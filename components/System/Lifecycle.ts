@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Page lifecycle. The mini app SDK has no background event of its own: a host
+// that backgrounds the app hides its webview, which fires visibilitychange like
+// a hidden browser tab, and pagehide covers hosts that tear the webview down.
+
+type PageDocument = Pick<Document, 'visibilityState' | 'addEventListener' | 'removeEventListener'>;
+type PageWindow = Pick<Window, 'addEventListener' | 'removeEventListener'>;
+
+// Calls `onHidden` each time the page is hidden or torn down. Returns the unsubscribe.
+export const onBackgrounded = (onHidden: () => void, doc: PageDocument = document, win: PageWindow = window) => {
+  const handleVisibility = () => {
+    if (doc.visibilityState === 'hidden') onHidden();
+  };
+
+  doc.addEventListener('visibilitychange', handleVisibility);
+  win.addEventListener('pagehide', onHidden);
+  return () => {
+    doc.removeEventListener('visibilitychange', handleVisibility);
+    win.removeEventListener('pagehide', onHidden);
+  };
+};
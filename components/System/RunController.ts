@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, GameStatus } from '../../types';
+import {
+  SimState, SimEvent, InputAction, ShopItemType, RunLoadout, RunReplay, DEFAULT_LOADOUT, MAX_STEP, SIM_RATE, SIM_STEP,
+  SHOP_REROLL, createSimState, stepSimulation, purchase, rerollShop, closeShop
+} from '../../simulation';
+
+const SLOW_MOTION_SCALE = 0.35;
+
+type Vec3 = [number, number, number];
+
+// Keys for the non-object positions kept between steps
+const PLAYER_KEY = 'player';
+const BOSS_KEY = 'boss';
+
+// Owns the simulation state for the current run in the browser.
+// Input handlers queue actions here; LevelManager feeds it frame time, which is
+// consumed in fixed SIM_STEP steps so the recorded replay can be re-simulated
+// exactly by the server, and so the run plays the same at any frame rate.
+// Renderers draw positions blended between the last two steps (see
+// getObjectPosition) so movement stays smooth when frames and steps don't line up.
+export class RunController {
+  state: SimState | null = null;
+  replay: RunReplay | null = null;
+  private pendingInputs: InputAction[] = [];
+  private accumulator = 0;
+  private slowMotionLeft = 0; // Real seconds
+  private previous = new Map<string, Vec3>(); // Positions before the latest step
+
+  // `token` comes from the server for ranked runs and is submitted with the replay
+  start(seed: number, loadout: RunLoadout = DEFAULT_LOADOUT, token?: string) {
+    this.state = createSimState(seed, loadout);
+    this.replay = { seed, stepRate: SIM_RATE, loadout, frames: 0, inputs: [], purchases: [], token };
+    this.pendingInputs = [];
+    this.accumulator = 0;
+    this.slowMotionLeft = 0;
+    this.previous.clear();
+  }
+
+  reset() {
+    this.state = null;
+    this.replay = null;
+    this.pendingInputs = [];
+    this.accumulator = 0;
+    this.slowMotionLeft = 0;
+    this.previous.clear();
+  }
+
+  queueInput(action: InputAction) {
+    if (this.state?.status !== GameStatus.PLAYING) return;
+    this.pendingInputs.push(action);
+  }
+
+  // Feeds the simulation time more slowly for `duration` real seconds. Only
+  // the pacing changes - the steps themselves, and so the replay, are the same.
+  slowMotion(duration: number) {
+    this.slowMotionLeft = Math.max(this.slowMotionLeft, duration);
+  }
+
+  step(delta: number): SimEvent[] {
+    const { state, replay } = this;
+    if (!state || !replay) return [];
+
+    const events: SimEvent[] = [];
+    let scaled = delta;
+    if (this.slowMotionLeft > 0) {
+      this.slowMotionLeft -= delta;
+      scaled *= SLOW_MOTION_SCALE;
+    }
+    this.accumulator += Math.min(scaled, MAX_STEP);
+
+    while (this.accumulator >= SIM_STEP && state.status === GameStatus.PLAYING) {
+      this.accumulator -= SIM_STEP;
+
+      const inputs = this.pendingInputs;
+      this.pendingInputs = [];
+      for (const action of inputs) {
+        replay.inputs.push({ frame: state.frame + 1, action });
+      }
+
+      this.snapshot(state);
+      events.push(...stepSimulation(state, inputs, SIM_STEP).events);
+      replay.frames = state.frame;
+    }
+    return events;
+  }
+
+  // How far the carried-over time is into the next step, 0-1
+  getAlpha(): number {
+    return Math.min(this.accumulator / SIM_STEP, 1);
+  }
+
+  // Where to draw `obj` this frame
+  getObjectPosition(obj: GameObject): Vec3 {
+    return this.blend(obj.id, obj.position);
+  }
+
+  // Where to draw the player this frame, as [x, y, 0]
+  getPlayerPosition(): Vec3 {
+    const player = this.state?.player;
+    return player ? this.blend(PLAYER_KEY, [player.x, player.y, 0]) : [0, 0, 0];
+  }
+
+  getBossPosition(): Vec3 | null {
+    const boss = this.state?.boss;
+    return boss ? this.blend(BOSS_KEY, boss.position) : null;
+  }
+
+  // Remembers positions before a step so frames can be drawn between steps
+  private snapshot(state: SimState) {
+    this.previous.clear();
+    this.previous.set(PLAYER_KEY, [state.player.x, state.player.y, 0]);
+    if (state.boss) this.previous.set(BOSS_KEY, [...state.boss.position]);
+    for (const obj of state.objects) this.previous.set(obj.id, [...obj.position]);
+  }
+
+  // `current` is the position after the latest step; anything that didn't
+  // exist before it is drawn where it is
+  private blend(key: string, current: Vec3): Vec3 {
+    const from = this.previous.get(key);
+    if (!from) return [current[0], current[1], current[2]];
+    const t = this.getAlpha();
+    return [
+      from[0] + (current[0] - from[0]) * t,
+      from[1] + (current[1] - from[1]) * t,
+      from[2] + (current[2] - from[2]) * t,
+    ];
+  }
+
+  // Pausing only touches the run's status, so paused time never reaches the
+  // simulation or the replay
+  pause() {
+    if (this.state?.status === GameStatus.PLAYING) {
+      this.state.status = GameStatus.PAUSED;
+      this.pendingInputs = [];
+    }
+  }
+
+  resume() {
+    if (this.state?.status === GameStatus.PAUSED) {
+      this.state.status = GameStatus.PLAYING;
+      this.accumulator = 0;
+    }
+  }
+
+  buyItem(type: ShopItemType): boolean {
+    if (this.state?.status !== GameStatus.SHOP || !this.replay) return false;
+    const bought = purchase(this.state, type);
+    if (bought) this.replay.purchases.push({ frame: this.state.frame, item: type });
+    return bought;
+  }
+
+  rerollShop(): boolean {
+    if (this.state?.status !== GameStatus.SHOP || !this.replay) return false;
+    const rerolled = rerollShop(this.state);
+    if (rerolled) this.replay.purchases.push({ frame: this.state.frame, item: SHOP_REROLL });
+    return rerolled;
+  }
+
+  closeShop() {
+    if (this.state?.status === GameStatus.SHOP) {
+      closeShop(this.state);
+    }
+  }
+}
+
+export const runController = new RunController();
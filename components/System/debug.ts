@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Debug views are switched on from the URL, e.g. ?debug=corridor. A bare
+// ?debug turns on all of them.
+const params = typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : null;
+const flags = params?.get('debug')?.split(',').filter(Boolean) ?? [];
+
+export const isDebugEnabled = (name: string) =>
+  params !== null && params.has('debug') && (flags.length === 0 || flags.includes(name));
@@ -5,12 +5,25 @@
 */
 
 
-import React, { useState, useEffect } from 'react';
-import { Heart, Zap, Trophy, MapPin, Diamond, Rocket, ArrowUpCircle, Shield, Activity, PlusCircle, Play, ListOrdered, X, Magnet, Wallet, LogOut } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Heart, Zap, Trophy, MapPin, Diamond, Rocket, ArrowUpCircle, Shield, Activity, PlusCircle, Play, ListOrdered, X, Magnet, Wallet, LogOut, BadgeCheck, CalendarDays, Pause, RotateCcw, Settings, Volume2, VolumeX, Home, ChevronLeft,
+  ShieldPlus, MoveHorizontal, Gem, HeartPulse, Shuffle, Shirt, Lock, Keyboard, Plus } from 'lucide-react';
 import { useStore, PHRASE_LETTERS, LETTERS_PER_LEVEL, MAX_LEVEL, getLevelLetterIndices } from '../../store';
-import { GameStatus, ShopItem, RUN_SPEED_BASE, LeaderboardEntry } from '../../types';
+import { GameStatus, RUN_SPEED_BASE, LeaderboardEntry, RunMode } from '../../types';
+import {
+  ShopRarity, COMBO_DECAY_TIME, COMBO_MAX_MULTIPLIER, COMBO_PICKUPS_PER_STEP, NEAR_MISS_POINTS, getTimeRemaining
+} from '../../simulation';
+import { COSMETIC_SLOTS, Cosmetic, CosmeticSlot, RAINBOW, getCosmetic, getEquipped } from '../../cosmetics';
+import { CONTROL_ACTIONS, CONTROL_LABELS, ControlAction, DEFAULT_BINDINGS, MAX_BINDINGS_PER_ACTION, findConflict } from '../../controls';
+import { GemTransaction } from '../../services/api';
 import { audio } from '../System/Audio';
+import { gamepad } from '../System/Gamepad';
+import { input } from '../System/Input';
+import { onBackgrounded } from '../System/Lifecycle';
+import { runController } from '../System/RunController';
+import { focusFirst, navigate } from './gamepadNavigation';
 import { createBaseAccountSDK } from '@base-org/account';
+import { sdk as miniAppSDK } from '@farcaster/miniapp-sdk';
 
 // Initialize Base Account SDK
 const baseSDK = createBaseAccountSDK({
@@ -18,58 +31,81 @@ const baseSDK = createBaseAccountSDK({
   appLogoUrl: 'https://www.gstatic.com/aistudio/starter-apps/gemini_runner/gemini_runner.png',
 });
 
-// Available Shop Items
-const SHOP_ITEMS: ShopItem[] = [
-    {
-        id: 'DOUBLE_JUMP',
-        name: 'DOUBLE JUMP',
-        description: 'Jump again in mid-air. Essential for high obstacles.',
-        cost: 1000,
-        icon: ArrowUpCircle,
-        oneTime: true
-    },
-    {
-        id: 'MAX_LIFE',
-        name: 'MAX LIFE UP',
-        description: 'Permanently adds a heart slot and heals you.',
-        cost: 1500,
-        icon: Activity
-    },
-    {
-        id: 'HEAL',
-        name: 'REPAIR KIT',
-        description: 'Restores 1 Life point instantly.',
-        cost: 1000,
-        icon: PlusCircle
-    },
-    {
-        id: 'IMMORTAL',
-        name: 'IMMORTALITY',
-        description: 'Unlock Ability: Press Space/Tap to be invincible for 5s.',
-        cost: 3000,
-        icon: Shield,
-        oneTime: true
+// Shop item icons, by item id
+const SHOP_ICONS: Record<string, typeof Zap> = {
+    HEAL: PlusCircle,
+    MAGNET_DURATION: Magnet,
+    SHIELD_DURATION: ShieldPlus,
+    LANE_SPEED: MoveHorizontal,
+    DOUBLE_JUMP: ArrowUpCircle,
+    MAX_LIFE: Activity,
+    GEM_VALUE: Gem,
+    IMMORTAL: Shield,
+    REVIVE: HeartPulse,
+};
+
+const RARITY_STYLES: Record<ShopRarity, { label: string; border: string; text: string }> = {
+    common: { label: 'COMMON', border: 'border-gray-700 hover:border-cyan-500', text: 'text-gray-400' },
+    rare: { label: 'RARE', border: 'border-blue-600/70 hover:border-blue-400', text: 'text-blue-400' },
+    epic: { label: 'EPIC', border: 'border-fuchsia-600/70 hover:border-fuchsia-400 shadow-[0_0_15px_rgba(255,0,255,0.2)]', text: 'text-fuchsia-400' },
+};
+
+const SLOT_LABELS: Record<CosmeticSlot, string> = {
+    skin: 'SKINS',
+    trail: 'TRAILS',
+    landing: 'LANDINGS',
+};
+
+const RAINBOW_FILL = 'conic-gradient(red, yellow, lime, cyan, blue, magenta, red)';
+
+// Colour chip previewing a cosmetic
+const getSwatchStyle = (cosmetic: Cosmetic): React.CSSProperties => {
+    switch (cosmetic.slot) {
+        case 'skin':
+            return {
+                background: cosmetic.pattern === 'rainbow' ? RAINBOW_FILL : cosmetic.armor,
+                border: `2px solid ${cosmetic.glow}`,
+                boxShadow: `0 0 6px ${cosmetic.glow}`,
+            };
+        case 'trail':
+            if (!cosmetic.color) return { border: '2px dashed #4b5563' };
+            return { background: cosmetic.color === RAINBOW ? RAINBOW_FILL : cosmetic.color };
+        case 'landing':
+            if (!cosmetic.style) return { border: '2px dashed #4b5563' };
+            return cosmetic.style === 'ring'
+                ? { border: `3px solid ${cosmetic.color}` }
+                : { background: `radial-gradient(${cosmetic.color}, transparent 70%)` };
     }
-];
+};
+
+const CosmeticSwatch: React.FC<{ cosmetic: Cosmetic; className?: string }> = ({ cosmetic, className = 'w-4 h-4' }) => (
+    <span className={`inline-block rounded-full flex-shrink-0 ${className}`} style={getSwatchStyle(cosmetic)} />
+);
 
 // --- Sub Components ---
 
 const ActivePowerups: React.FC = () => {
-    const { shieldEndTime, magnetEndTime } = useStore();
-    const [now, setNow] = useState(Date.now());
+    // Timers run on the run's game clock, so poll it for what is left
+    const [remaining, setRemaining] = useState({ shield: 0, magnet: 0, boost: 0 });
 
     useEffect(() => {
-        const interval = setInterval(() => setNow(Date.now()), 100);
+        const interval = setInterval(() => {
+            const clock = runController.state?.clock;
+            setRemaining({
+                shield: clock ? Math.ceil(getTimeRemaining(clock, 'shield')) : 0,
+                magnet: clock ? Math.ceil(getTimeRemaining(clock, 'magnet')) : 0,
+                boost: clock ? Math.ceil(getTimeRemaining(clock, 'speedBoost')) : 0,
+            });
+        }, 100);
         return () => clearInterval(interval);
     }, []);
 
-    const shieldLeft = Math.max(0, Math.ceil((shieldEndTime - now) / 1000));
-    const magnetLeft = Math.max(0, Math.ceil((magnetEndTime - now) / 1000));
+    const { shield: shieldLeft, magnet: magnetLeft, boost: boostLeft } = remaining;
 
-    if (shieldLeft === 0 && magnetLeft === 0) return null;
+    if (shieldLeft === 0 && magnetLeft === 0 && boostLeft === 0) return null;
 
     return (
-        <div className="absolute top-24 left-4 flex flex-col space-y-2 z-50">
+        <div className="absolute top-28 md:top-36 left-4 flex flex-col space-y-2 z-50">
             {shieldLeft > 0 && (
                 <div className="flex items-center bg-black/60 border border-cyan-500/50 rounded-lg p-2 animate-pulse">
                     <Shield className="w-6 h-6 text-cyan-400 mr-2" />
@@ -88,13 +124,139 @@ const ActivePowerups: React.FC = () => {
                     </div>
                 </div>
             )}
+            {boostLeft > 0 && (
+                <div className="flex items-center bg-black/60 border border-orange-500/50 rounded-lg p-2 animate-pulse">
+                    <Zap className="w-6 h-6 text-orange-400 mr-2" />
+                    <div className="flex flex-col">
+                        <span className="text-xs text-orange-200 font-cyber">BOOST</span>
+                        <span className="text-lg font-bold text-white font-mono leading-none">{boostLeft}s</span>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
 
-const LeaderboardTable: React.FC<{ entries: LeaderboardEntry[] }> = ({ entries }) => (
+// Combo multiplier under the score. The bar shows how long until it decays.
+const ComboMeter: React.FC = () => {
+    const { combo, comboMultiplier } = useStore();
+    const [decayLeft, setDecayLeft] = useState(0);
+    const [lostCombo, setLostCombo] = useState(0);
+    const previousCombo = useRef(combo);
+
+    useEffect(() => {
+        const interval = setInterval(() => {
+            const clock = runController.state?.clock;
+            setDecayLeft(clock ? getTimeRemaining(clock, 'combo') / COMBO_DECAY_TIME : 0);
+        }, 100);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Flash what was lost when a decent chain breaks
+    useEffect(() => {
+        if (combo === 0 && previousCombo.current >= COMBO_PICKUPS_PER_STEP) {
+            setLostCombo(previousCombo.current);
+            const timeout = setTimeout(() => setLostCombo(0), 1200);
+            previousCombo.current = combo;
+            return () => clearTimeout(timeout);
+        }
+        previousCombo.current = combo;
+    }, [combo]);
+
+    if (combo === 0) {
+        return lostCombo > 0 ? (
+            <div className="mt-1 text-sm md:text-base font-bold font-cyber text-red-500 animate-pulse">
+                COMBO LOST ({lostCombo})
+            </div>
+        ) : null;
+    }
+
+    const isMaxed = comboMultiplier >= COMBO_MAX_MULTIPLIER;
+    const color = isMaxed ? 'text-yellow-300 drop-shadow-[0_0_10px_gold]' : 'text-pink-400 drop-shadow-[0_0_8px_#ff00aa]';
+
+    return (
+        <div className="mt-1 flex items-center space-x-2">
+            <div key={comboMultiplier} className={`text-2xl md:text-4xl font-black font-cyber animate-combo-pop ${color}`}>
+                x{comboMultiplier}
+            </div>
+            <div className="flex flex-col">
+                <span className="text-xs md:text-sm text-gray-300 font-mono leading-none">{combo} CHAIN</span>
+                <div className="w-16 md:w-24 h-1 mt-1 bg-gray-800 rounded overflow-hidden">
+                    <div className="h-full bg-pink-500 transition-[width] duration-100" style={{ width: `${Math.round(decayLeft * 100)}%` }} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Screen flash and callout each time the player scrapes past a hazard
+const NearMissFlash: React.FC = () => {
+    const { stats } = useStore();
+    const [flashKey, setFlashKey] = useState(0);
+    const previousCount = useRef(stats.nearMisses);
+
+    useEffect(() => {
+        if (stats.nearMisses > previousCount.current) {
+            previousCount.current = stats.nearMisses;
+            setFlashKey(k => k + 1);
+            const timeout = setTimeout(() => setFlashKey(0), 700);
+            return () => clearTimeout(timeout);
+        }
+        previousCount.current = stats.nearMisses;
+    }, [stats.nearMisses]);
+
+    if (flashKey === 0) return null;
+
+    return (
+        <div key={flashKey} className="absolute inset-0 pointer-events-none animate-near-miss">
+            <div className="absolute inset-0 shadow-[inset_0_0_80px_rgba(255,255,255,0.6)]" />
+            <div className="absolute top-1/3 left-1/2 -translate-x-1/2 text-lg md:text-2xl font-black font-cyber text-white tracking-widest drop-shadow-[0_0_10px_#00ffff] whitespace-nowrap">
+                CLOSE CALL +{NEAR_MISS_POINTS}
+            </div>
+        </div>
+    );
+};
+
+// Health bar for the level's boss, one segment per weak point
+const BossBar: React.FC = () => {
+    const { boss } = useStore();
+    if (!boss || boss.health <= 0) return null;
+
+    return (
+        <div className="absolute bottom-24 md:bottom-28 left-1/2 transform -translate-x-1/2 w-64 md:w-96 flex flex-col items-center animate-in fade-in">
+            <div className="text-xs md:text-sm font-bold tracking-[0.3em] text-fuchsia-400 font-cyber mb-1 drop-shadow-[0_0_8px_#ff00ff]">
+                {boss.type}
+            </div>
+            <div className="flex w-full space-x-1 bg-black/60 p-1 rounded border border-fuchsia-500/50">
+                {[...Array(boss.maxHealth)].map((_, i) => (
+                    <div
+                        key={i}
+                        className={`flex-1 h-3 rounded-sm transition-colors duration-300 ${i < boss.health ? 'bg-fuchsia-500 shadow-[0_0_8px_#ff00ff]' : 'bg-gray-800'}`}
+                    />
+                ))}
+            </div>
+            <div className="text-[10px] text-yellow-300 font-mono mt-1 tracking-widest">JUMP INTO THE WEAK POINTS</div>
+        </div>
+    );
+};
+
+// The skin and trail a runner had equipped, shown beside their name
+const EquippedBadge: React.FC<{ equipped: LeaderboardEntry['cosmetics'] }> = ({ equipped }) => {
+    const skin = getEquipped(equipped, 'skin');
+    const trail = getEquipped(equipped, 'trail');
+    const landing = getEquipped(equipped, 'landing');
+
+    return (
+        <span className="flex items-center space-x-1 ml-2" title={`${skin.name} / ${trail.name} / ${landing.name}`}>
+            <CosmeticSwatch cosmetic={skin} className="w-3 h-3" />
+            {trail.color && <CosmeticSwatch cosmetic={trail} className="w-2 h-2" />}
+        </span>
+    );
+};
+
+const LeaderboardTable: React.FC<{ entries: LeaderboardEntry[]; title?: string }> = ({ entries, title = 'ELITE RUNNERS' }) => (
     <div className="w-full max-w-md bg-black/80 border border-gray-800 rounded-xl p-4 md:p-6 backdrop-blur-md shadow-[0_0_20px_rgba(0,0,0,0.5)]">
-        <h3 className="text-xl md:text-2xl text-cyan-400 font-cyber mb-4 text-center border-b border-gray-800 pb-2 tracking-widest">ELITE RUNNERS</h3>
+        <h3 className="text-xl md:text-2xl text-cyan-400 font-cyber mb-4 text-center border-b border-gray-800 pb-2 tracking-widest">{title}</h3>
         {entries.length === 0 ? (
              <div className="text-gray-500 text-center italic py-4">NO RECORDS YET</div>
         ) : (
@@ -106,6 +268,8 @@ const LeaderboardTable: React.FC<{ entries: LeaderboardEntry[] }> = ({ entries }
                                  #{idx + 1}
                              </span>
                              <span className="font-mono tracking-wider ml-2">{entry.name}</span>
+                             {entry.verified && <BadgeCheck className="w-4 h-4 ml-1 text-cyan-400" aria-label="Verified run" />}
+                             {entry.cosmetics && <EquippedBadge equipped={entry.cosmetics} />}
                          </div>
                          <span className="font-cyber">{entry.score.toLocaleString()}</span>
                     </div>
@@ -149,54 +313,54 @@ const HighScoreForm: React.FC<{ onSubmit: (name: string) => void }> = ({ onSubmi
 }
 
 const ShopScreen: React.FC = () => {
-    const { score, buyItem, closeShop, hasDoubleJump, hasImmortality } = useStore();
-    const [items, setItems] = useState<ShopItem[]>([]);
-
-    useEffect(() => {
-        // Select 3 random items, filtering out one-time items already bought
-        let pool = SHOP_ITEMS.filter(item => {
-            if (item.id === 'DOUBLE_JUMP' && hasDoubleJump) return false;
-            if (item.id === 'IMMORTAL' && hasImmortality) return false;
-            return true;
-        });
-
-        // Shuffle and pick 3
-        pool = pool.sort(() => 0.5 - Math.random());
-        setItems(pool.slice(0, 3));
-    }, []);
+    const { score, buyItem, rerollShop, closeShop, shopOffer, shopRerollCost } = useStore();
 
     return (
         <div className="absolute inset-0 bg-black/90 z-[100] text-white pointer-events-auto backdrop-blur-md overflow-y-auto">
              <div className="flex flex-col items-center justify-center min-h-full py-8 px-4">
                  <h2 className="text-3xl md:text-4xl font-black text-cyan-400 mb-2 font-cyber tracking-widest text-center">CYBER SHOP</h2>
-                 <div className="flex items-center text-yellow-400 mb-6 md:mb-8">
+                 <div className="flex items-center text-yellow-400 mb-1">
                      <span className="text-base md:text-lg mr-2">AVAILABLE CREDITS:</span>
                      <span className="text-xl md:text-2xl font-bold">{score.toLocaleString()}</span>
                  </div>
+                 <div className="flex items-center text-xs md:text-sm text-gray-400 mb-6 md:mb-8">
+                     <span className="mr-2">WALLET:</span>
+                     <WalletBalance />
+                 </div>
 
-                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6 max-w-4xl w-full mb-8">
-                     {items.map(item => {
-                         const Icon = item.icon;
-                         const canAfford = score >= item.cost;
+                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6 max-w-4xl w-full mb-4">
+                     {shopOffer.map(({ item, cost, available }) => {
+                         const Icon = SHOP_ICONS[item.id] ?? Zap;
+                         const rarity = RARITY_STYLES[item.rarity];
+                         const canBuy = available && score >= cost;
                          return (
-                             <div key={item.id} className="bg-gray-900/80 border border-gray-700 p-4 md:p-6 rounded-xl flex flex-col items-center text-center hover:border-cyan-500 transition-colors">
+                             <div key={item.id} className={`bg-gray-900/80 border p-4 md:p-6 rounded-xl flex flex-col items-center text-center transition-colors ${rarity.border}`}>
+                                 <div className={`text-[10px] md:text-xs font-bold tracking-[0.3em] mb-2 ${rarity.text}`}>{rarity.label}</div>
                                  <div className="bg-gray-800 p-3 md:p-4 rounded-full mb-3 md:mb-4">
                                      <Icon className="w-6 h-6 md:w-8 md:h-8 text-cyan-400" />
                                  </div>
                                  <h3 className="text-lg md:text-xl font-bold mb-2">{item.name}</h3>
                                  <p className="text-gray-400 text-xs md:text-sm mb-4 h-10 md:h-12 flex items-center justify-center">{item.description}</p>
                                  <button 
-                                    onClick={() => buyItem(item.id as any, item.cost)}
-                                    disabled={!canAfford}
-                                    className={`px-4 md:px-6 py-2 rounded font-bold w-full text-sm md:text-base ${canAfford ? 'bg-gradient-to-r from-cyan-600 to-blue-600 hover:brightness-110' : 'bg-gray-700 cursor-not-allowed opacity-50'}`}
+                                    onClick={() => buyItem(item.id)}
+                                    disabled={!canBuy}
+                                    className={`px-4 md:px-6 py-2 rounded font-bold w-full text-sm md:text-base ${canBuy ? 'bg-gradient-to-r from-cyan-600 to-blue-600 hover:brightness-110' : 'bg-gray-700 cursor-not-allowed opacity-50'}`}
                                  >
-                                     {item.cost} GEMS
+                                     {available ? `${cost.toLocaleString()} CREDITS` : 'MAXED'}
                                  </button>
                              </div>
                          );
                      })}
                  </div>
 
+                 <button
+                    onClick={rerollShop}
+                    disabled={score < shopRerollCost}
+                    className="flex items-center px-6 py-2 mb-8 rounded border border-yellow-500/40 text-yellow-300 text-sm font-bold tracking-widest transition-colors hover:bg-yellow-500/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                 >
+                     <Shuffle className="w-4 h-4 mr-2" /> REROLL ({shopRerollCost.toLocaleString()} CREDITS)
+                 </button>
+
                  <button 
                     onClick={closeShop}
                     className="flex items-center px-8 md:px-10 py-3 md:py-4 bg-gradient-to-r from-purple-600 to-pink-600 text-white font-bold text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_20px_rgba(255,0,255,0.4)]"
@@ -208,14 +372,407 @@ const ShopScreen: React.FC = () => {
     );
 };
 
+// Persistent gem balance, earned from verified runs and spent on upgrades
+const WalletBalance: React.FC<{ className?: string }> = ({ className = '' }) => {
+    const { userData } = useStore();
+    if (!userData) return null;
+
+    return (
+        <div className={`flex items-center font-mono font-bold text-cyan-300 ${className}`} title="Wallet balance">
+            <Diamond className="w-4 h-4 mr-1" fill="currentColor" /> {(userData.gems ?? 0).toLocaleString()}
+        </div>
+    );
+};
+
+const GEM_TRANSACTION_LABELS: Record<GemTransaction['type'], string> = {
+    run_reward: 'RUN REWARD',
+    purchase: 'PURCHASE',
+    daily_reward: 'DAILY REWARD',
+    admin_grant: 'GRANT',
+};
+
+// The latest wallet movements, so a balance change can be traced to a run or a purchase
+const GemHistory: React.FC = () => {
+    const { gemTransactions, fetchGemTransactions } = useStore();
+
+    useEffect(() => {
+        fetchGemTransactions();
+    }, []);
+
+    if (gemTransactions.length === 0) return null;
+
+    return (
+        <div className="mt-4 border-t border-gray-800 pt-3">
+            <div className="text-xs text-gray-500 font-bold tracking-widest mb-2">RECENT ACTIVITY</div>
+            <div className="space-y-1">
+                {gemTransactions.map(tx => (
+                    <div key={tx.id} className="flex items-center text-xs font-mono">
+                        <span className="text-gray-400 flex-1">{GEM_TRANSACTION_LABELS[tx.type]}</span>
+                        <span className="text-gray-600 mr-3">{new Date(tx.createdAt).toLocaleDateString()}</span>
+                        <span className={tx.amount >= 0 ? 'text-green-400' : 'text-red-400'}>
+                            {tx.amount >= 0 ? '+' : ''}{tx.amount.toLocaleString()}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const UPGRADE_ICONS: Record<string, typeof Zap> = {
+    DOUBLE_JUMP: ArrowUpCircle,
+    IMMORTAL: Shield,
+    MAX_LIFE: Activity,
+};
+
+// Permanent upgrades bought with gems from the menu. Prices and ownership come
+// from the server; owned upgrades are applied when the next run starts.
+const UpgradesPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { userData, upgradeCatalog, fetchUpgradeCatalog, purchaseUpgrade } = useStore();
+    const [pendingItem, setPendingItem] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const gems = userData?.gems ?? 0;
+
+    useEffect(() => {
+        fetchUpgradeCatalog();
+    }, []);
+
+    const handleBuy = async (itemId: string) => {
+        setPendingItem(itemId);
+        setError(null);
+        const bought = await purchaseUpgrade(itemId);
+        if (!bought) setError('PURCHASE FAILED');
+        setPendingItem(null);
+    };
+
+    return (
+        <div className="absolute inset-0 bg-black/95 z-50 flex items-center justify-center p-4" data-gamepad-modal>
+            <div className="relative w-full max-w-md">
+                <button
+                   onClick={onClose}
+                   data-gamepad-back
+                   className="absolute -top-12 right-0 text-white hover:text-red-500 transition-colors"
+                >
+                    <X className="w-8 h-8" />
+                </button>
+                <div className="w-full bg-black/80 border border-gray-800 rounded-xl p-4 md:p-6 backdrop-blur-md">
+                    <h3 className="text-xl md:text-2xl text-cyan-400 font-cyber mb-2 text-center tracking-widest">UPGRADES</h3>
+                    <WalletBalance className="justify-center mb-4" />
+                    {upgradeCatalog.length === 0 ? (
+                        <div className="text-gray-500 text-center italic py-4">LOADING CATALOG...</div>
+                    ) : (
+                        <div className="space-y-3">
+                            {upgradeCatalog.map(item => {
+                                const Icon = UPGRADE_ICONS[item.id] ?? Zap;
+                                const canAfford = gems >= item.cost;
+                                return (
+                                    <div key={item.id} className="flex items-center bg-gray-900/80 border border-gray-700 rounded-lg p-3">
+                                        <Icon className="w-6 h-6 text-cyan-400 mr-3 flex-shrink-0" />
+                                        <div className="flex-1 min-w-0 mr-3">
+                                            <div className="text-sm font-bold text-white">{item.name}</div>
+                                            <div className="text-xs text-gray-400">{item.description}</div>
+                                        </div>
+                                        <button
+                                           onClick={() => handleBuy(item.id)}
+                                           disabled={item.soldOut || !canAfford || pendingItem !== null}
+                                           className={`px-3 py-2 rounded font-bold text-xs whitespace-nowrap ${item.soldOut ? 'bg-green-900/40 text-green-400' : canAfford ? 'bg-gradient-to-r from-cyan-600 to-blue-600 hover:brightness-110' : 'bg-gray-700 opacity-50 cursor-not-allowed'}`}
+                                        >
+                                            {item.soldOut ? 'OWNED' : pendingItem === item.id ? '...' : `${item.cost} GEMS`}
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                    {error && <div className="text-red-400 text-xs text-center font-mono mt-3">{error}</div>}
+                    <GemHistory />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Cosmetics bought with gems or earned through achievements. Ownership and
+// prices come from the server; the equipped set is drawn on the runner.
+const LockerPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { userData, cosmeticCatalog, fetchCosmetics, purchaseCosmetic, equipCosmetic } = useStore();
+    const [slot, setSlot] = useState<CosmeticSlot>('skin');
+    const [pendingItem, setPendingItem] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const gems = userData?.gems ?? 0;
+    const equipped = userData?.cosmetics?.equipped;
+
+    useEffect(() => {
+        fetchCosmetics();
+    }, []);
+
+    const handleSelect = async (cosmeticId: string, owned: boolean) => {
+        setPendingItem(cosmeticId);
+        setError(null);
+        const done = owned ? await equipCosmetic(cosmeticId) : await purchaseCosmetic(cosmeticId);
+        if (!done) setError(owned ? 'EQUIP FAILED' : 'PURCHASE FAILED');
+        setPendingItem(null);
+    };
+
+    return (
+        <div className="absolute inset-0 bg-black/95 z-50 flex items-center justify-center p-4" data-gamepad-modal>
+            <div className="relative w-full max-w-md">
+                <button
+                   onClick={onClose}
+                   data-gamepad-back
+                   className="absolute -top-12 right-0 text-white hover:text-red-500 transition-colors"
+                >
+                    <X className="w-8 h-8" />
+                </button>
+                <div className="w-full bg-black/80 border border-gray-800 rounded-xl p-4 md:p-6 backdrop-blur-md">
+                    <h3 className="text-xl md:text-2xl text-cyan-400 font-cyber mb-2 text-center tracking-widest">LOCKER</h3>
+                    <WalletBalance className="justify-center mb-4" />
+                    <div className="flex mb-4 space-x-2">
+                        {COSMETIC_SLOTS.map(tab => (
+                            <button
+                               key={tab}
+                               onClick={() => setSlot(tab)}
+                               className={`flex-1 py-2 rounded-lg text-xs font-bold tracking-widest border transition-colors ${slot === tab ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300' : 'bg-black/40 border-white/10 text-gray-500 hover:text-white'}`}
+                            >
+                                {SLOT_LABELS[tab]}
+                            </button>
+                        ))}
+                    </div>
+                    {cosmeticCatalog.length === 0 ? (
+                        <div className="text-gray-500 text-center italic py-4">LOADING LOCKER...</div>
+                    ) : (
+                        <div className="space-y-3">
+                            {cosmeticCatalog.filter(item => item.slot === slot).map(item => {
+                                const cosmetic = getCosmetic(item.id);
+                                const isEquipped = equipped?.[slot] === item.id;
+                                const canAfford = item.cost !== undefined && gems >= item.cost;
+                                const canSelect = !isEquipped && (item.owned || canAfford);
+                                return (
+                                    <div key={item.id} className={`flex items-center bg-gray-900/80 border rounded-lg p-3 ${isEquipped ? 'border-cyan-400' : 'border-gray-700'}`}>
+                                        {cosmetic && <CosmeticSwatch cosmetic={cosmetic} className="w-6 h-6 mr-3" />}
+                                        <div className="flex-1 min-w-0 mr-3">
+                                            <div className="text-sm font-bold text-white">{item.name}</div>
+                                            {!item.owned && item.achievement && (
+                                                <div className="text-xs text-gray-400 flex items-center">
+                                                    <Lock className="w-3 h-3 mr-1" /> EARN {item.achievement.replace(/_/g, ' ')}
+                                                </div>
+                                            )}
+                                        </div>
+                                        <button
+                                           onClick={() => handleSelect(item.id, item.owned)}
+                                           disabled={!canSelect || pendingItem !== null}
+                                           className={`px-3 py-2 rounded font-bold text-xs whitespace-nowrap ${isEquipped ? 'bg-green-900/40 text-green-400' : canSelect ? 'bg-gradient-to-r from-cyan-600 to-blue-600 hover:brightness-110' : 'bg-gray-700 opacity-50 cursor-not-allowed'}`}
+                                        >
+                                            {isEquipped ? 'EQUIPPED'
+                                                : pendingItem === item.id ? '...'
+                                                : item.owned ? 'EQUIP'
+                                                : item.cost !== undefined ? `${item.cost} GEMS`
+                                                : 'LOCKED'}
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                    {error && <div className="text-red-400 text-xs text-center font-mono mt-3">{error}</div>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Rebinding screen. Each action lists its inputs; adding one waits for the
+// next key, button, swipe or tap, and taking an input from another action
+// asks first.
+const ControlsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { controls, setControls } = useStore();
+    const [listening, setListening] = useState<ControlAction | null>(null);
+    const [conflict, setConflict] = useState<{ action: ControlAction; input: string; other: ControlAction } | null>(null);
+
+    const bind = (action: ControlAction, captured: string) => {
+        const next = { ...controls };
+        for (const other of CONTROL_ACTIONS) next[other] = next[other].filter(bound => bound !== captured);
+        next[action] = [...next[action], captured];
+        setControls(next);
+    };
+
+    const unbind = (action: ControlAction, bound: string) => {
+        setControls({ ...controls, [action]: controls[action].filter(other => other !== bound) });
+    };
+
+    // Wait for the next input while listening; closing the panel stops waiting
+    useEffect(() => {
+        if (!listening) return;
+        return input.capture(captured => {
+            setListening(null);
+            if (controls[listening].includes(captured)) return;
+            const other = findConflict(controls, captured, listening);
+            if (other) setConflict({ action: listening, input: captured, other });
+            else bind(listening, captured);
+        });
+    }, [listening, controls]);
+
+    const promptClass = "flex items-center justify-between bg-cyan-950/60 border border-cyan-500/40 rounded-lg px-3 py-2 mb-3 text-xs font-mono";
+
+    return (
+        <div className="absolute inset-0 bg-black/95 z-50 flex items-center justify-center p-4" data-gamepad-modal>
+            <div className="relative w-full max-w-md">
+                <button
+                   onClick={onClose}
+                   data-gamepad-back
+                   className="absolute -top-12 right-0 text-white hover:text-red-500 transition-colors"
+                >
+                    <X className="w-8 h-8" />
+                </button>
+                <div className="w-full bg-black/80 border border-gray-800 rounded-xl p-4 md:p-6 backdrop-blur-md">
+                    <h3 className="text-xl md:text-2xl text-cyan-400 font-cyber mb-4 text-center tracking-widest">CONTROLS</h3>
+                    {listening && (
+                        <div className={promptClass}>
+                            <span className="text-cyan-300">PRESS A KEY, BUTTON OR SWIPE FOR {CONTROL_LABELS[listening]}</span>
+                            <button onClick={() => setListening(null)} className="ml-2 text-gray-400 hover:text-white font-bold">CANCEL</button>
+                        </div>
+                    )}
+                    {conflict && (
+                        <div className={promptClass}>
+                            <span className="text-yellow-300">{input.getLabel(conflict.input)} IS BOUND TO {CONTROL_LABELS[conflict.other]}</span>
+                            <span className="flex ml-2 space-x-3 font-bold">
+                                <button
+                                   onClick={() => { bind(conflict.action, conflict.input); setConflict(null); }}
+                                   className="text-cyan-300 hover:text-white"
+                                >
+                                    REBIND
+                                </button>
+                                <button onClick={() => setConflict(null)} className="text-gray-400 hover:text-white">CANCEL</button>
+                            </span>
+                        </div>
+                    )}
+                    <div className="space-y-2">
+                        {CONTROL_ACTIONS.map(action => (
+                            <div key={action} className="flex items-center bg-gray-900/80 border border-gray-700 rounded-lg p-2">
+                                <div className="w-24 flex-shrink-0 text-xs font-bold text-white">{CONTROL_LABELS[action]}</div>
+                                <div className="flex-1 flex flex-wrap gap-1">
+                                    {controls[action].map(bound => (
+                                        <button
+                                           key={bound}
+                                           onClick={() => unbind(action, bound)}
+                                           title="Remove"
+                                           className="flex items-center px-2 py-1 bg-black/60 border border-cyan-500/30 rounded text-[10px] font-mono text-cyan-300 hover:border-red-500 hover:text-red-400"
+                                        >
+                                            {input.getLabel(bound)} <X className="w-3 h-3 ml-1" />
+                                        </button>
+                                    ))}
+                                    <button
+                                       onClick={() => { setConflict(null); setListening(action); }}
+                                       disabled={controls[action].length >= MAX_BINDINGS_PER_ACTION}
+                                       title="Add"
+                                       className={`px-2 py-1 border border-dashed rounded text-[10px] font-mono disabled:opacity-30 ${listening === action ? 'border-cyan-400 text-cyan-300 animate-pulse' : 'border-gray-600 text-gray-400 hover:text-white'}`}
+                                    >
+                                        {listening === action ? '...' : <Plus className="w-3 h-3" />}
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button
+                       onClick={() => { setListening(null); setConflict(null); setControls(DEFAULT_BINDINGS); }}
+                       className="w-full mt-4 py-2 rounded-lg text-xs font-bold tracking-widest border border-white/10 text-gray-400 hover:text-white hover:border-cyan-500"
+                    >
+                        RESET DEFAULTS
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const PauseScreen: React.FC<{ onRestart: () => void }> = ({ onRestart }) => {
+    const { resumeGame, quitRun, isMuted, setMuted, level, score } = useStore();
+    const [showSettings, setShowSettings] = useState(false);
+    const [showControls, setShowControls] = useState(false);
+
+    const buttonClass = "flex items-center justify-center w-full px-6 py-3 md:py-4 rounded font-bold text-base md:text-lg tracking-widest transition-all hover:scale-105";
+
+    return (
+        <div className="absolute inset-0 bg-black/80 z-[100] text-white pointer-events-auto backdrop-blur-md overflow-y-auto">
+            <div className="flex flex-col items-center justify-center min-h-full py-8 px-4">
+                <h2 className="text-3xl md:text-5xl font-black text-cyan-400 mb-2 font-cyber tracking-widest text-center drop-shadow-[0_0_10px_#00ffff]">
+                    {showSettings ? 'SETTINGS' : 'PAUSED'}
+                </h2>
+                <p className="text-gray-400 font-mono text-sm md:text-base mb-8">
+                    LEVEL {level} &middot; {score.toLocaleString()} PTS
+                </p>
+
+                {showSettings ? (
+                    <div className="flex flex-col space-y-3 w-full max-w-xs">
+                        <button
+                            onClick={() => setMuted(!isMuted)}
+                            className={`${buttonClass} bg-gray-900/80 border border-gray-700 hover:border-cyan-500`}
+                        >
+                            {isMuted ? <VolumeX className="mr-2 w-5 h-5" /> : <Volume2 className="mr-2 w-5 h-5" />}
+                            SOUND {isMuted ? 'OFF' : 'ON'}
+                        </button>
+                        <button
+                            onClick={() => setShowControls(true)}
+                            className={`${buttonClass} bg-gray-900/80 border border-gray-700 hover:border-cyan-500`}
+                        >
+                            <Keyboard className="mr-2 w-5 h-5" /> CONTROLS
+                        </button>
+                        <button
+                            onClick={() => setShowSettings(false)}
+                            data-gamepad-back
+                            className={`${buttonClass} bg-gray-800 text-gray-300`}
+                        >
+                            <ChevronLeft className="mr-2 w-5 h-5" /> BACK
+                        </button>
+                    </div>
+                ) : (
+                    <div className="flex flex-col space-y-3 w-full max-w-xs">
+                        <button
+                            onClick={resumeGame}
+                            className={`${buttonClass} bg-gradient-to-r from-purple-600 to-pink-600 shadow-[0_0_20px_rgba(255,0,255,0.4)]`}
+                        >
+                            RESUME <Play className="ml-2 w-5 h-5" fill="white" />
+                        </button>
+                        <button
+                            onClick={onRestart}
+                            className={`${buttonClass} bg-gray-900/80 border border-gray-700 hover:border-cyan-500`}
+                        >
+                            <RotateCcw className="mr-2 w-5 h-5" /> RESTART
+                        </button>
+                        <button
+                            onClick={() => setShowSettings(true)}
+                            className={`${buttonClass} bg-gray-900/80 border border-gray-700 hover:border-cyan-500`}
+                        >
+                            <Settings className="mr-2 w-5 h-5" /> SETTINGS
+                        </button>
+                        <button
+                            onClick={quitRun}
+                            className={`${buttonClass} bg-gray-800 text-gray-300`}
+                        >
+                            <Home className="mr-2 w-5 h-5" /> QUIT
+                        </button>
+                        <p className="text-xs text-gray-500 font-mono text-center pt-2">QUITTING ENDS THE RUN WITHOUT SUBMITTING IT</p>
+                    </div>
+                )}
+            </div>
+            {showControls && <ControlsPanel onClose={() => setShowControls(false)} />}
+        </div>
+    );
+};
+
 export const HUD: React.FC = () => {
   const { 
     score, lives, maxLives, collectedLetters, status, level, restartGame, startGame, 
     gemsCollected, distance, isImmortalityActive, speed, leaderboard, isHighScore, saveScore, 
     baseAccount, authenticateUser, logout, isAuthenticated, userData, fetchLeaderboard, submitGameScore,
-    restoreSession, isSessionLoading
+    restoreSession, isSessionLoading, seed, stats, runMode, isRankedRun, dailyChallenge, dailyLeaderboard,
+    startDailyChallenge, fetchDailyChallenge, pauseGame, resumeGame
   } = useStore();
   const [showMenuLeaderboard, setShowMenuLeaderboard] = useState(false);
+  const [showUpgrades, setShowUpgrades] = useState(false);
+  const [showLocker, setShowLocker] = useState(false);
+  const [showControls, setShowControls] = useState(false);
+  const [menuBoard, setMenuBoard] = useState<RunMode>('classic');
   const [hasSubmittedScore, setHasSubmittedScore] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
 
@@ -229,6 +786,11 @@ export const HUD: React.FC = () => {
     fetchLeaderboard();
   }, []);
 
+  // Fetch today's challenge, again after sign-in to pick up the player's attempts
+  useEffect(() => {
+    fetchDailyChallenge();
+  }, [isAuthenticated]);
+
   // Generate a fresh nonce for authentication
   const generateNonce = () => {
     return crypto.randomUUID().replace(/-/g, '');
@@ -280,6 +842,38 @@ export const HUD: React.FC = () => {
     logout();
   };
   
+  // Toggle on the Pause action, and pause automatically when the page is
+  // backgrounded (a hidden tab or webview, see Lifecycle.ts) or the player
+  // uses the mini app host's back gesture mid-run
+  useEffect(() => {
+    const unsubscribe = input.subscribe(action => {
+      if (action !== 'PAUSE') return;
+      if (status === GameStatus.PLAYING) pauseGame();
+      else if (status === GameStatus.PAUSED) resumeGame();
+    });
+    const unsubscribeBackground = onBackgrounded(pauseGame);
+
+    miniAppSDK.on('backNavigationTriggered', pauseGame);
+    return () => {
+      unsubscribe();
+      unsubscribeBackground();
+      miniAppSDK.off('backNavigationTriggered', pauseGame);
+    };
+  }, [status]);
+
+  // Outside a run the controller drives whichever menu is showing. Whatever
+  // is bound to Pause only resumes, so it doesn't press a button as well.
+  useEffect(() => input.subscribeGamepad(button => {
+    if (status === GameStatus.PLAYING) return;
+    if (status === GameStatus.PAUSED && input.getAction(`Pad:${button}`) === 'PAUSE') return;
+    navigate(button === 'start' ? 'a' : button);
+  }), [status]);
+
+  // Put a controller player's focus on the new screen
+  useEffect(() => {
+    if (status !== GameStatus.PLAYING && gamepad.isConnected()) requestAnimationFrame(focusFirst);
+  }, [status]);
+
   // Reset submission state when status changes to PLAYING
   useEffect(() => {
       if (status === GameStatus.PLAYING) {
@@ -294,6 +888,19 @@ export const HUD: React.FC = () => {
     }
   }, [status, isAuthenticated]);
 
+  const dailyTitle = dailyChallenge ? `DAILY ${dailyChallenge.date}` : 'DAILY CHALLENGE';
+  const dailyAttemptsLeft = dailyChallenge ? Math.max(0, dailyChallenge.maxAttempts - dailyChallenge.attemptsUsed) : null;
+
+  // Game over screens show the board the run belongs to and replay in the same mode
+  const runBoard = runMode === 'daily'
+      ? <LeaderboardTable entries={dailyLeaderboard} title={dailyTitle} />
+      : <LeaderboardTable entries={leaderboard} />;
+  const playAgain = () => {
+      audio.init();
+      if (runMode === 'daily') startDailyChallenge();
+      else restartGame();
+  };
+
   const containerClass = "absolute inset-0 pointer-events-none flex flex-col justify-between p-4 md:p-8 z-50";
 
   // Get letters for current level display (includes carryovers)
@@ -310,6 +917,10 @@ export const HUD: React.FC = () => {
       return <ShopScreen />;
   }
 
+  if (status === GameStatus.PAUSED) {
+      return <PauseScreen onRestart={playAgain} />;
+  }
+
   if (status === GameStatus.MENU) {
       return (
           <div className="absolute inset-0 flex items-center justify-center z-[100] bg-black/80 backdrop-blur-sm p-4 pointer-events-auto">
@@ -326,19 +937,42 @@ export const HUD: React.FC = () => {
 
               {/* Leaderboard Overlay */}
               {showMenuLeaderboard && (
-                  <div className="absolute inset-0 bg-black/95 z-50 flex items-center justify-center p-4">
+                  <div className="absolute inset-0 bg-black/95 z-50 flex items-center justify-center p-4" data-gamepad-modal>
                       <div className="relative w-full max-w-md">
                           <button 
                              onClick={() => setShowMenuLeaderboard(false)}
+                             data-gamepad-back
                              className="absolute -top-12 right-0 text-white hover:text-red-500 transition-colors"
                           >
                               <X className="w-8 h-8" />
                           </button>
-                          <LeaderboardTable entries={leaderboard} />
+                          <div className="flex mb-3 space-x-2">
+                              {(['classic', 'daily'] as RunMode[]).map(board => (
+                                  <button
+                                     key={board}
+                                     onClick={() => setMenuBoard(board)}
+                                     className={`flex-1 py-2 rounded-lg text-xs font-bold tracking-widest border transition-colors ${menuBoard === board ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300' : 'bg-black/40 border-white/10 text-gray-500 hover:text-white'}`}
+                                  >
+                                      {board === 'classic' ? 'ALL TIME' : 'DAILY'}
+                                  </button>
+                              ))}
+                          </div>
+                          {menuBoard === 'daily'
+                              ? <LeaderboardTable entries={dailyLeaderboard} title={dailyTitle} />
+                              : <LeaderboardTable entries={leaderboard} />}
                       </div>
                   </div>
               )}
 
+              {/* Upgrades Overlay */}
+              {showUpgrades && <UpgradesPanel onClose={() => setShowUpgrades(false)} />}
+
+              {/* Locker Overlay */}
+              {showLocker && <LockerPanel onClose={() => setShowLocker(false)} />}
+
+              {/* Controls Overlay */}
+              {showControls && <ControlsPanel onClose={() => setShowControls(false)} />}
+
               {/* Card Container */}
               <div className="relative w-full max-w-md rounded-3xl overflow-hidden shadow-[0_0_50px_rgba(0,255,255,0.2)] border border-white/10 animate-in zoom-in-95 duration-500">
                 
@@ -371,6 +1005,7 @@ export const HUD: React.FC = () => {
                                   )}
                                 </div>
                               </div>
+                              <WalletBalance className="ml-auto mr-3 text-sm" />
                               <button 
                                 onClick={handleSignOut}
                                 className="text-gray-400 hover:text-red-400 transition-colors"
@@ -389,6 +1024,33 @@ export const HUD: React.FC = () => {
                                     INITIALIZE RUN <Play className="ml-2 w-5 h-5 fill-white" />
                                 </span>
                             </button>
+
+                            <button 
+                              onClick={() => { audio.init(); startDailyChallenge(); }}
+                              className="w-full px-6 py-3 bg-black/40 hover:bg-black/60 backdrop-blur-md border border-yellow-500/30 hover:border-yellow-400 text-yellow-300 font-bold text-sm rounded-xl transition-all flex items-center justify-center tracking-widest hover:text-white mb-3"
+                            >
+                                <CalendarDays className="w-4 h-4 mr-2" /> DAILY CHALLENGE
+                                {dailyAttemptsLeft !== null && (
+                                    <span className="ml-2 text-xs font-mono text-yellow-500/80">
+                                        {dailyAttemptsLeft > 0 ? `${dailyAttemptsLeft}/${dailyChallenge!.maxAttempts} LEFT` : 'PRACTICE'}
+                                    </span>
+                                )}
+                            </button>
+
+                            <div className="flex w-full space-x-3 mb-3">
+                              <button 
+                                onClick={() => setShowUpgrades(true)}
+                                className="flex-1 px-4 py-3 bg-black/40 hover:bg-black/60 backdrop-blur-md border border-cyan-500/30 hover:border-cyan-400 text-cyan-300 font-bold text-sm rounded-xl transition-all flex items-center justify-center tracking-widest hover:text-white"
+                              >
+                                  <Rocket className="w-4 h-4 mr-2" /> UPGRADES
+                              </button>
+                              <button 
+                                onClick={() => setShowLocker(true)}
+                                className="flex-1 px-4 py-3 bg-black/40 hover:bg-black/60 backdrop-blur-md border border-cyan-500/30 hover:border-cyan-400 text-cyan-300 font-bold text-sm rounded-xl transition-all flex items-center justify-center tracking-widest hover:text-white"
+                              >
+                                  <Shirt className="w-4 h-4 mr-2" /> LOCKER
+                              </button>
+                            </div>
                           </>
                         ) : (
                           <>
@@ -406,12 +1068,21 @@ export const HUD: React.FC = () => {
                           </>
                         )}
                         
-                        <button 
-                          onClick={() => setShowMenuLeaderboard(true)}
-                          className="w-full px-6 py-3 bg-black/40 hover:bg-black/60 backdrop-blur-md border border-white/10 text-cyan-300 font-bold text-sm rounded-xl transition-all flex items-center justify-center tracking-widest hover:text-white"
-                        >
-                            <ListOrdered className="w-4 h-4 mr-2" /> LEADERBOARD
-                        </button>
+                        <div className="flex w-full space-x-3">
+                          <button 
+                            onClick={() => setShowMenuLeaderboard(true)}
+                            className="flex-1 px-6 py-3 bg-black/40 hover:bg-black/60 backdrop-blur-md border border-white/10 text-cyan-300 font-bold text-sm rounded-xl transition-all flex items-center justify-center tracking-widest hover:text-white"
+                          >
+                              <ListOrdered className="w-4 h-4 mr-2" /> LEADERBOARD
+                          </button>
+                          <button 
+                            onClick={() => setShowControls(true)}
+                            title="Controls"
+                            className="px-4 py-3 bg-black/40 hover:bg-black/60 backdrop-blur-md border border-white/10 text-cyan-300 rounded-xl transition-all flex items-center justify-center hover:text-white"
+                          >
+                              <Keyboard className="w-4 h-4" />
+                          </button>
+                        </div>
 
                         <p className="text-cyan-400/60 text-[10px] md:text-xs font-mono mt-3 tracking-wider">
                             [ ARROWS / SWIPE TO MOVE ]
@@ -447,10 +1118,36 @@ export const HUD: React.FC = () => {
                             <div className="flex items-center text-purple-400 text-sm md:text-base"><MapPin className="mr-2 w-4 h-4 md:w-5 md:h-5"/> DISTANCE</div>
                             <div className="text-xl md:text-2xl font-bold font-mono">{Math.floor(distance)} LY</div>
                         </div>
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs md:text-sm font-mono">
+                            <div className="bg-gray-900/80 p-2 rounded-lg border border-gray-700">
+                                <div className="text-green-400">JUMP PADS</div>
+                                <div className="text-lg font-bold">{stats.jumpPadsUsed}</div>
+                            </div>
+                            <div className="bg-gray-900/80 p-2 rounded-lg border border-gray-700">
+                                <div className="text-orange-400">BOOSTS</div>
+                                <div className="text-lg font-bold">{stats.speedBoostsCollected}</div>
+                            </div>
+                            <div className="bg-gray-900/80 p-2 rounded-lg border border-gray-700">
+                                <div className="text-red-400">SMASHED</div>
+                                <div className="text-lg font-bold">{stats.obstaclesSmashed}</div>
+                            </div>
+                            <div className="bg-gray-900/80 p-2 rounded-lg border border-gray-700">
+                                <div className="text-pink-400">MAX COMBO</div>
+                                <div className="text-lg font-bold">{stats.maxCombo}</div>
+                            </div>
+                            <div className="bg-gray-900/80 p-2 rounded-lg border border-gray-700">
+                                <div className="text-cyan-400">CLOSE CALLS</div>
+                                <div className="text-lg font-bold">{stats.nearMisses}</div>
+                            </div>
+                        </div>
                         <div className="bg-gray-800/50 p-3 md:p-4 rounded-lg flex items-center justify-between mt-2">
                             <div className="flex items-center text-white text-sm md:text-base">TOTAL SCORE</div>
                             <div className="text-2xl md:text-3xl font-bold font-cyber text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-orange-500">{score.toLocaleString()}</div>
                         </div>
+                        <div className="text-xs text-gray-500 font-mono tracking-wider select-text">
+                            {runMode === 'daily' && <span className="text-yellow-500 mr-2">{isRankedRun ? 'DAILY RUN' : 'DAILY PRACTICE'}</span>}
+                            RUN SEED: <span className="text-gray-300">{seed}</span>
+                        </div>
                     </div>
                 )}
 
@@ -467,14 +1164,14 @@ export const HUD: React.FC = () => {
                 {/* Leaderboard Display (Only if not entering score) */}
                 {!showEntry && (
                     <div className="w-full flex justify-center mb-8">
-                         <LeaderboardTable entries={leaderboard} />
+                         {runBoard}
                     </div>
                 )}
 
                 {/* Restart Button */}
                 {!showEntry && (
                     <button 
-                    onClick={() => { audio.init(); restartGame(); }}
+                    onClick={playAgain}
                     className="px-8 md:px-10 py-3 md:py-4 bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_20px_rgba(0,255,255,0.4)]"
                     >
                         RUN AGAIN
@@ -533,13 +1230,13 @@ export const HUD: React.FC = () => {
                  {/* Leaderboard Display (Only if not entering score) */}
                 {!showEntry && (
                     <div className="w-full flex justify-center mb-8">
-                         <LeaderboardTable entries={leaderboard} />
+                         {runBoard}
                     </div>
                 )}
 
                 {!showEntry && (
                     <button 
-                    onClick={() => { audio.init(); restartGame(); }}
+                    onClick={playAgain}
                     className="px-8 md:px-12 py-4 md:py-5 bg-white text-black font-black text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_40px_rgba(255,255,255,0.3)] tracking-widest"
                     >
                         RESTART MISSION
@@ -555,21 +1252,34 @@ export const HUD: React.FC = () => {
         {/* Active Powerups */}
         <ActivePowerups />
 
+        <NearMissFlash />
+
+        {/* Boss Health */}
+        <BossBar />
+
         {/* Top Bar */}
         <div className="flex justify-between items-start w-full">
             <div className="flex flex-col">
                 <div className="text-3xl md:text-5xl font-bold text-cyan-400 drop-shadow-[0_0_10px_#00ffff] font-cyber">
                     {score.toLocaleString()}
                 </div>
+                <ComboMeter />
             </div>
             
-            <div className="flex space-x-1 md:space-x-2">
+            <div className="flex items-start space-x-1 md:space-x-2">
                 {[...Array(maxLives)].map((_, i) => (
                     <Heart 
                         key={i} 
                         className={`w-6 h-6 md:w-8 md:h-8 ${i < lives ? 'text-pink-500 fill-pink-500' : 'text-gray-800 fill-gray-800'} drop-shadow-[0_0_5px_#ff0054]`} 
                     />
                 ))}
+                <button
+                    onClick={pauseGame}
+                    aria-label="Pause"
+                    className="pointer-events-auto ml-2 md:ml-4 p-1 md:p-1.5 rounded-full bg-black/50 border border-cyan-500/30 text-cyan-400 hover:border-cyan-400 backdrop-blur-sm"
+                >
+                    <Pause className="w-4 h-4 md:w-5 md:h-5" />
+                </button>
             </div>
         </div>
         
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import type { GamepadInput } from '../System/Gamepad';
+
+// Moves focus between the HUD's buttons with a controller. Only the topmost
+// overlay (marked data-gamepad-modal) is navigable while one is open, and the
+// control marked data-gamepad-back inside it is what B presses.
+
+const FOCUS_CLASS = 'gamepad-focus';
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled])';
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+
+const DIRECTIONS: Record<Direction, [number, number]> = {
+  up: [0, -1],
+  down: [0, 1],
+  left: [-1, 0],
+  right: [1, 0],
+};
+
+const getScope = (): ParentNode => {
+  const modals = document.querySelectorAll('[data-gamepad-modal]');
+  return modals.length > 0 ? modals[modals.length - 1] : document;
+};
+
+const getFocusable = (): HTMLElement[] =>
+  Array.from(getScope().querySelectorAll<HTMLElement>(FOCUSABLE))
+    .filter(element => element.getClientRects().length > 0);
+
+const getFocused = (candidates: HTMLElement[]): HTMLElement | null => {
+  const active = document.activeElement as HTMLElement | null;
+  return active && candidates.includes(active) ? active : null;
+};
+
+const setFocus = (element: HTMLElement) => {
+  document.querySelectorAll(`.${FOCUS_CLASS}`).forEach(other => other.classList.remove(FOCUS_CLASS));
+  element.classList.add(FOCUS_CLASS);
+  element.focus();
+};
+
+const center = (element: HTMLElement) => {
+  const rect = element.getBoundingClientRect();
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+};
+
+// Nearest control in `direction`, favouring ones in line with the current one
+const findNeighbour = (from: HTMLElement, candidates: HTMLElement[], direction: Direction): HTMLElement | null => {
+  const [dx, dy] = DIRECTIONS[direction];
+  const origin = center(from);
+  let best: HTMLElement | null = null;
+  let bestScore = Infinity;
+
+  for (const candidate of candidates) {
+    if (candidate === from) continue;
+    const point = center(candidate);
+    const along = (point.x - origin.x) * dx + (point.y - origin.y) * dy;
+    if (along <= 1) continue;
+    const across = Math.abs((point.x - origin.x) * dy + (point.y - origin.y) * dx);
+    const score = along + across * 2;
+    if (score < bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+  return best;
+};
+
+// Focuses the first control on screen, e.g. when a new screen opens
+export const focusFirst = () => {
+  const [first] = getFocusable();
+  if (first) setFocus(first);
+};
+
+// Handles a controller press while a menu is showing
+export const navigate = (input: GamepadInput) => {
+  const candidates = getFocusable();
+  const focused = getFocused(candidates);
+
+  if (input === 'b') {
+    const back = getScope().querySelector<HTMLElement>('[data-gamepad-back]');
+    back?.click();
+    return;
+  }
+  if (!focused) {
+    if (candidates.length > 0) setFocus(candidates[0]);
+    return;
+  }
+  if (input === 'a') {
+    focused.click();
+    return;
+  }
+  if (input in DIRECTIONS) {
+    const next = findNeighbour(focused, candidates, input as Direction);
+    if (next) setFocus(next);
+  }
+};
+
+// The highlight is for controller users only; pointing at something hides it
+if (typeof document !== 'undefined') {
+  document.addEventListener('pointerdown', () => {
+    document.querySelectorAll(`.${FOCUS_CLASS}`).forEach(element => element.classList.remove(FOCUS_CLASS));
+  });
+}
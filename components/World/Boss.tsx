@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../../store';
+import { GameStatus } from '../../types';
+import { runController } from '../System/RunController';
+
+// Static Geometries
+const HULL_GEO = new THREE.CylinderGeometry(5, 6.5, 1.2, 24);
+const RIM_GEO = new THREE.TorusGeometry(6.3, 0.25, 8, 48);
+const DOME_GEO = new THREE.SphereGeometry(2.2, 24, 12, 0, Math.PI * 2, 0, Math.PI / 2);
+const CORE_GEO = new THREE.OctahedronGeometry(0.5, 0);
+const CANNON_GEO = new THREE.CylinderGeometry(0.2, 0.3, 1.2, 8);
+
+// Mothership boss. Position comes from the simulation; the weak point lights
+// under the hull go dark as they are hit.
+export const Boss: React.FC = () => {
+  const groupRef = useRef<THREE.Group>(null);
+  const rimRef = useRef<THREE.Mesh>(null);
+  const { boss } = useStore();
+
+  useFrame((state, delta) => {
+    const position = runController.getBossPosition();
+    if (!groupRef.current || !position || runController.state!.status === GameStatus.PAUSED) return;
+
+    const [x, y, z] = position;
+    groupRef.current.position.set(x, y + Math.sin(state.clock.elapsedTime * 1.5) * 0.3, z);
+    // Bank into its drift
+    groupRef.current.rotation.z = THREE.MathUtils.lerp(groupRef.current.rotation.z, (runController.getPlayerPosition()[0] - x) * -0.05, delta * 2);
+    if (rimRef.current) rimRef.current.rotation.z += delta * 2;
+  });
+
+  if (!boss || boss.health <= 0) return null;
+
+  return (
+    <group ref={groupRef} position={boss.position}>
+      <mesh geometry={HULL_GEO}>
+        <meshStandardMaterial color="#1a1a2e" metalness={0.9} roughness={0.3} />
+      </mesh>
+      <mesh ref={rimRef} rotation={[Math.PI / 2, 0, 0]} geometry={RIM_GEO}>
+        <meshBasicMaterial color="#ff00ff" wireframe />
+      </mesh>
+      <mesh position={[0, 0.6, 0]} geometry={DOME_GEO}>
+        <meshStandardMaterial color="#00ffff" transparent opacity={0.4} metalness={0.5} roughness={0.1} emissive="#004455" />
+      </mesh>
+
+      {/* Weak point lights, one per remaining hit */}
+      {Array.from({ length: boss.maxHealth }, (_, i) => {
+        const angle = (i / boss.maxHealth) * Math.PI * 2;
+        const isIntact = i < boss.health;
+        return (
+          <mesh key={i} position={[Math.cos(angle) * 3.5, -0.8, Math.sin(angle) * 3.5]} geometry={CORE_GEO}>
+            <meshBasicMaterial color={isIntact ? '#ffee00' : '#333333'} />
+          </mesh>
+        );
+      })}
+
+      {/* Cannons facing the player */}
+      {[-3, 0, 3].map(offset => (
+        <mesh key={offset} position={[offset, -0.9, 4.5]} rotation={[Math.PI / 2, 0, 0]} geometry={CANNON_GEO}>
+          <meshStandardMaterial color="#444444" metalness={0.8} roughness={0.2} />
+        </mesh>
+      ))}
+
+      <pointLight color="#ff00ff" distance={30} intensity={4} position={[0, -2, 0]} />
+    </group>
+  );
+};
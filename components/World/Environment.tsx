@@ -8,10 +8,11 @@ import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useStore } from '../../store';
-import { LANE_WIDTH } from '../../types';
+import { GameStatus, LANE_WIDTH } from '../../types';
 
 const StarField: React.FC = () => {
   const speed = useStore(state => state.speed);
+  const isPaused = useStore(state => state.status === GameStatus.PAUSED);
   const count = 3000; // Increased star count for better density
   const meshRef = useRef<THREE.Points>(null);
   
@@ -39,7 +40,7 @@ const StarField: React.FC = () => {
   }, []);
 
   useFrame((state, delta) => {
-    if (!meshRef.current) return;
+    if (!meshRef.current || isPaused) return;
     
     const positions = meshRef.current.geometry.attributes.position.array as Float32Array;
     const activeSpeed = speed > 0 ? speed : 2; // Always move slightly even when stopped
@@ -201,11 +202,12 @@ const RetroSun: React.FC = () => {
 
 const MovingGrid: React.FC = () => {
     const speed = useStore(state => state.speed);
+    const isPaused = useStore(state => state.status === GameStatus.PAUSED);
     const meshRef = useRef<THREE.Mesh>(null);
     const offsetRef = useRef(0);
     
     useFrame((state, delta) => {
-        if (meshRef.current) {
+        if (meshRef.current && !isPaused) {
              const activeSpeed = speed > 0 ? speed : 5;
              offsetRef.current += activeSpeed * delta;
              
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Bounds, ObjectBehavior, getObjectBounds, getObjectHitbox, getObjectRule, getPlayerBounds, isSliding } from '../../simulation';
+import { runController } from '../System/RunController';
+import { isDebugEnabled } from '../System/debug';
+
+const MAX_BOXES = 300;
+const BOX_GEO = new THREE.BoxGeometry(1, 1, 1);
+
+const PLAYER_COLOR = new THREE.Color('#00ccff');
+const BEHAVIOR_COLORS: Record<ObjectBehavior, THREE.Color> = {
+  damage: new THREE.Color('#ff2222'),
+  pickup: new THREE.Color('#00ff66'),
+  trigger: new THREE.Color('#ffcc00'),
+};
+
+// Draws the boxes the collision check uses, as wireframes: the player in cyan,
+// damage sources red, pickups green and triggers such as the shop portal
+// yellow. Enable with ?debug=hitboxes.
+const HitboxWireframes: React.FC = () => {
+  const mesh = useRef<THREE.InstancedMesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+
+  useFrame(() => {
+    const run = runController.state;
+    if (!mesh.current || !run) return;
+    let count = 0;
+
+    const addBox = (bounds: Bounds, color: THREE.Color) => {
+      if (count >= MAX_BOXES) return;
+      dummy.position.set(
+        (bounds.min[0] + bounds.max[0]) / 2,
+        (bounds.min[1] + bounds.max[1]) / 2,
+        (bounds.min[2] + bounds.max[2]) / 2
+      );
+      dummy.scale.set(bounds.max[0] - bounds.min[0], bounds.max[1] - bounds.min[1], bounds.max[2] - bounds.min[2]);
+      dummy.updateMatrix();
+      mesh.current!.setMatrixAt(count, dummy.matrix);
+      mesh.current!.setColorAt(count, color);
+      count++;
+    };
+
+    addBox(getPlayerBounds(run.player.x, run.player.y, isSliding(run)), PLAYER_COLOR);
+    for (const obj of run.objects) {
+      const { behavior } = getObjectRule(obj.type);
+      const hitbox = getObjectHitbox(obj);
+      if (!obj.active || !behavior || !hitbox) continue;
+      addBox(getObjectBounds(hitbox, obj.position), BEHAVIOR_COLORS[behavior]);
+    }
+
+    mesh.current.count = count;
+    mesh.current.instanceMatrix.needsUpdate = true;
+    if (mesh.current.instanceColor) mesh.current.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh ref={mesh} args={[BOX_GEO, undefined, MAX_BOXES]} frustumCulled={false}>
+      <meshBasicMaterial wireframe toneMapped={false} />
+    </instancedMesh>
+  );
+};
+
+export const HitboxDebug: React.FC = () => isDebugEnabled('hitboxes') ? <HitboxWireframes /> : null;
@@ -10,11 +10,11 @@ import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useStore } from '../../store';
 import { LANE_WIDTH, GameStatus } from '../../types';
-import { audio } from '../System/Audio';
-
-// Physics Constants
-const GRAVITY = 50;
-const JUMP_FORCE = 16; 
+import { isSliding, isInvincible, getTimeRemaining } from '../../simulation';
+import { getEquipped } from '../../cosmetics';
+import { runController } from '../System/RunController';
+import { input } from '../System/Input';
+import { JetpackTrail, LandingEffect } from './PlayerCosmetics';
 
 // Static Geometries
 const TORSO_GEO = new THREE.CylinderGeometry(0.25, 0.15, 0.6, 4);
@@ -31,6 +31,13 @@ const SHADOW_GEO = new THREE.CircleGeometry(0.5, 32);
 const SHIELD_SPHERE_GEO = new THREE.SphereGeometry(1.2, 32, 32);
 const MAGNET_RING_GEO = new THREE.TorusGeometry(1.0, 0.05, 8, 32);
 
+// Powerup effects blink for their last seconds so the player sees them ending
+const EXPIRY_WARNING = 1.5;
+const isBlinkedOut = (remaining: number) => remaining < EXPIRY_WARNING && Math.floor(remaining * 8) % 2 === 1;
+
+// How strongly a skin's glow colour tints its armour
+const SKIN_EMISSIVE = 0.15;
+
 export const Player: React.FC = () => {
   const groupRef = useRef<THREE.Group>(null);
   const bodyRef = useRef<THREE.Group>(null);
@@ -47,31 +54,31 @@ export const Player: React.FC = () => {
   const rightLegRef = useRef<THREE.Group>(null);
   const headRef = useRef<THREE.Group>(null);
 
-  const { status, laneCount, takeDamage, hasDoubleJump, activateImmortality, isImmortalityActive, shieldEndTime, magnetEndTime } = useStore();
+  const { status, isImmortalityActive, userData } = useStore();
+  const equipped = userData?.cosmetics?.equipped;
+  const skin = getEquipped(equipped, 'skin');
+  const trail = getEquipped(equipped, 'trail');
+  const landing = getEquipped(equipped, 'landing');
   
-  const [lane, setLane] = React.useState(0);
-  const targetX = useRef(0);
-  
-  // Physics State (using Refs for immediate logic updates)
-  const isJumping = useRef(false);
-  const velocityY = useRef(0);
-  const jumpsPerformed = useRef(0); 
+  // Position and jump physics come from the simulation; only visuals live here
   const spinRotation = useRef(0); // For double jump flip
-
-  const touchStartX = useRef(0);
-  const touchStartY = useRef(0);
-
-  const isInvincible = useRef(false);
-  const lastDamageTime = useRef(0);
+  const prevJumps = useRef(0);
 
   // Memoized Materials
   const { armorMaterial, jointMaterial, glowMaterial, shadowMaterial, shieldMaterial, magnetMaterial } = useMemo(() => {
-      const armorColor = isImmortalityActive ? '#ffd700' : '#00aaff';
-      const glowColor = isImmortalityActive ? '#ffffff' : '#00ffff';
+      // Immortality turns any skin gold
+      const armorColor = isImmortalityActive ? '#ffd700' : skin.armor;
+      const glowColor = isImmortalityActive ? '#ffffff' : skin.glow;
       
       return {
-          armorMaterial: new THREE.MeshStandardMaterial({ color: armorColor, roughness: 0.3, metalness: 0.8 }),
-          jointMaterial: new THREE.MeshStandardMaterial({ color: '#111111', roughness: 0.7, metalness: 0.5 }),
+          armorMaterial: new THREE.MeshStandardMaterial({
+              color: armorColor,
+              roughness: 0.3,
+              metalness: 0.8,
+              emissive: glowColor,
+              emissiveIntensity: isImmortalityActive ? 0 : SKIN_EMISSIVE,
+          }),
+          jointMaterial: new THREE.MeshStandardMaterial({ color: skin.joint, roughness: 0.7, metalness: 0.5 }),
           glowMaterial: new THREE.MeshBasicMaterial({ color: glowColor }),
           shadowMaterial: new THREE.MeshBasicMaterial({ color: '#000000', opacity: 0.3, transparent: true }),
           // Fresnel-like material for shield
@@ -87,132 +94,65 @@ export const Player: React.FC = () => {
           }),
           magnetMaterial: new THREE.MeshBasicMaterial({ color: '#d000ff' })
       };
-  }, [isImmortalityActive]); 
+  }, [isImmortalityActive, skin]); 
 
   // --- Reset State on Game Start ---
+  const prevStatus = useRef(status);
   useEffect(() => {
-      if (status === GameStatus.PLAYING) {
-          isJumping.current = false;
-          jumpsPerformed.current = 0;
-          velocityY.current = 0;
+      const isResuming = prevStatus.current === GameStatus.PAUSED;
+      prevStatus.current = status;
+      if (status === GameStatus.PLAYING && !isResuming) {
           spinRotation.current = 0;
-          if (groupRef.current) groupRef.current.position.y = 0;
+          prevJumps.current = 0;
           if (bodyRef.current) bodyRef.current.rotation.x = 0;
       }
   }, [status]);
-  
-  useEffect(() => {
-      const maxLane = Math.floor(laneCount / 2);
-      if (Math.abs(lane) > maxLane) {
-          setLane(l => Math.max(Math.min(l, maxLane), -maxLane));
-      }
-  }, [laneCount, lane]);
-
-  // --- Controls (Keyboard & Touch) ---
-  const triggerJump = () => {
-    const maxJumps = hasDoubleJump ? 2 : 1;
-
-    if (!isJumping.current) {
-        audio.playJump(false);
-        isJumping.current = true;
-        jumpsPerformed.current = 1;
-        velocityY.current = JUMP_FORCE;
-    } else if (jumpsPerformed.current < maxJumps) {
-        audio.playJump(true);
-        jumpsPerformed.current += 1;
-        velocityY.current = JUMP_FORCE; 
-        spinRotation.current = 0; 
-    }
-  };
 
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (status !== GameStatus.PLAYING) return;
-      const maxLane = Math.floor(laneCount / 2);
-
-      if (e.key === 'ArrowLeft') setLane(l => Math.max(l - 1, -maxLane));
-      else if (e.key === 'ArrowRight') setLane(l => Math.min(l + 1, maxLane));
-      else if (e.key === 'ArrowUp' || e.key === 'w') triggerJump();
-      else if (e.key === ' ' || e.key === 'Enter') {
-          activateImmortality();
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [status, laneCount, hasDoubleJump, activateImmortality]);
-
-  useEffect(() => {
-    const handleTouchStart = (e: TouchEvent) => {
-      touchStartX.current = e.touches[0].clientX;
-      touchStartY.current = e.touches[0].clientY;
-    };
-
-    const handleTouchEnd = (e: TouchEvent) => {
-        if (status !== GameStatus.PLAYING) return;
-        const deltaX = e.changedTouches[0].clientX - touchStartX.current;
-        const deltaY = e.changedTouches[0].clientY - touchStartY.current;
-        const maxLane = Math.floor(laneCount / 2);
-
-        if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > 30) {
-             if (deltaX > 0) setLane(l => Math.min(l + 1, maxLane));
-             else setLane(l => Math.max(l - 1, -maxLane));
-        } else if (Math.abs(deltaY) > Math.abs(deltaX) && deltaY < -30) {
-            triggerJump();
-        } else if (Math.abs(deltaX) < 10 && Math.abs(deltaY) < 10) {
-            activateImmortality();
-        }
-    };
-
-    window.addEventListener('touchstart', handleTouchStart);
-    window.addEventListener('touchend', handleTouchEnd);
-    return () => {
-        window.removeEventListener('touchstart', handleTouchStart);
-        window.removeEventListener('touchend', handleTouchEnd);
-    };
-  }, [status, laneCount, hasDoubleJump, activateImmortality]);
+  // --- Controls (bound through the input layer; Pause is the HUD's) ---
+  useEffect(() => input.subscribe(action => {
+    if (status !== GameStatus.PLAYING || action === 'PAUSE') return;
+    runController.queueInput(action);
+  }), [status]);
 
   // --- Animation Loop ---
   useFrame((state, delta) => {
     if (!groupRef.current) return;
     if (status !== GameStatus.PLAYING && status !== GameStatus.SHOP) return;
-
-    // 1. Horizontal Position
-    targetX.current = lane * LANE_WIDTH;
-    groupRef.current.position.x = THREE.MathUtils.lerp(
-        groupRef.current.position.x, 
-        targetX.current, 
-        delta * 15 
-    );
-
-    // 2. Physics (Jump)
-    if (isJumping.current) {
-        groupRef.current.position.y += velocityY.current * delta;
-        velocityY.current -= GRAVITY * delta;
-
-        if (groupRef.current.position.y <= 0) {
-            groupRef.current.position.y = 0;
-            isJumping.current = false;
-            jumpsPerformed.current = 0;
-            velocityY.current = 0;
-            if (bodyRef.current) bodyRef.current.rotation.x = 0;
-        }
-
-        if (jumpsPerformed.current === 2 && bodyRef.current) {
-             spinRotation.current -= delta * 15;
-             if (spinRotation.current < -Math.PI * 2) spinRotation.current = -Math.PI * 2;
-             bodyRef.current.rotation.x = spinRotation.current;
-        }
+    const run = runController.state;
+    if (!run) return;
+    const player = run.player;
+    const isJumping = player.isJumping || player.isFalling; // Airborne pose either way
+    const isCrouching = isSliding(run);
+
+    // 1. Position (simulated, blended between steps)
+    const [x, y] = runController.getPlayerPosition();
+    groupRef.current.position.x = x;
+    groupRef.current.position.y = y;
+
+    // 2. Double jump flip
+    if (player.jumpsPerformed === 2 && prevJumps.current !== 2) spinRotation.current = 0;
+    prevJumps.current = player.jumpsPerformed;
+
+    if (isCrouching) {
+        // Lean back into the slide
+        if (bodyRef.current) bodyRef.current.rotation.x = THREE.MathUtils.lerp(bodyRef.current.rotation.x, 0.8, delta * 20);
+    } else if (!isJumping) {
+        if (bodyRef.current) bodyRef.current.rotation.x = 0;
+    } else if (player.jumpsPerformed === 2 && bodyRef.current) {
+         spinRotation.current -= delta * 15;
+         if (spinRotation.current < -Math.PI * 2) spinRotation.current = -Math.PI * 2;
+         bodyRef.current.rotation.x = spinRotation.current;
     }
 
     // Banking Rotation
-    const xDiff = targetX.current - groupRef.current.position.x;
+    const xDiff = player.lane * LANE_WIDTH - x;
     groupRef.current.rotation.z = -xDiff * 0.2; 
-    groupRef.current.rotation.x = isJumping.current ? 0.1 : 0.05; 
+    groupRef.current.rotation.x = isJumping ? 0.1 : 0.05; 
 
     // 3. Effects Animation
     // Shield
-    const isShieldActive = Date.now() < shieldEndTime || isImmortalityActive;
+    const shieldLeft = getTimeRemaining(run.clock, 'shield');
+    const isShieldActive = isImmortalityActive || (shieldLeft > 0 && !isBlinkedOut(shieldLeft));
     if (shieldMeshRef.current) {
         shieldMeshRef.current.visible = isShieldActive;
         if (isShieldActive) {
@@ -222,7 +162,8 @@ export const Player: React.FC = () => {
     }
 
     // Magnet
-    const isMagnetActive = Date.now() < magnetEndTime;
+    const magnetLeft = getTimeRemaining(run.clock, 'magnet');
+    const isMagnetActive = magnetLeft > 0 && !isBlinkedOut(magnetLeft);
     if (magnetMeshRef.current) {
         magnetMeshRef.current.visible = isMagnetActive;
         if (isMagnetActive) {
@@ -233,10 +174,30 @@ export const Player: React.FC = () => {
     }
 
 
+    // Skin emissive pattern (immortality's gold stays steady)
+    if (!isImmortalityActive && skin.pattern !== 'steady') {
+        const t = state.clock.elapsedTime;
+        if (skin.pattern === 'pulse') {
+            armorMaterial.emissiveIntensity = SKIN_EMISSIVE * (1 + Math.sin(t * 4));
+        } else {
+            glowMaterial.color.setHSL((t * 0.5) % 1, 1, 0.6);
+            armorMaterial.emissive.copy(glowMaterial.color);
+        }
+    }
+
     // 4. Skeletal Animation
     const time = state.clock.elapsedTime * 25; 
     
-    if (!isJumping.current) {
+    if (isCrouching) {
+        // Slide Pose: low, legs out front, arms back for balance
+        const slidePoseSpeed = delta * 20;
+        if (leftArmRef.current) leftArmRef.current.rotation.x = THREE.MathUtils.lerp(leftArmRef.current.rotation.x, 0.6, slidePoseSpeed);
+        if (rightArmRef.current) rightArmRef.current.rotation.x = THREE.MathUtils.lerp(rightArmRef.current.rotation.x, 0.6, slidePoseSpeed);
+        if (leftLegRef.current) leftLegRef.current.rotation.x = THREE.MathUtils.lerp(leftLegRef.current.rotation.x, 0.7, slidePoseSpeed);
+        if (rightLegRef.current) rightLegRef.current.rotation.x = THREE.MathUtils.lerp(rightLegRef.current.rotation.x, 0.5, slidePoseSpeed);
+
+        if (bodyRef.current) bodyRef.current.position.y = THREE.MathUtils.lerp(bodyRef.current.position.y, 0.55, slidePoseSpeed);
+    } else if (!isJumping) {
         // Running Cycle
         if (leftArmRef.current) leftArmRef.current.rotation.x = Math.sin(time) * 0.7;
         if (rightArmRef.current) rightArmRef.current.rotation.x = Math.sin(time + Math.PI) * 0.7;
@@ -252,14 +213,15 @@ export const Player: React.FC = () => {
         if (leftLegRef.current) leftLegRef.current.rotation.x = THREE.MathUtils.lerp(leftLegRef.current.rotation.x, 0.5, jumpPoseSpeed);
         if (rightLegRef.current) rightLegRef.current.rotation.x = THREE.MathUtils.lerp(rightLegRef.current.rotation.x, -0.5, jumpPoseSpeed);
         
-        if (bodyRef.current && jumpsPerformed.current !== 2) bodyRef.current.position.y = 1.1; 
+        if (bodyRef.current && player.jumpsPerformed !== 2) bodyRef.current.position.y = 1.1; 
     }
 
-    // 5. Dynamic Shadow
+    // 5. Dynamic Shadow (none while dropping into a gap)
     if (shadowRef.current) {
+        shadowRef.current.visible = !player.isFalling;
         const height = groupRef.current.position.y;
         const scale = Math.max(0.2, 1 - (height / 2.5) * 0.5); 
-        const runStretch = isJumping.current ? 1 : 1 + Math.abs(Math.sin(time)) * 0.3;
+        const runStretch = isJumping ? 1 : 1 + Math.abs(Math.sin(time)) * 0.3;
 
         shadowRef.current.scale.set(scale, scale, scale * runStretch);
         const material = shadowRef.current.material as THREE.MeshBasicMaterial;
@@ -268,85 +230,64 @@ export const Player: React.FC = () => {
         }
     }
 
-    // Invincibility Effect
-    const showFlicker = isInvincible.current;
-    if (showFlicker) {
-         if (Date.now() - lastDamageTime.current > 1500) {
-            isInvincible.current = false;
-            groupRef.current.visible = true;
-         } else {
-            groupRef.current.visible = Math.floor(Date.now() / 50) % 2 === 0;
-         }
-    } else {
-        groupRef.current.visible = true;
-    }
+    // Invincibility Effect (post-hit grace period)
+    const showFlicker = isInvincible(run);
+    groupRef.current.visible = showFlicker ? Math.floor(run.clock.time * 20) % 2 === 0 : true;
   });
 
-  // Damage Handler
-  useEffect(() => {
-     const checkHit = (e: any) => {
-        const { isImmortalityActive, shieldEndTime } = useStore.getState();
-        // Ignore damage if Shield or Skill active
-        if (isInvincible.current || isImmortalityActive || Date.now() < shieldEndTime) return;
-        
-        audio.playDamage(); 
-        takeDamage();
-        isInvincible.current = true;
-        lastDamageTime.current = Date.now();
-     };
-     window.addEventListener('player-hit', checkHit);
-     return () => window.removeEventListener('player-hit', checkHit);
-  }, [takeDamage]);
-
   return (
-    <group ref={groupRef} position={[0, 0, 0]}>
-      {/* SHIELD EFFECT */}
-      <mesh ref={shieldMeshRef} position={[0, 1.0, 0]} geometry={SHIELD_SPHERE_GEO} material={shieldMaterial} visible={false} />
+    <>
+      <JetpackTrail trail={trail} />
+      <LandingEffect landing={landing} />
+      <group ref={groupRef} position={[0, 0, 0]}>
+        {/* SHIELD EFFECT */}
+        <mesh ref={shieldMeshRef} position={[0, 1.0, 0]} geometry={SHIELD_SPHERE_GEO} material={shieldMaterial} visible={false} />
       
-      {/* MAGNET EFFECT */}
-      <group ref={magnetMeshRef} position={[0, 0.5, 0]} visible={false}>
-          <mesh rotation={[Math.PI/2, 0, 0]} geometry={MAGNET_RING_GEO} material={magnetMaterial} />
-      </group>
-
-      <group ref={bodyRef} position={[0, 1.1, 0]}> 
-        <mesh castShadow position={[0, 0.2, 0]} geometry={TORSO_GEO} material={armorMaterial} />
-
-        <mesh position={[0, 0.2, -0.2]} geometry={JETPACK_GEO} material={jointMaterial} />
-        <mesh position={[-0.08, 0.1, -0.28]} geometry={GLOW_STRIP_GEO} material={glowMaterial} />
-        <mesh position={[0.08, 0.1, -0.28]} geometry={GLOW_STRIP_GEO} material={glowMaterial} />
-
-        <group ref={headRef} position={[0, 0.6, 0]}>
-            <mesh castShadow geometry={HEAD_GEO} material={armorMaterial} />
-        </group>
-
-        <group position={[0.32, 0.4, 0]}>
-            <group ref={rightArmRef}>
-                <mesh position={[0, -0.25, 0]} castShadow geometry={ARM_GEO} material={armorMaterial} />
-                <mesh position={[0, -0.55, 0]} geometry={JOINT_SPHERE_GEO} material={glowMaterial} />
-            </group>
+        {/* MAGNET EFFECT */}
+        <group ref={magnetMeshRef} position={[0, 0.5, 0]} visible={false}>
+            <mesh rotation={[Math.PI/2, 0, 0]} geometry={MAGNET_RING_GEO} material={magnetMaterial} />
         </group>
-        <group position={[-0.32, 0.4, 0]}>
-            <group ref={leftArmRef}>
-                 <mesh position={[0, -0.25, 0]} castShadow geometry={ARM_GEO} material={armorMaterial} />
-                 <mesh position={[0, -0.55, 0]} geometry={JOINT_SPHERE_GEO} material={glowMaterial} />
-            </group>
-        </group>
-
-        <mesh position={[0, -0.15, 0]} geometry={HIPS_GEO} material={jointMaterial} />
 
-        <group position={[0.12, -0.25, 0]}>
-            <group ref={rightLegRef}>
-                 <mesh position={[0, -0.35, 0]} castShadow geometry={LEG_GEO} material={armorMaterial} />
-            </group>
-        </group>
-        <group position={[-0.12, -0.25, 0]}>
-            <group ref={leftLegRef}>
-                 <mesh position={[0, -0.35, 0]} castShadow geometry={LEG_GEO} material={armorMaterial} />
-            </group>
+        <group ref={bodyRef} position={[0, 1.1, 0]}> 
+          <mesh castShadow position={[0, 0.2, 0]} geometry={TORSO_GEO} material={armorMaterial} />
+
+          <mesh position={[0, 0.2, -0.2]} geometry={JETPACK_GEO} material={jointMaterial} />
+          <mesh position={[-0.08, 0.1, -0.28]} geometry={GLOW_STRIP_GEO} material={glowMaterial} />
+          <mesh position={[0.08, 0.1, -0.28]} geometry={GLOW_STRIP_GEO} material={glowMaterial} />
+
+          <group ref={headRef} position={[0, 0.6, 0]}>
+              <mesh castShadow geometry={HEAD_GEO} material={armorMaterial} />
+          </group>
+
+          <group position={[0.32, 0.4, 0]}>
+              <group ref={rightArmRef}>
+                  <mesh position={[0, -0.25, 0]} castShadow geometry={ARM_GEO} material={armorMaterial} />
+                  <mesh position={[0, -0.55, 0]} geometry={JOINT_SPHERE_GEO} material={glowMaterial} />
+              </group>
+          </group>
+          <group position={[-0.32, 0.4, 0]}>
+              <group ref={leftArmRef}>
+                   <mesh position={[0, -0.25, 0]} castShadow geometry={ARM_GEO} material={armorMaterial} />
+                   <mesh position={[0, -0.55, 0]} geometry={JOINT_SPHERE_GEO} material={glowMaterial} />
+              </group>
+          </group>
+
+          <mesh position={[0, -0.15, 0]} geometry={HIPS_GEO} material={jointMaterial} />
+
+          <group position={[0.12, -0.25, 0]}>
+              <group ref={rightLegRef}>
+                   <mesh position={[0, -0.35, 0]} castShadow geometry={LEG_GEO} material={armorMaterial} />
+              </group>
+          </group>
+          <group position={[-0.12, -0.25, 0]}>
+              <group ref={leftLegRef}>
+                   <mesh position={[0, -0.35, 0]} castShadow geometry={LEG_GEO} material={armorMaterial} />
+              </group>
+          </group>
         </group>
-      </group>
       
-      <mesh ref={shadowRef} position={[0, 0.02, 0]} rotation={[-Math.PI/2, 0, 0]} geometry={SHADOW_GEO} material={shadowMaterial} />
-    </group>
+        <mesh ref={shadowRef} position={[0, 0.02, 0]} rotation={[-Math.PI/2, 0, 0]} geometry={SHADOW_GEO} material={shadowMaterial} />
+      </group>
+    </>
   );
 };
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../../store';
+import { GameStatus } from '../../types';
+import { getCurrentSpeed } from '../../simulation';
+import { LandingCosmetic, RAINBOW, TrailCosmetic } from '../../cosmetics';
+import { runController } from '../System/RunController';
+
+// Equipped trail and landing effects. Both live in world space beside the
+// player so what they leave behind scrolls away with the track.
+
+const TRAIL_COUNT = 90;
+const TRAIL_LIFE = 0.45; // Seconds
+const TRAIL_RATE = 90; // Particles per second while airborne
+const TRAIL_GROUND_RATE = 25; // Particles per second while running
+const JETPACK_OFFSET = new THREE.Vector3(0, 1.3, -0.3); // Nozzle, relative to the player's feet
+
+const LANDING_RING_GEO = new THREE.RingGeometry(0.7, 0.9, 32);
+const LANDING_RING_DURATION = 0.4; // Seconds
+const LANDING_RING_SCALE = 3;
+
+// Hue for rainbow cosmetics at a given time
+const rainbowColor = (target: THREE.Color, time: number) => target.setHSL((time * 0.5) % 1, 1, 0.6);
+
+export const JetpackTrail: React.FC<{ trail: TrailCosmetic }> = ({ trail }) => {
+    const mesh = useRef<THREE.InstancedMesh>(null);
+    const dummy = useMemo(() => new THREE.Object3D(), []);
+    const spawnCarry = useRef(0);
+    const nextParticle = useRef(0);
+    const { status } = useStore();
+
+    const particles = useMemo(() => new Array(TRAIL_COUNT).fill(0).map(() => ({
+        life: 0,
+        pos: new THREE.Vector3(),
+        color: new THREE.Color(),
+    })), []);
+
+    useFrame((state, delta) => {
+        if (!mesh.current || !trail.color) return;
+        const safeDelta = Math.min(delta, 0.1);
+        const run = runController.state;
+        const isRunning = status === GameStatus.PLAYING && run !== null;
+
+        // Emit from the jetpack, faster while it's firing in the air
+        if (isRunning) {
+            const player = run.player;
+            const isAirborne = player.isJumping || player.isFalling;
+            const [x, y] = runController.getPlayerPosition();
+            spawnCarry.current += safeDelta * (isAirborne ? TRAIL_RATE : TRAIL_GROUND_RATE);
+            while (spawnCarry.current >= 1) {
+                spawnCarry.current -= 1;
+                const p = particles[nextParticle.current];
+                nextParticle.current = (nextParticle.current + 1) % TRAIL_COUNT;
+                p.life = 1;
+                p.pos.set(x, y, 0).add(JETPACK_OFFSET);
+                p.pos.x += (Math.random() - 0.5) * 0.15;
+                if (trail.color === RAINBOW) rainbowColor(p.color, state.clock.elapsedTime);
+                else p.color.set(trail.color);
+            }
+        }
+
+        // Particles are left where they were emitted, so they stream off with the world
+        const drift = isRunning ? getCurrentSpeed(run) : 0;
+        particles.forEach((p, i) => {
+            if (p.life > 0) {
+                p.life -= safeDelta / TRAIL_LIFE;
+                p.pos.z += drift * safeDelta;
+                p.pos.y -= safeDelta * 0.8;
+
+                dummy.position.copy(p.pos);
+                dummy.scale.setScalar(Math.max(0, p.life) * trail.size);
+                dummy.updateMatrix();
+                mesh.current!.setMatrixAt(i, dummy.matrix);
+                mesh.current!.setColorAt(i, p.color);
+            } else {
+                dummy.scale.set(0, 0, 0);
+                dummy.updateMatrix();
+                mesh.current!.setMatrixAt(i, dummy.matrix);
+            }
+        });
+
+        mesh.current.instanceMatrix.needsUpdate = true;
+        if (mesh.current.instanceColor) mesh.current.instanceColor.needsUpdate = true;
+    });
+
+    if (!trail.color) return null;
+
+    return (
+        <instancedMesh ref={mesh} args={[undefined, undefined, TRAIL_COUNT]} frustumCulled={false}>
+            <octahedronGeometry args={[1, 0]} />
+            <meshBasicMaterial toneMapped={false} transparent opacity={0.8} />
+        </instancedMesh>
+    );
+};
+
+export const LandingEffect: React.FC<{ landing: LandingCosmetic }> = ({ landing }) => {
+    const ringRef = useRef<THREE.Mesh>(null);
+    const ringAge = useRef(Infinity);
+    const wasAirborne = useRef(false);
+    const { status } = useStore();
+
+    const ringMaterial = useMemo(() => new THREE.MeshBasicMaterial({
+        color: landing.color,
+        transparent: true,
+        side: THREE.DoubleSide,
+        toneMapped: false,
+    }), [landing.color]);
+
+    useFrame((_, delta) => {
+        const run = runController.state;
+        if (!run || status !== GameStatus.PLAYING) return;
+        const player = run.player;
+
+        // Touching down from a jump; dropping into a gap isn't a landing
+        const isAirborne = player.isJumping || player.isFalling;
+        if (wasAirborne.current && !isAirborne && landing.style) {
+            if (landing.style === 'ring') {
+                ringAge.current = 0;
+                ringRef.current?.position.set(player.x, 0.05, 0);
+            } else {
+                window.dispatchEvent(new CustomEvent('particle-burst', {
+                    detail: { position: [player.x, 0.3, 0], color: landing.color },
+                }));
+            }
+        }
+        wasAirborne.current = isAirborne;
+
+        if (ringRef.current) {
+            ringAge.current += delta;
+            const progress = ringAge.current / LANDING_RING_DURATION;
+            ringRef.current.visible = progress < 1;
+            if (progress < 1) {
+                ringRef.current.scale.setScalar(1 + progress * (LANDING_RING_SCALE - 1));
+                ringMaterial.opacity = 1 - progress;
+            }
+        }
+    });
+
+    if (landing.style !== 'ring') return null;
+
+    return <mesh ref={ringRef} rotation={[-Math.PI / 2, 0, 0]} geometry={LANDING_RING_GEO} material={ringMaterial} visible={false} />;
+};
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { analyzeCorridor, LaneMove, MAX_LANES } from '../../simulation';
+import { LANE_WIDTH } from '../../types';
+import { runController } from '../System/RunController';
+import { isDebugEnabled } from '../System/debug';
+
+const MAX_ROWS = 40;
+const TILE_COUNT = MAX_ROWS * MAX_LANES;
+const TILE_GEO = new THREE.PlaneGeometry(LANE_WIDTH * 0.9, 1.2);
+
+const MOVE_COLORS: Record<LaneMove, THREE.Color> = {
+  free: new THREE.Color('#00ff66'),
+  jump: new THREE.Color('#00ccff'),
+  slide: new THREE.Color('#aa44ff'),
+  blocked: new THREE.Color('#ff2222'),
+};
+const UNREACHABLE_COLOR = new THREE.Color('#552200');
+
+// Draws the fairness check's safe corridor on the track: one tile per lane of
+// every upcoming row, coloured by how it can be passed (green run through,
+// cyan jump, purple slide, red blocked). Open lanes the player cannot get to
+// in time are dark. Enable with ?debug=corridor.
+const CorridorTiles: React.FC = () => {
+  const mesh = useRef<THREE.InstancedMesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+
+  useFrame(() => {
+    const run = runController.state;
+    if (!mesh.current || !run) return;
+
+    const { rows } = analyzeCorridor(run, run.objects);
+    const maxLane = Math.floor(run.laneCount / 2);
+    let count = 0;
+
+    for (const row of rows.slice(0, MAX_ROWS)) {
+      row.moves.forEach((move, index) => {
+        dummy.position.set((index - maxLane) * LANE_WIDTH, 0.06, row.z);
+        dummy.rotation.set(-Math.PI / 2, 0, 0);
+        dummy.updateMatrix();
+        mesh.current!.setMatrixAt(count, dummy.matrix);
+        const isDeadEnd = move !== 'blocked' && !row.reachable[index];
+        mesh.current!.setColorAt(count, isDeadEnd ? UNREACHABLE_COLOR : MOVE_COLORS[move]);
+        count++;
+      });
+    }
+
+    mesh.current.count = count;
+    mesh.current.instanceMatrix.needsUpdate = true;
+    if (mesh.current.instanceColor) mesh.current.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh ref={mesh} args={[TILE_GEO, undefined, TILE_COUNT]} frustumCulled={false}>
+      <meshBasicMaterial toneMapped={false} transparent opacity={0.35} depthWrite={false} />
+    </instancedMesh>
+  );
+};
+
+export const SafeCorridorDebug: React.FC = () => isDebugEnabled('corridor') ? <CorridorTiles /> : null;
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import { LANE_WIDTH } from '../../../types';
+import { OBSTACLE_HEIGHT } from '../../../simulation';
+import { LASER_POST_GEO, ObjectModelProps, ObjectVisual, SHADOW_DEFAULT_GEO, spinAndBob, still } from './shared';
+
+const OBSTACLE_GEOMETRY = new THREE.ConeGeometry(0.9, OBSTACLE_HEIGHT, 6);
+const OBSTACLE_GLOW_GEO = new THREE.ConeGeometry(0.9, OBSTACLE_HEIGHT, 6);
+const OBSTACLE_RING_GEO = new THREE.RingGeometry(0.6, 0.9, 6);
+
+// Alien Geometries
+const ALIEN_BODY_GEO = new THREE.CylinderGeometry(0.6, 0.3, 0.3, 8);
+const ALIEN_DOME_GEO = new THREE.SphereGeometry(0.4, 16, 16, 0, Math.PI * 2, 0, Math.PI/2);
+const ALIEN_EYE_GEO = new THREE.SphereGeometry(0.1);
+const SHADOW_ALIEN_GEO = new THREE.CircleGeometry(0.8, 32);
+
+// Drone Geometries
+const DRONE_BODY_GEO = new THREE.SphereGeometry(0.5, 16, 16);
+const DRONE_ENGINE_GEO = new THREE.CylinderGeometry(0.1, 0.2, 0.6);
+const DRONE_EYE_GEO = new THREE.SphereGeometry(0.2);
+
+// Missile Geometries
+const MISSILE_CORE_GEO = new THREE.CylinderGeometry(0.08, 0.08, 3.0, 8);
+const MISSILE_RING_GEO = new THREE.TorusGeometry(0.15, 0.02, 16, 32);
+const SHADOW_MISSILE_GEO = new THREE.PlaneGeometry(0.15, 3);
+
+const LASER_BEAM_GEO = new THREE.BoxGeometry(1, 0.3, 0.1); // Will be scaled
+const BARRIER_GEO = new THREE.BoxGeometry(0.5, 2.5, 0.5);
+const SPIKE_GEO = new THREE.ConeGeometry(0.3, 0.8, 4);
+const TURRET_BASE_GEO = new THREE.CylinderGeometry(0.5, 0.6, 0.4, 8);
+const TURRET_BARREL_GEO = new THREE.CylinderGeometry(0.1, 0.1, 0.8, 8);
+const OVERHEAD_BAR_GEO = new THREE.BoxGeometry(LANE_WIDTH * 0.9, 0.4, 0.2);
+const OVERHEAD_PANEL_GEO = new THREE.BoxGeometry(LANE_WIDTH * 0.9, 1.3, 0.05);
+
+const ObstacleModel: React.FC<ObjectModelProps> = ({ data }) => (
+    <group>
+        <mesh geometry={OBSTACLE_GEOMETRY} castShadow receiveShadow>
+             <meshStandardMaterial
+                 color="#330011"
+                 roughness={0.3}
+                 metalness={0.8}
+                 flatShading={true}
+             />
+        </mesh>
+        <mesh scale={[1.02, 1.02, 1.02]} geometry={OBSTACLE_GLOW_GEO}>
+             <meshBasicMaterial color={data.color} wireframe transparent opacity={0.3} />
+        </mesh>
+         <mesh position={[0, -OBSTACLE_HEIGHT/2 + 0.05, 0]} rotation={[-Math.PI/2,0,0]} geometry={OBSTACLE_RING_GEO}>
+             <meshBasicMaterial color={data.color} transparent opacity={0.4} side={THREE.DoubleSide} />
+         </mesh>
+    </group>
+);
+
+const AlienModel: React.FC<ObjectModelProps> = () => (
+    <group>
+        <mesh castShadow geometry={ALIEN_BODY_GEO}>
+            <meshStandardMaterial color="#4400cc" metalness={0.8} roughness={0.2} />
+        </mesh>
+        <mesh position={[0, 0.2, 0]} geometry={ALIEN_DOME_GEO}>
+            <meshStandardMaterial color="#00ff00" emissive="#00ff00" emissiveIntensity={0.5} transparent opacity={0.8} />
+        </mesh>
+        <mesh position={[0.3, 0, 0.3]} geometry={ALIEN_EYE_GEO}><meshBasicMaterial color="#ff00ff" /></mesh>
+        <mesh position={[-0.3, 0, 0.3]} geometry={ALIEN_EYE_GEO}><meshBasicMaterial color="#ff00ff" /></mesh>
+    </group>
+);
+
+const DroneModel: React.FC<ObjectModelProps> = () => (
+    <group>
+         <mesh castShadow geometry={DRONE_BODY_GEO}>
+             <meshStandardMaterial color="#111111" metalness={0.9} roughness={0.1} />
+         </mesh>
+         {/* Engines */}
+         <mesh position={[0.6, 0, 0]} rotation={[0,0,Math.PI/2]} geometry={DRONE_ENGINE_GEO}>
+             <meshStandardMaterial color="#333333" />
+         </mesh>
+         <mesh position={[-0.6, 0, 0]} rotation={[0,0,Math.PI/2]} geometry={DRONE_ENGINE_GEO}>
+             <meshStandardMaterial color="#333333" />
+         </mesh>
+         {/* Red Eye */}
+         <mesh position={[0, 0, 0.4]} geometry={DRONE_EYE_GEO}>
+             <meshBasicMaterial color="#ff0000" />
+         </mesh>
+         {/* Engine Glow */}
+         <pointLight color="#ff0000" distance={2} intensity={2} />
+    </group>
+);
+
+const MissileModel: React.FC<ObjectModelProps> = () => (
+    <group rotation={[Math.PI / 2, 0, 0]}>
+        <mesh geometry={MISSILE_CORE_GEO}>
+            <meshStandardMaterial color="#ff0000" emissive="#ff0000" emissiveIntensity={4} />
+        </mesh>
+        <mesh position={[0, 1.0, 0]} geometry={MISSILE_RING_GEO}><meshBasicMaterial color="#ffff00" /></mesh>
+        <mesh position={[0, 0, 0]} geometry={MISSILE_RING_GEO}><meshBasicMaterial color="#ffff00" /></mesh>
+        <mesh position={[0, -1.0, 0]} geometry={MISSILE_RING_GEO}><meshBasicMaterial color="#ffff00" /></mesh>
+    </group>
+);
+
+const LaserGateModel: React.FC<ObjectModelProps> = ({ data }) => {
+    const lanes = parseInt(data.value || '3');
+    return (
+        <group>
+            {/* Left Post */}
+            <mesh position={[-((lanes / 2) * LANE_WIDTH + 0.5), 1.5, 0]} geometry={LASER_POST_GEO}>
+                <meshStandardMaterial color="#333333" metalness={0.8} roughness={0.2} />
+            </mesh>
+            {/* Right Post */}
+            <mesh position={[((lanes / 2) * LANE_WIDTH + 0.5), 1.5, 0]} geometry={LASER_POST_GEO}>
+                <meshStandardMaterial color="#333333" metalness={0.8} roughness={0.2} />
+            </mesh>
+            {/* Laser Beam */}
+            <mesh position={[0, 0.8, 0]} scale={[lanes * LANE_WIDTH + 1, 1, 1]} geometry={LASER_BEAM_GEO}>
+                <meshBasicMaterial color="#ff0000" transparent opacity={0.8} />
+            </mesh>
+            {/* Glow */}
+            <mesh position={[0, 0.8, 0]} scale={[lanes * LANE_WIDTH + 1.2, 1.5, 1.5]} geometry={LASER_BEAM_GEO}>
+                <meshBasicMaterial color="#ff0000" transparent opacity={0.3} />
+            </mesh>
+            <pointLight color="#ff0000" distance={5} intensity={2} position={[0, 0.8, 0]} />
+        </group>
+    );
+};
+
+const BarrierModel: React.FC<ObjectModelProps> = () => (
+    <group>
+        <mesh geometry={BARRIER_GEO} castShadow>
+            <meshStandardMaterial color="#ff6600" metalness={0.7} roughness={0.3} />
+        </mesh>
+        <mesh scale={[1.1, 1.1, 1.1]} geometry={BARRIER_GEO}>
+            <meshBasicMaterial color="#ffaa00" wireframe transparent opacity={0.4} />
+        </mesh>
+    </group>
+);
+
+const SpikeFloorModel: React.FC<ObjectModelProps> = () => (
+    <group>
+        {/* Multiple spikes in a row */}
+        {[-0.6, -0.2, 0.2, 0.6].map((offset, i) => (
+            <mesh key={i} position={[offset, 0.4, 0]} geometry={SPIKE_GEO}>
+                <meshStandardMaterial color="#cc0000" metalness={0.9} roughness={0.1} />
+            </mesh>
+        ))}
+        {/* Base plate */}
+        <mesh position={[0, 0.05, 0]} rotation={[-Math.PI/2, 0, 0]}>
+            <planeGeometry args={[1.8, 0.8]} />
+            <meshStandardMaterial color="#660000" />
+        </mesh>
+    </group>
+);
+
+const TurretModel: React.FC<ObjectModelProps> = () => (
+    <group>
+        <mesh geometry={TURRET_BASE_GEO}>
+            <meshStandardMaterial color="#444444" metalness={0.8} roughness={0.2} />
+        </mesh>
+        <mesh position={[0, 0.3, 0.3]} rotation={[Math.PI/4, 0, 0]} geometry={TURRET_BARREL_GEO}>
+            <meshStandardMaterial color="#222222" metalness={0.9} roughness={0.1} />
+        </mesh>
+        {/* Warning light */}
+        <mesh position={[0, 0.4, 0]}>
+            <sphereGeometry args={[0.1]} />
+            <meshBasicMaterial color="#ff0000" />
+        </mesh>
+        <pointLight color="#ff0000" distance={2} intensity={1} position={[0, 0.4, 0]} />
+    </group>
+);
+
+const OverheadBarModel: React.FC<ObjectModelProps> = ({ data }) => (
+    <group>
+        {/* Side posts reaching the floor */}
+        <mesh position={[-LANE_WIDTH * 0.47, 0, 0]} geometry={LASER_POST_GEO}>
+            <meshStandardMaterial color="#333333" metalness={0.8} roughness={0.2} />
+        </mesh>
+        <mesh position={[LANE_WIDTH * 0.47, 0, 0]} geometry={LASER_POST_GEO}>
+            <meshStandardMaterial color="#333333" metalness={0.8} roughness={0.2} />
+        </mesh>
+        {/* Glowing bar at head height */}
+        <mesh geometry={OVERHEAD_BAR_GEO}>
+            <meshBasicMaterial color={data.color} />
+        </mesh>
+        <mesh scale={[1.05, 1.8, 1.8]} geometry={OVERHEAD_BAR_GEO}>
+            <meshBasicMaterial color={data.color} transparent opacity={0.3} />
+        </mesh>
+        {/* Hanging panel - too tall to jump over */}
+        <mesh position={[0, 0.85, 0]} geometry={OVERHEAD_PANEL_GEO}>
+            <meshBasicMaterial color={data.color} wireframe transparent opacity={0.4} />
+        </mesh>
+        <pointLight color={data.color} distance={4} intensity={2} />
+    </group>
+);
+
+export const OBSTACLE: ObjectVisual = {
+    Model: ObstacleModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: still,
+};
+
+export const ALIEN: ObjectVisual = {
+    Model: AlienModel,
+    shadow: SHADOW_ALIEN_GEO,
+    animate: (visual, position, time, delta) => {
+        visual.position.y = position[1] + Math.sin(time * 3) * 0.2;
+        visual.rotation.y += delta;
+    },
+    fireColor: '#ff00ff',
+};
+
+export const DRONE: ObjectVisual = {
+    Model: DroneModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: (visual, position, time) => {
+        visual.position.y = position[1] + Math.sin(time * 5) * 0.1;
+        // Rocking motion
+        visual.rotation.z = Math.sin(time * 2) * 0.1;
+    },
+    hitColor: '#000000',
+};
+
+export const MISSILE: ObjectVisual = {
+    Model: MissileModel,
+    shadow: SHADOW_MISSILE_GEO,
+    animate: (visual, position, _, delta) => {
+        visual.rotation.z += delta * 20;
+        visual.position.y = position[1];
+    },
+};
+
+export const LASER_GATE: ObjectVisual = {
+    Model: LaserGateModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: spinAndBob,
+};
+
+export const BARRIER: ObjectVisual = {
+    Model: BarrierModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: spinAndBob,
+};
+
+export const SPIKE_FLOOR: ObjectVisual = {
+    Model: SpikeFloorModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: spinAndBob,
+};
+
+export const TURRET: ObjectVisual = {
+    Model: TurretModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: spinAndBob,
+    fireColor: '#ffaa00',
+};
+
+export const OVERHEAD_BAR: ObjectVisual = {
+    Model: OverheadBarModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: still,
+};
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ObjectType } from '../../../types';
+import { ObjectVisual } from './shared';
+import { ALIEN, BARRIER, DRONE, LASER_GATE, MISSILE, OBSTACLE, OVERHEAD_BAR, SPIKE_FLOOR, TURRET } from './hazards';
+import { GEM, JUMP_PAD, LETTER, MAGNET, SHIELD, SPEED_BOOST, WEAK_POINT } from './pickups';
+import { GAP, SHOP_PORTAL } from './track';
+
+export type { ObjectVisual } from './shared';
+
+// Model, idle animation and effects for every object type, the rendering
+// side of the rules in simulation/objects/
+export const OBJECT_VISUALS: Record<ObjectType, ObjectVisual> = {
+    [ObjectType.OBSTACLE]: OBSTACLE,
+    [ObjectType.GEM]: GEM,
+    [ObjectType.LETTER]: LETTER,
+    [ObjectType.SHOP_PORTAL]: SHOP_PORTAL,
+    [ObjectType.ALIEN]: ALIEN,
+    [ObjectType.MISSILE]: MISSILE,
+    [ObjectType.MAGNET]: MAGNET,
+    [ObjectType.SHIELD]: SHIELD,
+    [ObjectType.DRONE]: DRONE,
+    [ObjectType.LASER_GATE]: LASER_GATE,
+    [ObjectType.BARRIER]: BARRIER,
+    [ObjectType.SPIKE_FLOOR]: SPIKE_FLOOR,
+    [ObjectType.TURRET]: TURRET,
+    [ObjectType.JUMP_PAD]: JUMP_PAD,
+    [ObjectType.SPEED_BOOST]: SPEED_BOOST,
+    [ObjectType.GAP]: GAP,
+    [ObjectType.OVERHEAD_BAR]: OVERHEAD_BAR,
+    [ObjectType.WEAK_POINT]: WEAK_POINT,
+};
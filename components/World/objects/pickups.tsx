@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import { Text3D, Center } from '@react-three/drei';
+import { audio } from '../../System/Audio';
+import { FONT_URL, ObjectModelProps, ObjectVisual, SHADOW_DEFAULT_GEO, spinAndBob } from './shared';
+
+const GEM_GEOMETRY = new THREE.IcosahedronGeometry(0.3, 0);
+const SHADOW_GEM_GEO = new THREE.CircleGeometry(0.6, 32);
+const SHADOW_LETTER_GEO = new THREE.PlaneGeometry(2, 0.6);
+
+// Powerup Geometries
+const MAGNET_GEO = new THREE.TorusGeometry(0.4, 0.1, 8, 16, Math.PI * 1.5);
+const SHIELD_GEO = new THREE.IcosahedronGeometry(0.5, 1);
+const JUMP_PAD_GEO = new THREE.CylinderGeometry(0.8, 0.8, 0.15, 16);
+const SPEED_BOOST_GEO = new THREE.ConeGeometry(0.4, 0.8, 6);
+const WEAK_POINT_GEO = new THREE.OctahedronGeometry(0.6, 0);
+
+const GemModel: React.FC<ObjectModelProps> = ({ data }) => (
+    <mesh castShadow geometry={GEM_GEOMETRY}>
+        <meshStandardMaterial color={data.color} roughness={0} metalness={1} emissive={data.color} emissiveIntensity={2} />
+    </mesh>
+);
+
+const LetterModel: React.FC<ObjectModelProps> = ({ data }) => (
+    <group scale={[1.5, 1.5, 1.5]}>
+         <Center>
+             <Text3D
+                font={FONT_URL}
+                size={0.8}
+                height={0.5}
+                bevelEnabled
+                bevelThickness={0.02}
+                bevelSize={0.02}
+                bevelSegments={5}
+             >
+                {data.value}
+                <meshStandardMaterial color={data.color} emissive={data.color} emissiveIntensity={1.5} />
+             </Text3D>
+         </Center>
+    </group>
+);
+
+const MagnetModel: React.FC<ObjectModelProps> = () => (
+    <group>
+        <mesh geometry={MAGNET_GEO}>
+            <meshStandardMaterial color="#d000ff" metalness={0.8} roughness={0.2} emissive="#d000ff" emissiveIntensity={1} />
+        </mesh>
+        {/* Pulsing Effect */}
+        <mesh scale={[1.2,1.2,1.2]} geometry={MAGNET_GEO}>
+            <meshBasicMaterial color="#ffffff" transparent opacity={0.3} wireframe />
+        </mesh>
+    </group>
+);
+
+const ShieldModel: React.FC<ObjectModelProps> = () => (
+    <group>
+        <mesh geometry={SHIELD_GEO}>
+            <meshStandardMaterial color="#00ffff" metalness={0.5} roughness={0.1} emissive="#00ffff" emissiveIntensity={0.5} transparent opacity={0.8} />
+        </mesh>
+        <mesh scale={[1.1,1.1,1.1]} geometry={SHIELD_GEO}>
+            <meshBasicMaterial color="#ffffff" wireframe transparent opacity={0.3} />
+        </mesh>
+    </group>
+);
+
+const JumpPadModel: React.FC<ObjectModelProps> = () => (
+    <group>
+        <mesh geometry={JUMP_PAD_GEO}>
+            <meshStandardMaterial color="#00ff88" metalness={0.6} roughness={0.2} emissive="#00ff88" emissiveIntensity={0.5} />
+        </mesh>
+        <mesh position={[0, 0.1, 0]} scale={[1.2, 1, 1.2]} geometry={JUMP_PAD_GEO}>
+            <meshBasicMaterial color="#00ffaa" wireframe transparent opacity={0.5} />
+        </mesh>
+    </group>
+);
+
+const SpeedBoostModel: React.FC<ObjectModelProps> = () => (
+    <group rotation={[0, 0, -Math.PI/2]}>
+        <mesh geometry={SPEED_BOOST_GEO}>
+            <meshStandardMaterial color="#ffaa00" metalness={0.7} roughness={0.2} emissive="#ffaa00" emissiveIntensity={1} />
+        </mesh>
+        <mesh scale={[1.2, 1.2, 1.2]} geometry={SPEED_BOOST_GEO}>
+            <meshBasicMaterial color="#ffffff" wireframe transparent opacity={0.4} />
+        </mesh>
+    </group>
+);
+
+const WeakPointModel: React.FC<ObjectModelProps> = ({ data }) => (
+    <group>
+        <mesh geometry={WEAK_POINT_GEO}>
+            <meshStandardMaterial color={data.color} emissive={data.color} emissiveIntensity={2} />
+        </mesh>
+        <mesh scale={[1.5, 1.5, 1.5]} geometry={WEAK_POINT_GEO}>
+            <meshBasicMaterial color="#ffffff" wireframe transparent opacity={0.4} />
+        </mesh>
+        <pointLight color={data.color} distance={6} intensity={3} />
+    </group>
+);
+
+// Powerups reuse the positive gem sound
+const playGemCollect = () => audio.playGemCollect();
+
+export const GEM: ObjectVisual = {
+    Model: GemModel,
+    shadow: SHADOW_GEM_GEO,
+    animate: spinAndBob,
+    collectSound: playGemCollect,
+};
+
+export const LETTER: ObjectVisual = {
+    Model: LetterModel,
+    shadow: SHADOW_LETTER_GEO,
+    animate: spinAndBob,
+    collectSound: () => audio.playLetterCollect(),
+};
+
+export const MAGNET: ObjectVisual = {
+    Model: MagnetModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: spinAndBob,
+    collectSound: playGemCollect,
+};
+
+export const SHIELD: ObjectVisual = {
+    Model: ShieldModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: spinAndBob,
+    collectSound: playGemCollect,
+};
+
+export const JUMP_PAD: ObjectVisual = {
+    Model: JumpPadModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: spinAndBob,
+    collectSound: () => audio.playJumpPad(),
+};
+
+export const SPEED_BOOST: ObjectVisual = {
+    Model: SpeedBoostModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: spinAndBob,
+    collectSound: () => audio.playSpeedBoost(),
+};
+
+// The boss-hit event that follows has its own sound
+export const WEAK_POINT: ObjectVisual = {
+    Model: WeakPointModel,
+    shadow: SHADOW_DEFAULT_GEO,
+    animate: spinAndBob,
+};
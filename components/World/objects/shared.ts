@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import { GameObject } from '../../../types';
+
+// How one object type looks and sounds; the visuals live beside this file and
+// are looked up by type in index.ts.
+
+export interface ObjectModelProps {
+    data: GameObject;
+}
+
+// Idle animation run each frame on the object's visual group (positioned at
+// the object's height) and its shadow. `position` is where the object is drawn
+// this frame, between its last two simulation steps.
+export type ObjectAnimation = (visual: THREE.Group, position: [number, number, number], time: number, delta: number, shadow: THREE.Mesh | null) => void;
+
+export interface ObjectVisual {
+    Model: React.FC<ObjectModelProps>;
+    shadow: THREE.BufferGeometry | null;
+    animate: ObjectAnimation;
+    hitColor?: string; // Burst when it strikes the player
+    fireColor?: string; // Burst when it fires
+    collectSound?: () => void;
+}
+
+// Font for 3D Text
+export const FONT_URL = "https://cdn.jsdelivr.net/npm/three/examples/fonts/helvetiker_bold.typeface.json";
+
+export const LASER_POST_GEO = new THREE.CylinderGeometry(0.15, 0.15, 3, 8);
+export const SHADOW_DEFAULT_GEO = new THREE.CircleGeometry(0.8, 6);
+
+// Sits at its height without moving
+export const still: ObjectAnimation = (visual, position) => {
+    visual.position.y = position[1];
+};
+
+// Turns and bobs, with the shadow shrinking as it rises
+export const spinAndBob: ObjectAnimation = (visual, position, time, delta, shadow) => {
+    visual.rotation.y += delta * 3;
+    const bobOffset = Math.sin(time * 4 + position[0]) * 0.1;
+    visual.position.y = position[1] + bobOffset;
+    shadow?.scale.setScalar(1 - bobOffset);
+};
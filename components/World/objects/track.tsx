@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import * as THREE from 'three';
+import { Text3D, Center } from '@react-three/drei';
+import { useStore } from '../../../store';
+import { LANE_WIDTH } from '../../../types';
+import { FONT_URL, ObjectModelProps, ObjectVisual, still } from './shared';
+
+// Shop Geometries
+const SHOP_FRAME_GEO = new THREE.BoxGeometry(1, 7, 1); // Will be scaled
+const SHOP_BACK_GEO = new THREE.BoxGeometry(1, 5, 1.2); // Will be scaled
+const SHOP_OUTLINE_GEO = new THREE.BoxGeometry(1, 7.2, 0.8); // Will be scaled
+const SHOP_FLOOR_GEO = new THREE.PlaneGeometry(1, 4); // Will be scaled
+
+// Gap Geometries
+const GAP_HOLE_GEO = new THREE.PlaneGeometry(LANE_WIDTH, 1); // Will be scaled to gap length
+const GAP_PIT_GEO = new THREE.BoxGeometry(LANE_WIDTH, 4, 1); // Will be scaled to gap length
+const GAP_EDGE_GEO = new THREE.BoxGeometry(LANE_WIDTH, 0.05, 0.1);
+
+// Spans the whole track, so it follows the lane count
+const ShopPortalModel: React.FC<ObjectModelProps> = () => {
+    const { laneCount } = useStore();
+    return (
+        <group>
+             <mesh position={[0, 3, 0]} geometry={SHOP_FRAME_GEO} scale={[laneCount * LANE_WIDTH + 2, 1, 1]}>
+                 <meshStandardMaterial color="#111111" metalness={0.8} roughness={0.2} />
+             </mesh>
+             <mesh position={[0, 2, 0]} geometry={SHOP_BACK_GEO} scale={[laneCount * LANE_WIDTH, 1, 1]}>
+                  <meshBasicMaterial color="#000000" />
+             </mesh>
+             <mesh position={[0, 3, 0]} geometry={SHOP_OUTLINE_GEO} scale={[laneCount * LANE_WIDTH + 2.2, 1, 1]}>
+                 <meshBasicMaterial color="#00ffff" wireframe transparent opacity={0.3} />
+             </mesh>
+             <Center position={[0, 5, 0.6]}>
+                 <Text3D font={FONT_URL} size={1.2} height={0.2}>
+                     CYBER SHOP
+                     <meshBasicMaterial color="#ffff00" />
+                 </Text3D>
+             </Center>
+             <mesh position={[0, 0.1, 0]} rotation={[-Math.PI/2, 0, 0]} geometry={SHOP_FLOOR_GEO} scale={[laneCount * LANE_WIDTH, 1, 1]}>
+                 <meshBasicMaterial color="#00ffff" transparent opacity={0.3} />
+             </mesh>
+        </group>
+    );
+};
+
+const GapModel: React.FC<ObjectModelProps> = ({ data }) => (
+    <group>
+        {/* Hole over the lane floor and grid */}
+        <mesh position={[0, 0.04, 0]} rotation={[-Math.PI/2, 0, 0]} geometry={GAP_HOLE_GEO} scale={[1, data.length || 1, 1]}>
+            <meshBasicMaterial color="#000000" />
+        </mesh>
+        {/* Pit walls */}
+        <mesh position={[0, -2, 0]} geometry={GAP_PIT_GEO} scale={[1, 1, data.length || 1]}>
+            <meshBasicMaterial color="#05000a" side={THREE.BackSide} />
+        </mesh>
+        {/* Glowing lips at both ends */}
+        {[-1, 1].map(side => (
+            <mesh key={side} position={[0, 0.05, side * (data.length || 1) / 2]} geometry={GAP_EDGE_GEO}>
+                <meshBasicMaterial color={data.color} toneMapped={false} />
+            </mesh>
+        ))}
+    </group>
+);
+
+export const SHOP_PORTAL: ObjectVisual = {
+    Model: ShopPortalModel,
+    shadow: null,
+    animate: (visual, _, time) => {
+        visual.scale.setScalar(1 + Math.sin(time * 2) * 0.02);
+    },
+};
+
+export const GAP: ObjectVisual = {
+    Model: GapModel,
+    shadow: null,
+    animate: still,
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { InputAction } from './simulation';
+
+// Control bindings: which inputs trigger each action. Shared by the client's
+// input layer and the server, which stores each player's bindings.
+//
+// Inputs are written as "<source>:<name>":
+//   Key:<KeyboardEvent.code>  physical key, so defaults follow the key position on any layout
+//   Pad:<GamepadInput>        controller button or direction
+//   Swipe:<up|down|left|right> and Tap:screen  touch and mouse gestures
+
+export type ControlAction = InputAction | 'PAUSE';
+
+export type ControlBindings = Record<ControlAction, string[]>;
+
+export const CONTROL_ACTIONS: ControlAction[] = [
+  InputAction.MOVE_LEFT,
+  InputAction.MOVE_RIGHT,
+  InputAction.JUMP,
+  InputAction.SLIDE,
+  InputAction.ABILITY,
+  'PAUSE',
+];
+
+export const CONTROL_LABELS: Record<ControlAction, string> = {
+  [InputAction.MOVE_LEFT]: 'MOVE LEFT',
+  [InputAction.MOVE_RIGHT]: 'MOVE RIGHT',
+  [InputAction.JUMP]: 'JUMP',
+  [InputAction.SLIDE]: 'SLIDE',
+  [InputAction.ABILITY]: 'ABILITY',
+  PAUSE: 'PAUSE',
+};
+
+export const MAX_BINDINGS_PER_ACTION = 6;
+
+export const DEFAULT_BINDINGS: ControlBindings = {
+  [InputAction.MOVE_LEFT]: ['Key:ArrowLeft', 'Key:KeyA', 'Pad:left', 'Swipe:left'],
+  [InputAction.MOVE_RIGHT]: ['Key:ArrowRight', 'Key:KeyD', 'Pad:right', 'Swipe:right'],
+  [InputAction.JUMP]: ['Key:ArrowUp', 'Key:KeyW', 'Pad:a', 'Pad:up', 'Swipe:up'],
+  [InputAction.SLIDE]: ['Key:ArrowDown', 'Key:KeyS', 'Pad:b', 'Pad:down', 'Swipe:down'],
+  [InputAction.ABILITY]: ['Key:Space', 'Key:Enter', 'Pad:x', 'Pad:y', 'Pad:rb', 'Tap:screen'],
+  PAUSE: ['Key:Escape', 'Key:KeyP', 'Pad:start'],
+};
+
+const INPUT_PATTERN = /^(Key:[A-Za-z0-9]{1,24}|Pad:[a-z]{1,8}|Swipe:(up|down|left|right)|Tap:screen)$/;
+
+// The action `input` is bound to, other than `except`
+export const findConflict = (bindings: ControlBindings, input: string, except?: ControlAction): ControlAction | undefined =>
+  CONTROL_ACTIONS.find(action => action !== except && bindings[action].includes(input));
+
+// Validates bindings from storage or a request. Returns null unless every
+// action is listed with well-formed inputs and no input is bound twice.
+export const parseBindings = (value: unknown): ControlBindings | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const source = value as Record<string, unknown>;
+  const bindings = {} as ControlBindings;
+  const seen = new Set<string>();
+
+  for (const action of CONTROL_ACTIONS) {
+    const inputs = source[action];
+    if (!Array.isArray(inputs) || inputs.length > MAX_BINDINGS_PER_ACTION) return null;
+    for (const input of inputs) {
+      if (typeof input !== 'string' || !INPUT_PATTERN.test(input) || seen.has(input)) return null;
+      seen.add(input);
+    }
+    bindings[action] = [...inputs];
+  }
+  return bindings;
+};
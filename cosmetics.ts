@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Cosmetic unlocks for the runner. Shared by the client, which draws them, and
+// the server, which owns the prices and decides who has unlocked what.
+
+export type CosmeticSlot = 'skin' | 'trail' | 'landing';
+
+// How a skin's glow strips behave over time
+export type EmissivePattern = 'steady' | 'pulse' | 'rainbow';
+
+export type LandingStyle = 'ring' | 'burst';
+
+interface CosmeticBase {
+  id: string;
+  name: string;
+  cost?: number; // Gems; cosmetics without a cost or achievement are free
+  achievement?: string; // Unlocked when the player earns this achievement
+}
+
+export interface SkinCosmetic extends CosmeticBase {
+  slot: 'skin';
+  armor: string;
+  joint: string;
+  glow: string;
+  pattern: EmissivePattern;
+}
+
+export interface TrailCosmetic extends CosmeticBase {
+  slot: 'trail';
+  color: string | null; // null draws no trail; 'rainbow' cycles hue
+  size: number;
+}
+
+export interface LandingCosmetic extends CosmeticBase {
+  slot: 'landing';
+  color: string;
+  style: LandingStyle | null; // null plays no landing effect
+}
+
+export type Cosmetic = SkinCosmetic | TrailCosmetic | LandingCosmetic;
+
+export type EquippedCosmetics = Record<CosmeticSlot, string>;
+
+export const COSMETIC_SLOTS: CosmeticSlot[] = ['skin', 'trail', 'landing'];
+
+export const RAINBOW = 'rainbow';
+
+export const COSMETICS: Cosmetic[] = [
+  { id: 'SKIN_DEFAULT', slot: 'skin', name: 'STANDARD ISSUE', armor: '#00aaff', joint: '#111111', glow: '#00ffff', pattern: 'steady' },
+  { id: 'SKIN_STEALTH', slot: 'skin', name: 'STEALTH', armor: '#22222e', joint: '#050505', glow: '#00ff88', pattern: 'steady', cost: 200 },
+  { id: 'SKIN_CRIMSON', slot: 'skin', name: 'CRIMSON', armor: '#aa1122', joint: '#1a0505', glow: '#ff3355', pattern: 'pulse', cost: 300 },
+  { id: 'SKIN_SOLAR', slot: 'skin', name: 'SOLAR FLARE', armor: '#ff7700', joint: '#221100', glow: '#ffee00', pattern: 'pulse', achievement: 'SCORE_10K' },
+  { id: 'SKIN_PRISM', slot: 'skin', name: 'PRISM', armor: '#dddddd', joint: '#333333', glow: '#ffffff', pattern: 'rainbow', achievement: 'VICTORY' },
+
+  { id: 'TRAIL_NONE', slot: 'trail', name: 'NO TRAIL', color: null, size: 0 },
+  { id: 'TRAIL_ION', slot: 'trail', name: 'ION STREAM', color: '#00ffff', size: 0.12, cost: 150 },
+  { id: 'TRAIL_EMBER', slot: 'trail', name: 'EMBERS', color: '#ff5500', size: 0.16, cost: 250 },
+  { id: 'TRAIL_RAINBOW', slot: 'trail', name: 'SPECTRUM', color: RAINBOW, size: 0.14, achievement: 'DAREDEVIL' },
+
+  { id: 'LANDING_NONE', slot: 'landing', name: 'NO EFFECT', color: '#ffffff', style: null },
+  { id: 'LANDING_SHOCKWAVE', slot: 'landing', name: 'SHOCKWAVE', color: '#00ffff', style: 'ring', cost: 200 },
+  { id: 'LANDING_NOVA', slot: 'landing', name: 'NOVA', color: '#ff00ff', style: 'burst', achievement: 'LEVEL_3' },
+];
+
+export const DEFAULT_COSMETICS: EquippedCosmetics = {
+  skin: 'SKIN_DEFAULT',
+  trail: 'TRAIL_NONE',
+  landing: 'LANDING_NONE',
+};
+
+export const getCosmetic = (id: unknown): Cosmetic | undefined =>
+  COSMETICS.find(cosmetic => cosmetic.id === id);
+
+// Looks up the equipped cosmetic for a slot, falling back to the default if
+// the id is missing or has been retired
+export const getEquipped = <S extends CosmeticSlot>(equipped: Partial<EquippedCosmetics> | undefined, slot: S) => {
+  const cosmetic = getCosmetic(equipped?.[slot]);
+  return (cosmetic?.slot === slot ? cosmetic : getCosmetic(DEFAULT_COSMETICS[slot])) as Extract<Cosmetic, { slot: S }>;
+};
+
+export const isFreeCosmetic = (cosmetic: Cosmetic) =>
+  cosmetic.cost === undefined && cosmetic.achievement === undefined;
+
+export const isCosmeticOwned = (cosmetic: Cosmetic, owned: string[]) =>
+  isFreeCosmetic(cosmetic) || owned.includes(cosmetic.id);
+
+// Ids of the cosmetics unlocked by earning `achievements`
+export const getEarnedCosmetics = (achievements: string[]): string[] =>
+  COSMETICS.filter(cosmetic => cosmetic.achievement && achievements.includes(cosmetic.achievement)).map(cosmetic => cosmetic.id);
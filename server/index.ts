@@ -57,7 +57,8 @@ const authLimiter = rateLimit({
 });
 app.use('/api/auth/', authLimiter);
 
-// Body parsing
+// Body parsing (score submissions carry the run's input log, so allow them more room)
+app.use('/api/leaderboard/submit', express.json({ limit: '512kb' }));
 app.use(express.json({ limit: '10kb' }));
 app.use(express.urlencoded({ extended: true, limit: '10kb' }));
 
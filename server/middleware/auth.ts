@@ -34,6 +34,17 @@ export const verifyToken = (req: AuthRequest, res: Response, next: NextFunction)
   }
 };
 
+// Admin-only endpoints - requires the ADMIN_API_KEY in the X-Admin-Key header
+export const verifyAdminKey = (req: Request, res: Response, next: NextFunction): void => {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey || req.headers['x-admin-key'] !== adminKey) {
+    res.status(403).json({ error: 'Forbidden' });
+    return;
+  }
+  next();
+};
+
 // Optional auth - doesn't block if no token, but adds user if present
 export const optionalAuth = (req: AuthRequest, res: Response, next: NextFunction): void => {
   try {
@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type GemTransactionType = 'run_reward' | 'purchase' | 'daily_reward' | 'admin_grant';
+
+// One credit or debit of a player's gem balance. Entries are only ever
+// appended, so the ledger sums to the balance cached on the user.
+export interface IGemTransaction extends Document {
+  walletAddress: string;
+  amount: number; // Positive for credits, negative for debits
+  type: GemTransactionType;
+  reference?: string; // What it was for: leaderboard entry, item id, challenge date...
+  balanceAfter: number;
+  createdAt: Date;
+}
+
+const gemTransactionSchema = new Schema<IGemTransaction>({
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true,
+  },
+  amount: {
+    type: Number,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: ['run_reward', 'purchase', 'daily_reward', 'admin_grant'],
+    required: true,
+  },
+  reference: {
+    type: String,
+  },
+  balanceAfter: {
+    type: Number,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+gemTransactionSchema.index({ walletAddress: 1, createdAt: -1 });
+
+// Corrections are new entries, never edits
+const APPEND_ONLY_ERROR = 'Gem transactions are append-only';
+gemTransactionSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function() {
+    throw new Error(APPEND_ONLY_ERROR);
+  }
+);
+gemTransactionSchema.pre('save', function() {
+  if (!this.isNew) throw new Error(APPEND_ONLY_ERROR);
+});
+
+export const GemTransaction = mongoose.model<IGemTransaction>('GemTransaction', gemTransactionSchema);
@@ -1,4 +1,7 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { EquippedCosmetics } from '../../cosmetics';
+
+export type LeaderboardMode = 'classic' | 'daily';
 
 export interface ILeaderboardEntry extends Document {
   walletAddress: string;
@@ -7,6 +10,10 @@ export interface ILeaderboardEntry extends Document {
   level: number;
   gemsCollected: number;
   distance: number;
+  verified: boolean;
+  mode: LeaderboardMode;
+  challengeDate?: string; // UTC day of a Daily Challenge run (YYYY-MM-DD)
+  cosmetics?: EquippedCosmetics; // What the player had equipped when submitting
   createdAt: Date;
 }
 
@@ -40,6 +47,24 @@ const leaderboardSchema = new Schema<ILeaderboardEntry>({
     type: Number,
     default: 0,
   },
+  // Set when the score was reproduced by replaying the submitted run
+  verified: {
+    type: Boolean,
+    default: false,
+  },
+  mode: {
+    type: String,
+    enum: ['classic', 'daily'],
+    default: 'classic',
+  },
+  challengeDate: {
+    type: String,
+  },
+  cosmetics: {
+    skin: { type: String },
+    trail: { type: String },
+    landing: { type: String },
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -49,5 +74,6 @@ const leaderboardSchema = new Schema<ILeaderboardEntry>({
 
 // Compound index for efficient leaderboard queries
 leaderboardSchema.index({ score: -1, createdAt: -1 });
+leaderboardSchema.index({ mode: 1, challengeDate: 1, score: -1 });
 
 export const Leaderboard = mongoose.model<ILeaderboardEntry>('Leaderboard', leaderboardSchema);
@@ -1,4 +1,7 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DEFAULT_COSMETICS, EquippedCosmetics } from '../../cosmetics';
+import { ControlBindings } from '../../controls';
+import { LeaderboardMode } from './Leaderboard';
 
 export interface IGameHistory {
   score: number;
@@ -7,6 +10,22 @@ export interface IGameHistory {
   distance: number;
   playedAt: Date;
   outcome: 'game_over' | 'victory';
+  stats?: {
+    jumpPadsUsed: number;
+    speedBoostsCollected: number;
+    obstaclesSmashed: number;
+    maxCombo: number;
+    nearMisses: number;
+  };
+}
+
+// The ranked run the player last started and hasn't submitted
+export interface IActiveRun {
+  token: string; // Carried in the run's replay
+  mode: LeaderboardMode;
+  seed: number;
+  challengeDate?: string; // Daily runs only
+  startedAt: Date;
 }
 
 export interface IUser extends Document {
@@ -20,11 +39,23 @@ export interface IUser extends Document {
   totalGemsCollected: number;
   totalDistance: number;
   achievements: string[];
+  gems: number; // Spendable balance, kept in step with the gem ledger
   inventory: {
     hasDoubleJump: boolean;
     hasImmortality: boolean;
     maxLives: number;
   };
+  cosmetics: {
+    owned: string[]; // Bought or earned; free cosmetics aren't listed
+    equipped: EquippedCosmetics;
+  };
+  controls?: ControlBindings; // Unset until the player rebinds anything
+  dailyChallenge: {
+    date?: string; // UTC day the attempt counters belong to
+    attemptsUsed: number;
+    attemptsSubmitted: number;
+  };
+  activeRun?: IActiveRun;
   sessions: {
     token: string;
     createdAt: Date;
@@ -82,11 +113,42 @@ const userSchema = new Schema<IUser>({
   achievements: [{
     type: String,
   }],
+  gems: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
   inventory: {
     hasDoubleJump: { type: Boolean, default: false },
     hasImmortality: { type: Boolean, default: false },
     maxLives: { type: Number, default: 3 },
   },
+  cosmetics: {
+    owned: [{ type: String }],
+    equipped: {
+      skin: { type: String, default: DEFAULT_COSMETICS.skin },
+      trail: { type: String, default: DEFAULT_COSMETICS.trail },
+      landing: { type: String, default: DEFAULT_COSMETICS.landing },
+    },
+  },
+  controls: {
+    type: Schema.Types.Mixed,
+  },
+  dailyChallenge: {
+    date: { type: String },
+    attemptsUsed: { type: Number, default: 0 },
+    attemptsSubmitted: { type: Number, default: 0 },
+  },
+  activeRun: {
+    type: {
+      token: { type: String, required: true },
+      mode: { type: String, enum: ['classic', 'daily'], required: true },
+      seed: { type: Number, required: true },
+      challengeDate: { type: String },
+      startedAt: { type: Date, default: Date.now },
+    },
+    default: undefined,
+  },
   sessions: [{
     token: { type: String, required: true },
     createdAt: { type: Date, default: Date.now },
@@ -101,6 +163,13 @@ const userSchema = new Schema<IUser>({
     distance: { type: Number, default: 0 },
     playedAt: { type: Date, default: Date.now },
     outcome: { type: String, enum: ['game_over', 'victory'], default: 'game_over' },
+    stats: {
+      jumpPadsUsed: { type: Number, default: 0 },
+      speedBoostsCollected: { type: Number, default: 0 },
+      obstaclesSmashed: { type: Number, default: 0 },
+      maxCombo: { type: Number, default: 0 },
+      nearMisses: { type: Number, default: 0 },
+    },
   }],
 });
 
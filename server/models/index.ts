@@ -1,4 +1,5 @@
 import { User } from './User';
 import { Leaderboard } from './Leaderboard';
+import { GemTransaction } from './GemTransaction';
 
-export { User, Leaderboard };
+export { User, Leaderboard, GemTransaction };
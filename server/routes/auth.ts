@@ -84,7 +84,10 @@ router.post('/verify', async (req: AuthRequest, res: Response): Promise<void> =>
           highestScore: user.highestScore,
           totalGamesPlayed: user.totalGamesPlayed,
           totalGemsCollected: user.totalGemsCollected,
+          gems: user.gems,
           inventory: user.inventory,
+          cosmetics: user.cosmetics,
+          controls: user.controls,
           achievements: user.achievements,
         },
       });
@@ -127,7 +130,10 @@ router.post('/verify', async (req: AuthRequest, res: Response): Promise<void> =>
         highestScore: user.highestScore,
         totalGamesPlayed: user.totalGamesPlayed,
         totalGemsCollected: user.totalGemsCollected,
+        gems: user.gems,
         inventory: user.inventory,
+        cosmetics: user.cosmetics,
+        controls: user.controls,
         achievements: user.achievements,
       },
     });
@@ -182,7 +188,10 @@ router.post('/quick-auth', async (req: AuthRequest, res: Response): Promise<void
         highestScore: user.highestScore,
         totalGamesPlayed: user.totalGamesPlayed,
         totalGemsCollected: user.totalGemsCollected,
+        gems: user.gems,
         inventory: user.inventory,
+        cosmetics: user.cosmetics,
+        controls: user.controls,
         achievements: user.achievements,
       },
     });
@@ -210,7 +219,10 @@ router.get('/me', verifyToken, async (req: AuthRequest, res: Response): Promise<
         highestScore: user.highestScore,
         totalGamesPlayed: user.totalGamesPlayed,
         totalGemsCollected: user.totalGemsCollected,
+        gems: user.gems,
         inventory: user.inventory,
+        cosmetics: user.cosmetics,
+        controls: user.controls,
         achievements: user.achievements,
         createdAt: user.createdAt,
         lastLogin: user.lastLogin,
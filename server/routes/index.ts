@@ -2,12 +2,14 @@ import { Router } from 'express';
 import authRoutes from './auth';
 import leaderboardRoutes from './leaderboard';
 import userRoutes from './user';
+import walletRoutes from './wallet';
 
 const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/leaderboard', leaderboardRoutes);
 router.use('/user', userRoutes);
+router.use('/wallet', walletRoutes);
 
 // Health check
 router.get('/health', (req, res) => {
@@ -1,9 +1,19 @@
 import { Router, Response } from 'express';
+import mongoose from 'mongoose';
 import { Leaderboard, User } from '../models';
 import { AuthRequest, verifyToken, optionalAuth } from '../middleware/auth';
+import { DEFAULT_LOADOUT, isLoadoutOwned, parseReplay, replayRun } from '../../simulation';
+import { DAILY_CHALLENGE_REWARD, MAX_DAILY_ATTEMPTS, getChallengeDate, getDailySeed, isChallengeDate } from '../utils/dailyChallenge';
+import { claimActiveRun, createRunToken, findActiveRun, openClassicRun } from '../utils/activeRun';
+import { recordTransaction } from '../utils/ledger';
+import { awardAchievements } from '../utils/achievements';
+import { getEarnedCosmetics } from '../../cosmetics';
 
 const router = Router();
 
+// Entries on the all-time board (older entries predate the mode field)
+const CLASSIC_FILTER = { mode: { $ne: 'daily' } };
+
 // GET /api/leaderboard - Get top scores
 router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -11,13 +21,13 @@ router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
     const page = Math.max(parseInt(req.query.page as string) || 1, 1);
     const skip = (page - 1) * limit;
 
-    const entries = await Leaderboard.find()
+    const entries = await Leaderboard.find(CLASSIC_FILTER)
       .sort({ score: -1, createdAt: -1 })
       .skip(skip)
       .limit(limit)
-      .select('username score level gemsCollected distance createdAt walletAddress');
+      .select('username score level gemsCollected distance verified cosmetics createdAt walletAddress');
 
-    const total = await Leaderboard.countDocuments();
+    const total = await Leaderboard.countDocuments(CLASSIC_FILTER);
 
     res.json({
       entries: entries.map((entry, index) => ({
@@ -28,6 +38,8 @@ router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
         gemsCollected: entry.gemsCollected,
         distance: entry.distance,
         walletAddress: `${entry.walletAddress.slice(0, 6)}...${entry.walletAddress.slice(-4)}`,
+        verified: entry.verified,
+        cosmetics: entry.cosmetics,
         createdAt: entry.createdAt,
       })),
       pagination: {
@@ -46,10 +58,10 @@ router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
 // GET /api/leaderboard/top - Get top 5 for display
 router.get('/top', async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const entries = await Leaderboard.find()
+    const entries = await Leaderboard.find(CLASSIC_FILTER)
       .sort({ score: -1, createdAt: -1 })
       .limit(5)
-      .select('username score createdAt');
+      .select('username score verified cosmetics createdAt');
 
     res.json({
       entries: entries.map((entry, index) => ({
@@ -57,6 +69,8 @@ router.get('/top', async (req: AuthRequest, res: Response): Promise<void> => {
         name: entry.username,
         score: entry.score,
         date: entry.createdAt.getTime(),
+        verified: entry.verified,
+        cosmetics: entry.cosmetics,
       })),
     });
   } catch (error) {
@@ -65,56 +79,198 @@ router.get('/top', async (req: AuthRequest, res: Response): Promise<void> => {
   }
 });
 
+// GET /api/leaderboard/daily - Daily Challenge seed and board (today unless ?date=YYYY-MM-DD)
+router.get('/daily', optionalAuth, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const today = getChallengeDate();
+    const challengeDate = isChallengeDate(req.query.date) ? req.query.date : today;
+
+    if (challengeDate > today) {
+      res.status(400).json({ error: 'Challenge not available yet' });
+      return;
+    }
+
+    const entries = await Leaderboard.find({ mode: 'daily', challengeDate })
+      .sort({ score: -1, createdAt: -1 })
+      .limit(10)
+      .select('username score verified cosmetics createdAt');
+
+    // Attempts are only reported for today's challenge and a signed-in player
+    let attemptsUsed: number | null = null;
+    if (req.user && challengeDate === today) {
+      const user = await User.findOne({ walletAddress: req.user.walletAddress });
+      attemptsUsed = user?.dailyChallenge.date === today ? user.dailyChallenge.attemptsUsed : 0;
+    }
+
+    // Today's track stays hidden until the player's ranked attempts are spent,
+    // so it can't be practised before them
+    const isSeedOpen = challengeDate < today || (attemptsUsed ?? 0) >= MAX_DAILY_ATTEMPTS;
+
+    res.json({
+      date: challengeDate,
+      seed: isSeedOpen ? getDailySeed(challengeDate) : null,
+      maxAttempts: MAX_DAILY_ATTEMPTS,
+      attemptsUsed,
+      entries: entries.map((entry, index) => ({
+        rank: index + 1,
+        name: entry.username,
+        score: entry.score,
+        date: entry.createdAt.getTime(),
+        verified: entry.verified,
+        cosmetics: entry.cosmetics,
+      })),
+    });
+  } catch (error) {
+    console.error('Get daily leaderboard error:', error);
+    res.status(500).json({ error: 'Failed to get daily leaderboard' });
+  }
+});
+
+// POST /api/leaderboard/daily/start - Use one of today's ranked attempts (requires auth)
+router.post('/daily/start', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findOne({ walletAddress: req.user?.walletAddress });
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const challengeDate = getChallengeDate();
+    if (user.dailyChallenge.date !== challengeDate) {
+      user.dailyChallenge = { date: challengeDate, attemptsUsed: 0, attemptsSubmitted: 0 };
+    }
+
+    if (user.dailyChallenge.attemptsUsed >= MAX_DAILY_ATTEMPTS) {
+      res.status(403).json({ error: 'No daily attempts left' });
+      return;
+    }
+
+    const seed = getDailySeed(challengeDate);
+    const token = createRunToken();
+    user.dailyChallenge.attemptsUsed += 1;
+    user.activeRun = { token, mode: 'daily', seed, challengeDate, startedAt: new Date() };
+    await user.save();
+
+    res.json({
+      success: true,
+      date: challengeDate,
+      seed,
+      token,
+      maxAttempts: MAX_DAILY_ATTEMPTS,
+      attemptsUsed: user.dailyChallenge.attemptsUsed,
+    });
+  } catch (error) {
+    console.error('Start daily attempt error:', error);
+    res.status(500).json({ error: 'Failed to start daily attempt' });
+  }
+});
+
+// POST /api/leaderboard/run/start - Open a ranked classic run on a server-picked seed (requires auth)
+router.post('/run/start', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const run = await openClassicRun(req.user!.walletAddress);
+    if (!run) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({ success: true, ...run });
+  } catch (error) {
+    console.error('Start run error:', error);
+    res.status(500).json({ error: 'Failed to start run' });
+  }
+});
+
 // POST /api/leaderboard/submit - Submit a new score (requires auth)
 router.post('/submit', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { score, level, gemsCollected, distance, username, outcome } = req.body;
+    const { score, username } = req.body;
+    const mode = req.body.mode === 'daily' ? 'daily' : 'classic';
 
     if (typeof score !== 'number' || score < 0) {
       res.status(400).json({ error: 'Invalid score' });
       return;
     }
 
+    const replay = parseReplay(req.body.replay);
+    if (!replay) {
+      res.status(400).json({ error: 'Invalid replay' });
+      return;
+    }
+
     const walletAddress = req.user?.walletAddress;
     if (!walletAddress) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
+    // The run must be the one the player opened through /run/start or
+    // /daily/start, on the seed it was given; each one is scored once. This
+    // comes before the replay is re-simulated, which is the costly part.
+    const noRunError = mode === 'daily' ? 'No daily attempt in progress' : 'No run in progress';
+    const run = await findActiveRun(walletAddress, replay, mode);
+    if (!run) {
+      res.status(400).json({ error: noRunError });
+      return;
+    }
+    const challengeDate = run.challengeDate;
+
+    // Re-simulate the run from its seed and inputs; only a finished run that
+    // reproduces the claimed score is accepted, and its stats come from the replay
+    const { score: replayedScore, level, gemsCollected, distance, outcome, stats } = replayRun(replay);
+    if (!outcome || replayedScore !== score) {
+      res.status(400).json({ error: 'Score could not be verified' });
+      return;
+    }
+
+    const user = await User.findOne({ walletAddress });
+
+    // The run may only start with upgrades the player has bought
+    if (!isLoadoutOwned(replay.loadout, user?.inventory ?? DEFAULT_LOADOUT)) {
+      res.status(400).json({ error: 'Run used upgrades the player does not own' });
+      return;
+    }
+
+    if (user && mode === 'daily' && user.dailyChallenge.date === challengeDate) {
+      user.dailyChallenge.attemptsSubmitted += 1;
+    }
+
     // Create leaderboard entry
     const entry = new Leaderboard({
       walletAddress,
       username: username || `Runner_${walletAddress.slice(2, 8)}`,
       score,
-      level: level || 1,
-      gemsCollected: gemsCollected || 0,
-      distance: distance || 0,
+      level,
+      gemsCollected,
+      distance,
+      verified: true,
+      mode,
+      challengeDate,
+      cosmetics: user?.cosmetics.equipped,
     });
 
-    await entry.save();
-
     // Update user stats and add to game history
-    const user = await User.findOne({ walletAddress });
     if (user) {
       user.totalGamesPlayed += 1;
-      user.totalGemsCollected += gemsCollected || 0;
-      user.totalDistance += distance || 0;
+      user.totalGemsCollected += gemsCollected;
+      user.totalDistance += distance;
       
       if (score > user.highestScore) {
         user.highestScore = score;
       }
-      if ((level || 1) > user.highestLevel) {
-        user.highestLevel = level || 1;
+      if (level > user.highestLevel) {
+        user.highestLevel = level;
       }
 
       // Add to game history (keep last 50 games)
       user.gameHistory.push({
         score,
-        level: level || 1,
-        gemsCollected: gemsCollected || 0,
-        distance: distance || 0,
+        level,
+        gemsCollected,
+        distance,
         playedAt: new Date(),
-        outcome: outcome === 'victory' ? 'victory' : 'game_over',
+        outcome,
+        stats,
       });
 
       // Keep only last 50 games
@@ -122,40 +278,40 @@ router.post('/submit', verifyToken, async (req: AuthRequest, res: Response): Pro
         user.gameHistory = user.gameHistory.slice(-50);
       }
 
-      // Check for achievements
-      const newAchievements: string[] = [];
-      
-      if (user.totalGamesPlayed === 1 && !user.achievements.includes('FIRST_RUN')) {
-        newAchievements.push('FIRST_RUN');
-      }
-      if (score >= 10000 && !user.achievements.includes('SCORE_10K')) {
-        newAchievements.push('SCORE_10K');
-      }
-      if (score >= 50000 && !user.achievements.includes('SCORE_50K')) {
-        newAchievements.push('SCORE_50K');
-      }
-      if (level >= 3 && !user.achievements.includes('LEVEL_3')) {
-        newAchievements.push('LEVEL_3');
-      }
-      if (outcome === 'victory' && !user.achievements.includes('VICTORY')) {
-        newAchievements.push('VICTORY');
-      }
-      if (user.totalGamesPlayed >= 10 && !user.achievements.includes('DEDICATED_RUNNER')) {
-        newAchievements.push('DEDICATED_RUNNER');
-      }
-      if (user.totalGemsCollected >= 1000 && !user.achievements.includes('GEM_COLLECTOR')) {
-        newAchievements.push('GEM_COLLECTOR');
-      }
+      const newAchievements = awardAchievements(user, { score, level, outcome, stats });
 
-      if (newAchievements.length > 0) {
-        user.achievements.push(...newAchievements);
-      }
+      // Cosmetics tied to an achievement unlock along with it. Only achievements
+      // this verified run just earned count, never ones already on the account.
+      const earnedCosmetics = getEarnedCosmetics(newAchievements).filter(id => !user.cosmetics.owned.includes(id));
+      user.cosmetics.owned.push(...earnedCosmetics);
+    }
 
-      await user.save();
+    // The run is closed together with writing the entry, the player's stats and
+    // the gem payout, so a failure part way can't leave a scored run without its
+    // gems, and a run is only used up once it has been scored
+    const claimed = await mongoose.connection.transaction(async session => {
+      if (!await claimActiveRun(walletAddress, replay, mode, session)) return false;
+      await entry.save({ session });
+      if (!user) return true;
+      await user.save({ session });
+
+      // Pay the run's gems, plus the bonus for the day's first daily run, into the balance
+      if (gemsCollected > 0) {
+        await recordTransaction({ walletAddress, amount: gemsCollected, type: 'run_reward', reference: String(entry._id), session });
+      }
+      if (mode === 'daily' && user.dailyChallenge.attemptsSubmitted === 1) {
+        await recordTransaction({ walletAddress, amount: DAILY_CHALLENGE_REWARD, type: 'daily_reward', reference: challengeDate, session });
+      }
+      return true;
+    });
+    if (!claimed) {
+      res.status(400).json({ error: noRunError });
+      return;
     }
 
-    // Get rank
-    const rank = await Leaderboard.countDocuments({ score: { $gt: score } }) + 1;
+    // Get rank on the board the entry was posted to
+    const boardFilter = mode === 'daily' ? { mode, challengeDate } : CLASSIC_FILTER;
+    const rank = await Leaderboard.countDocuments({ ...boardFilter, score: { $gt: score } }) + 1;
 
     // Check if it's a top 5 score
     const isTopScore = rank <= 5;
@@ -185,8 +341,8 @@ router.get('/rank/:score', async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
-    const rank = await Leaderboard.countDocuments({ score: { $gt: score } }) + 1;
-    const total = await Leaderboard.countDocuments();
+    const rank = await Leaderboard.countDocuments({ ...CLASSIC_FILTER, score: { $gt: score } }) + 1;
+    const total = await Leaderboard.countDocuments(CLASSIC_FILTER);
     const isTopFive = rank <= 5;
 
     res.json({
@@ -207,14 +363,14 @@ router.get('/user/:address', async (req: AuthRequest, res: Response): Promise<vo
     const { address } = req.params;
     const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
 
-    const entries = await Leaderboard.find({ walletAddress: address.toLowerCase() })
+    const entries = await Leaderboard.find({ ...CLASSIC_FILTER, walletAddress: address.toLowerCase() })
       .sort({ score: -1, createdAt: -1 })
       .limit(limit)
       .select('score level gemsCollected distance createdAt');
 
     const bestScore = entries.length > 0 ? entries[0].score : 0;
     const bestRank = bestScore > 0 
-      ? await Leaderboard.countDocuments({ score: { $gt: bestScore } }) + 1 
+      ? await Leaderboard.countDocuments({ ...CLASSIC_FILTER, score: { $gt: bestScore } }) + 1 
       : null;
 
     res.json({
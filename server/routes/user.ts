@@ -1,6 +1,10 @@
 import { Router, Response } from 'express';
 import { User } from '../models';
 import { AuthRequest, verifyToken } from '../middleware/auth';
+import { ITEM_CATALOG, getCatalogItem, getPurchaseFilter, getPurchaseUpdate, isSoldOut } from '../utils/itemCatalog';
+import { recordTransaction } from '../utils/ledger';
+import { COSMETICS, getCosmetic, isCosmeticOwned } from '../../cosmetics';
+import { parseBindings } from '../../controls';
 
 const router = Router();
 
@@ -22,7 +26,10 @@ router.get('/profile', verifyToken, async (req: AuthRequest, res: Response): Pro
         highestScore: user.highestScore,
         totalGamesPlayed: user.totalGamesPlayed,
         totalGemsCollected: user.totalGemsCollected,
+        gems: user.gems,
         inventory: user.inventory,
+        cosmetics: user.cosmetics,
+        controls: user.controls,
         achievements: user.achievements,
         createdAt: user.createdAt,
         lastLogin: user.lastLogin,
@@ -34,57 +41,204 @@ router.get('/profile', verifyToken, async (req: AuthRequest, res: Response): Pro
   }
 });
 
-// PUT /api/user/inventory - Update user inventory (after purchases)
-router.put('/inventory', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+// GET /api/user/catalog - Permanent upgrades for sale and the player's gem balance
+router.get('/catalog', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { hasDoubleJump, hasImmortality, maxLives } = req.body;
+    const user = await User.findOne({ walletAddress: req.user?.walletAddress });
 
-    const updateFields: Record<string, unknown> = {};
-    
-    if (typeof hasDoubleJump === 'boolean') {
-      updateFields['inventory.hasDoubleJump'] = hasDoubleJump;
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({
+      gems: user.gems,
+      items: ITEM_CATALOG.map(item => ({
+        id: item.id,
+        name: item.name,
+        description: item.description,
+        cost: item.cost,
+        soldOut: isSoldOut(item, user.inventory),
+      })),
+    });
+  } catch (error) {
+    console.error('Get catalog error:', error);
+    res.status(500).json({ error: 'Failed to get catalog' });
+  }
+});
+
+// POST /api/user/purchase - Buy a permanent upgrade with gems
+router.post('/purchase', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const item = getCatalogItem(req.body.itemId);
+    if (!item) {
+      res.status(400).json({ error: 'Unknown item' });
+      return;
+    }
+
+    const user = await User.findOne({ walletAddress: req.user?.walletAddress });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
     }
-    if (typeof hasImmortality === 'boolean') {
-      updateFields['inventory.hasImmortality'] = hasImmortality;
+    if (isSoldOut(item, user.inventory)) {
+      res.status(400).json({ error: 'Item already owned' });
+      return;
     }
-    if (typeof maxLives === 'number' && maxLives >= 3 && maxLives <= 10) {
-      updateFields['inventory.maxLives'] = maxLives;
+    if (user.gems < item.cost) {
+      res.status(400).json({ error: 'Not enough gems' });
+      return;
     }
 
-    const user = await User.findOneAndUpdate(
-      { walletAddress: req.user?.walletAddress },
-      { $set: updateFields },
-      { new: true }
-    );
+    // Re-checked in the write so two purchases can't spend the same gems
+    const updated = await recordTransaction({
+      walletAddress: user.walletAddress,
+      amount: -item.cost,
+      type: 'purchase',
+      reference: item.id,
+      filter: getPurchaseFilter(item),
+      update: getPurchaseUpdate(item),
+    });
+
+    if (!updated) {
+      res.status(409).json({ error: 'Purchase conflicted with another update' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      gems: updated.gems,
+      inventory: updated.inventory,
+    });
+  } catch (error) {
+    console.error('Purchase error:', error);
+    res.status(500).json({ error: 'Failed to complete purchase' });
+  }
+});
+
+// GET /api/user/cosmetics - Every cosmetic with what the player owns and has equipped
+router.get('/cosmetics', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findOne({ walletAddress: req.user?.walletAddress });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({
+      gems: user.gems,
+      equipped: user.cosmetics.equipped,
+      items: COSMETICS.map(cosmetic => ({
+        id: cosmetic.id,
+        slot: cosmetic.slot,
+        name: cosmetic.name,
+        cost: cosmetic.cost,
+        achievement: cosmetic.achievement,
+        owned: isCosmeticOwned(cosmetic, user.cosmetics.owned),
+      })),
+    });
+  } catch (error) {
+    console.error('Get cosmetics error:', error);
+    res.status(500).json({ error: 'Failed to get cosmetics' });
+  }
+});
+
+// POST /api/user/cosmetics/purchase - Buy a cosmetic with gems
+router.post('/cosmetics/purchase', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const cosmetic = getCosmetic(req.body.cosmeticId);
+    if (!cosmetic || cosmetic.cost === undefined) {
+      res.status(400).json({ error: 'Cosmetic is not for sale' });
+      return;
+    }
+
+    const user = await User.findOne({ walletAddress: req.user?.walletAddress });
 
     if (!user) {
       res.status(404).json({ error: 'User not found' });
       return;
     }
+    if (isCosmeticOwned(cosmetic, user.cosmetics.owned)) {
+      res.status(400).json({ error: 'Cosmetic already owned' });
+      return;
+    }
+    if (user.gems < cosmetic.cost) {
+      res.status(400).json({ error: 'Not enough gems' });
+      return;
+    }
+
+    const updated = await recordTransaction({
+      walletAddress: user.walletAddress,
+      amount: -cosmetic.cost,
+      type: 'purchase',
+      reference: cosmetic.id,
+      filter: { 'cosmetics.owned': { $ne: cosmetic.id } },
+      update: { $addToSet: { 'cosmetics.owned': cosmetic.id } },
+    });
+
+    if (!updated) {
+      res.status(409).json({ error: 'Purchase conflicted with another update' });
+      return;
+    }
 
     res.json({
       success: true,
-      inventory: user.inventory,
+      gems: updated.gems,
+      cosmetics: updated.cosmetics,
     });
   } catch (error) {
-    console.error('Update inventory error:', error);
-    res.status(500).json({ error: 'Failed to update inventory' });
+    console.error('Cosmetic purchase error:', error);
+    res.status(500).json({ error: 'Failed to complete purchase' });
   }
 });
 
-// POST /api/user/achievement - Add achievement
-router.post('/achievement', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+// PUT /api/user/cosmetics/equip - Equip an owned cosmetic in its slot
+router.put('/cosmetics/equip', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { achievement } = req.body;
+    const cosmetic = getCosmetic(req.body.cosmeticId);
+    if (!cosmetic) {
+      res.status(400).json({ error: 'Unknown cosmetic' });
+      return;
+    }
+
+    const user = await User.findOne({ walletAddress: req.user?.walletAddress });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    if (!isCosmeticOwned(cosmetic, user.cosmetics.owned)) {
+      res.status(403).json({ error: 'Cosmetic not owned' });
+      return;
+    }
+
+    user.cosmetics.equipped[cosmetic.slot] = cosmetic.id;
+    await user.save();
 
-    if (!achievement || typeof achievement !== 'string') {
-      res.status(400).json({ error: 'Invalid achievement' });
+    res.json({
+      success: true,
+      cosmetics: user.cosmetics,
+    });
+  } catch (error) {
+    console.error('Equip cosmetic error:', error);
+    res.status(500).json({ error: 'Failed to equip cosmetic' });
+  }
+});
+
+// PUT /api/user/controls - Save the player's control bindings
+router.put('/controls', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const controls = parseBindings(req.body.controls);
+    if (!controls) {
+      res.status(400).json({ error: 'Invalid controls' });
       return;
     }
 
     const user = await User.findOneAndUpdate(
       { walletAddress: req.user?.walletAddress },
-      { $addToSet: { achievements: achievement } },
+      { $set: { controls } },
       { new: true }
     );
 
@@ -95,11 +249,11 @@ router.post('/achievement', verifyToken, async (req: AuthRequest, res: Response)
 
     res.json({
       success: true,
-      achievements: user.achievements,
+      controls: user.controls,
     });
   } catch (error) {
-    console.error('Add achievement error:', error);
-    res.status(500).json({ error: 'Failed to add achievement' });
+    console.error('Update controls error:', error);
+    res.status(500).json({ error: 'Failed to update controls' });
   }
 });
 
@@ -157,6 +311,7 @@ router.get('/history', verifyToken, async (req: AuthRequest, res: Response): Pro
         gemsCollected: game.gemsCollected,
         distance: game.distance,
         outcome: game.outcome,
+        stats: game.stats,
         playedAt: game.playedAt,
       }));
 
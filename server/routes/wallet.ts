@@ -0,0 +1,120 @@
+import { Router, Request, Response } from 'express';
+import { User, GemTransaction } from '../models';
+import { AuthRequest, verifyToken, verifyAdminKey } from '../middleware/auth';
+import { getLedgerBalance, recordTransaction } from '../utils/ledger';
+
+const router = Router();
+
+// GET /api/wallet - Get the player's gem balance
+router.get('/', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await User.findOne({ walletAddress: req.user?.walletAddress });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json({ balance: user.gems });
+  } catch (error) {
+    console.error('Get wallet error:', error);
+    res.status(500).json({ error: 'Failed to get wallet' });
+  }
+});
+
+// GET /api/wallet/transactions - Get the player's ledger, newest first
+router.get('/transactions', verifyToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const skip = (page - 1) * limit;
+    const filter = { walletAddress: req.user?.walletAddress };
+
+    const transactions = await GemTransaction.find(filter)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await GemTransaction.countDocuments(filter);
+
+    res.json({
+      transactions: transactions.map(tx => ({
+        id: tx._id,
+        amount: tx.amount,
+        type: tx.type,
+        reference: tx.reference,
+        balanceAfter: tx.balanceAfter,
+        createdAt: tx.createdAt,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get transactions error:', error);
+    res.status(500).json({ error: 'Failed to get transactions' });
+  }
+});
+
+// POST /api/wallet/grant - Credit (or claw back) gems for a player (admin only)
+router.post('/grant', verifyAdminKey, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { walletAddress, amount, reason } = req.body;
+
+    if (typeof walletAddress !== 'string' || typeof amount !== 'number' || !Number.isInteger(amount) || amount === 0) {
+      res.status(400).json({ error: 'Invalid grant' });
+      return;
+    }
+    if (typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'A reason is required' });
+      return;
+    }
+
+    const user = await recordTransaction({
+      walletAddress: walletAddress.toLowerCase(),
+      amount,
+      type: 'admin_grant',
+      reference: reason.trim().slice(0, 200),
+    });
+
+    if (!user) {
+      res.status(400).json({ error: 'User not found or balance too low' });
+      return;
+    }
+
+    res.json({ success: true, balance: user.gems });
+  } catch (error) {
+    console.error('Grant gems error:', error);
+    res.status(500).json({ error: 'Failed to grant gems' });
+  }
+});
+
+// GET /api/wallet/audit/:address - Compare the cached balance with the ledger (admin only)
+router.get('/audit/:address', verifyAdminKey, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const walletAddress = String(req.params.address).toLowerCase();
+    const user = await User.findOne({ walletAddress });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const ledgerBalance = await getLedgerBalance(walletAddress);
+
+    res.json({
+      walletAddress,
+      balance: user.gems,
+      ledgerBalance,
+      consistent: ledgerBalance === user.gems,
+    });
+  } catch (error) {
+    console.error('Audit wallet error:', error);
+    res.status(500).json({ error: 'Failed to audit wallet' });
+  }
+});
+
+export default router;
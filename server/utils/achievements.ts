@@ -0,0 +1,33 @@
+import { ReplayResult } from '../../simulation';
+import { IUser } from '../models/User';
+
+// Achievements are only awarded here, from a run whose replay the server has
+// verified. Both score submit routes use these rules.
+
+type VerifiedRun = Pick<ReplayResult, 'score' | 'level' | 'outcome' | 'stats'>;
+
+interface AchievementRule {
+  id: string;
+  // Checked after the run has been added to the player's totals
+  isEarned: (user: IUser, run: VerifiedRun) => boolean;
+}
+
+const ACHIEVEMENT_RULES: AchievementRule[] = [
+  { id: 'FIRST_RUN', isEarned: user => user.totalGamesPlayed === 1 },
+  { id: 'SCORE_10K', isEarned: (_, run) => run.score >= 10000 },
+  { id: 'SCORE_50K', isEarned: (_, run) => run.score >= 50000 },
+  { id: 'LEVEL_3', isEarned: (_, run) => run.level >= 3 },
+  { id: 'VICTORY', isEarned: (_, run) => run.outcome === 'victory' },
+  { id: 'DEDICATED_RUNNER', isEarned: user => user.totalGamesPlayed >= 10 },
+  { id: 'GEM_COLLECTOR', isEarned: user => user.totalGemsCollected >= 1000 },
+  { id: 'DAREDEVIL', isEarned: (_, run) => run.stats.nearMisses >= 10 },
+];
+
+// Adds the achievements `run` earned that `user` doesn't have yet and returns them
+export const awardAchievements = (user: IUser, run: VerifiedRun): string[] => {
+  const earned = ACHIEVEMENT_RULES
+    .filter(rule => !user.achievements.includes(rule.id) && rule.isEarned(user, run))
+    .map(rule => rule.id);
+  user.achievements.push(...earned);
+  return earned;
+};
@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import { ClientSession } from 'mongoose';
+import { RunReplay, SIM_STEP } from '../../simulation';
+import { User } from '../models';
+import { IActiveRun } from '../models/User';
+import { LeaderboardMode } from '../models/Leaderboard';
+import { getChallengeDate, getDailySeed } from './dailyChallenge';
+
+// A ranked run is opened by the server and submitted with the token it was
+// given. Each player has one open run: starting another replaces it and
+// submitting closes it, so a token is only ever scored once.
+
+export const createRunToken = (): string => crypto.randomBytes(16).toString('hex');
+
+// Opens a classic run on a fresh seed, never the day's challenge seed, in
+// place of any run the player left open. Returns null if there is no such player.
+export const openClassicRun = async (walletAddress: string): Promise<{ seed: number; token: string } | null> => {
+  const dailySeed = getDailySeed(getChallengeDate());
+  let seed: number;
+  do {
+    seed = crypto.randomBytes(4).readUInt32BE(0);
+  } while (seed === dailySeed);
+
+  const token = createRunToken();
+  const user = await User.findOneAndUpdate(
+    { walletAddress },
+    { $set: { activeRun: { token, mode: 'classic', seed, startedAt: new Date() } } }
+  );
+  return user ? { seed, token } : null;
+};
+
+// Matches the player whose open run `replay` is, unless the replay is longer
+// than the time since the run opened. The simulation never runs ahead of real
+// time, so that also means a player's replays can only be verified as fast as
+// they can be played.
+const getActiveRunFilter = (walletAddress: string, replay: RunReplay, mode: LeaderboardMode) => ({
+  walletAddress,
+  'activeRun.token': replay.token,
+  'activeRun.mode': mode,
+  'activeRun.seed': replay.seed,
+  'activeRun.startedAt': { $lte: new Date(Date.now() - replay.frames * SIM_STEP * 1000) },
+});
+
+// The player's open run if `replay` is that run, or null if there is no such
+// run, e.g. it was already submitted. Leaves the run open, so a replay that
+// fails verification doesn't use it up.
+export const findActiveRun = async (walletAddress: string, replay: RunReplay, mode: LeaderboardMode): Promise<IActiveRun | null> => {
+  if (!replay.token) return null;
+
+  const user = await User.findOne(getActiveRunFilter(walletAddress, replay, mode));
+  return user?.activeRun ?? null;
+};
+
+// Closes the open run `replay` belongs to once it has been verified, and
+// returns it. Null if it was closed or replaced since findActiveRun, so two
+// submits of the same run can't both be scored.
+export const claimActiveRun = async (
+  walletAddress: string, replay: RunReplay, mode: LeaderboardMode, session?: ClientSession
+): Promise<IActiveRun | null> => {
+  if (!replay.token) return null;
+
+  const user = await User.findOneAndUpdate(
+    getActiveRunFilter(walletAddress, replay, mode),
+    { $unset: { activeRun: 1 } },
+    { session }
+  );
+  return user?.activeRun ?? null;
+};
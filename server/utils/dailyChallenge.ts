@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+
+// Ranked Daily Challenge runs each player may start per UTC day
+export const MAX_DAILY_ATTEMPTS = 3;
+
+// Gems paid out for the first ranked run submitted each day
+export const DAILY_CHALLENGE_REWARD = 50;
+
+// UTC calendar day a challenge belongs to, e.g. "2025-01-31"
+export const getChallengeDate = (now: Date = new Date()): string => now.toISOString().slice(0, 10);
+
+export const isChallengeDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Seed shared by every player on `challengeDate`. Derived from a server secret
+// so upcoming tracks can't be generated ahead of time.
+export const getDailySeed = (challengeDate: string): number => {
+  const secret = process.env.DAILY_SEED_SECRET;
+
+  if (!secret) {
+    throw new Error('DAILY_SEED_SECRET is not defined');
+  }
+
+  return crypto.createHmac('sha256', secret).update(challengeDate).digest().readUInt32BE(0);
+};
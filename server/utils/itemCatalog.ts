@@ -0,0 +1,76 @@
+import { MAX_LOADOUT_LIVES } from '../../simulation';
+import { IUser } from '../models/User';
+
+// Permanent upgrades sold for gems outside of a run. Prices and limits live
+// here so the client can only ask to buy an item, never say what it costs.
+
+export type UpgradeId = 'DOUBLE_JUMP' | 'IMMORTAL' | 'MAX_LIFE';
+
+type Inventory = IUser['inventory'];
+
+interface CatalogItemBase {
+  id: UpgradeId;
+  name: string;
+  description: string;
+  cost: number; // Gems
+}
+
+// Bought once, sets a flag on the inventory
+interface UnlockItem extends CatalogItemBase {
+  kind: 'unlock';
+  field: 'hasDoubleJump' | 'hasImmortality';
+}
+
+// Bought repeatedly, adds one to a counter up to `max`
+interface StackItem extends CatalogItemBase {
+  kind: 'stack';
+  field: 'maxLives';
+  max: number;
+}
+
+export type CatalogItem = UnlockItem | StackItem;
+
+export const ITEM_CATALOG: CatalogItem[] = [
+  {
+    id: 'DOUBLE_JUMP',
+    name: 'DOUBLE JUMP',
+    description: 'Start every run able to jump again in mid-air.',
+    cost: 200,
+    kind: 'unlock',
+    field: 'hasDoubleJump',
+  },
+  {
+    id: 'IMMORTAL',
+    name: 'IMMORTALITY',
+    description: 'Start every run with the immortality ability.',
+    cost: 500,
+    kind: 'unlock',
+    field: 'hasImmortality',
+  },
+  {
+    id: 'MAX_LIFE',
+    name: 'EXTRA LIFE',
+    description: 'Start every run with one more life.',
+    cost: 300,
+    kind: 'stack',
+    field: 'maxLives',
+    max: MAX_LOADOUT_LIVES,
+  },
+];
+
+export const getCatalogItem = (id: unknown): CatalogItem | undefined =>
+  ITEM_CATALOG.find(item => item.id === id);
+
+// Whether the player already has all of `item` there is to buy
+export const isSoldOut = (item: CatalogItem, inventory: Inventory): boolean =>
+  item.kind === 'unlock' ? inventory[item.field] : inventory[item.field] >= item.max;
+
+// Condition for the purchase write, so it only lands if the item is still for sale
+export const getPurchaseFilter = (item: CatalogItem): Record<string, unknown> => ({
+  [`inventory.${item.field}`]: item.kind === 'unlock' ? { $ne: true } : { $lt: item.max },
+});
+
+export const getPurchaseUpdate = (item: CatalogItem) =>
+  item.kind === 'unlock'
+    ? { $set: { [`inventory.${item.field}`]: true } }
+    : { $inc: { [`inventory.${item.field}`]: 1 } };
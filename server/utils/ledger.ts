@@ -0,0 +1,50 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { User, GemTransaction } from '../models';
+import { IUser } from '../models/User';
+import { GemTransactionType } from '../models/GemTransaction';
+
+// Every change to a gem balance goes through here: the user's cached balance
+// is moved in one conditional write and the change is appended to the ledger,
+// both in one transaction so neither can land without the other. Transactions
+// need MongoDB running as a replica set (Atlas always does).
+
+interface TransactionRequest {
+  walletAddress: string;
+  amount: number; // Positive credits, negative debits
+  type: GemTransactionType;
+  reference?: string;
+  // Extra conditions and changes for the same write, e.g. what a purchase grants
+  filter?: Record<string, unknown>;
+  update?: { $set?: Record<string, unknown>; $inc?: Record<string, number>; $addToSet?: Record<string, unknown> };
+  session?: ClientSession; // Joins the caller's transaction instead of opening one
+}
+
+const applyTransaction = async (request: TransactionRequest, session: ClientSession): Promise<IUser | null> => {
+  const { walletAddress, amount, type, reference, filter = {}, update = {} } = request;
+
+  const user = await User.findOneAndUpdate(
+    { walletAddress, ...filter, ...(amount < 0 ? { gems: { $gte: -amount } } : {}) },
+    { ...update, $inc: { ...update.$inc, gems: amount } },
+    { new: true, session }
+  );
+  if (!user) return null;
+
+  await GemTransaction.create([{ walletAddress, amount, type, reference, balanceAfter: user.gems }], { session });
+  return user;
+};
+
+// Applies the transaction and returns the updated user, or null if the user
+// doesn't exist, can't cover a debit or no longer matches `filter`
+export const recordTransaction = async (request: TransactionRequest): Promise<IUser | null> =>
+  request.session
+    ? applyTransaction(request, request.session)
+    : mongoose.connection.transaction(session => applyTransaction(request, session));
+
+// Balance recomputed from the ledger alone, to audit the cached one against
+export const getLedgerBalance = async (walletAddress: string): Promise<number> => {
+  const [result] = await GemTransaction.aggregate<{ total: number }>([
+    { $match: { walletAddress } },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+  return result?.total ?? 0;
+};
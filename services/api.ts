@@ -1,4 +1,8 @@
 // API Service for BaseRunner
+import type { RunReplay } from '../simulation';
+import type { CosmeticSlot, EquippedCosmetics } from '../cosmetics';
+import type { ControlBindings } from '../controls';
+
 // Use relative /api path for Vercel serverless functions, or full URL for local development
 // Detect production by checking if we're NOT on localhost
 const isProduction = typeof window !== 'undefined' && 
@@ -140,10 +144,47 @@ class ApiService {
   async getTopLeaderboard() {
     const endpoint = isProduction ? '/leaderboard?action=top' : '/leaderboard/top';
     return this.request<{
-      entries: { rank: number; name: string; score: number; date: number }[];
+      entries: { rank: number; name: string; score: number; date: number; verified: boolean; cosmetics?: EquippedCosmetics }[];
+    }>(endpoint);
+  }
+
+  async getDailyChallenge() {
+    const endpoint = isProduction ? '/leaderboard?action=daily' : '/leaderboard/daily';
+    return this.request<{
+      date: string;
+      seed: number | null;
+      maxAttempts: number;
+      attemptsUsed: number | null;
+      entries: { rank: number; name: string; score: number; date: number; verified: boolean; cosmetics?: EquippedCosmetics }[];
     }>(endpoint);
   }
 
+  // Ranked classic runs are played on a seed the server picks
+  async startRun() {
+    const endpoint = isProduction ? '/leaderboard?action=run-start' : '/leaderboard/run/start';
+    return this.request<{
+      success: boolean;
+      seed: number;
+      token: string; // Goes in the run's replay
+    }>(endpoint, {
+      method: 'POST',
+    });
+  }
+
+  async startDailyAttempt() {
+    const endpoint = isProduction ? '/leaderboard?action=daily-start' : '/leaderboard/daily/start';
+    return this.request<{
+      success: boolean;
+      date: string;
+      seed: number;
+      token: string; // Goes in the run's replay
+      maxAttempts: number;
+      attemptsUsed: number;
+    }>(endpoint, {
+      method: 'POST',
+    });
+  }
+
   async submitScore(data: {
     score: number;
     level: number;
@@ -151,6 +192,8 @@ class ApiService {
     distance: number;
     username?: string;
     outcome?: 'game_over' | 'victory';
+    mode?: 'classic' | 'daily';
+    replay: RunReplay;
   }) {
     const endpoint = isProduction ? '/leaderboard' : '/leaderboard/submit';
     return this.request<{
@@ -192,34 +235,92 @@ class ApiService {
     return this.request<{ profile: UserData }>('/user/profile');
   }
 
-  async updateInventory(inventory: {
-    hasDoubleJump?: boolean;
-    hasImmortality?: boolean;
-    maxLives?: number;
-  }) {
+  async getUpgradeCatalog() {
+    const endpoint = isProduction ? '/user?action=catalog' : '/user/catalog';
+    return this.request<{
+      gems: number;
+      items: UpgradeOffer[];
+    }>(endpoint);
+  }
+
+  // The server prices the item and charges the gem balance
+  async purchaseUpgrade(itemId: string) {
+    const endpoint = isProduction ? '/user?action=purchase' : '/user/purchase';
     return this.request<{
       success: boolean;
-      inventory: {
-        hasDoubleJump: boolean;
-        hasImmortality: boolean;
-        maxLives: number;
-      };
-    }>('/user/inventory', {
-      method: 'PUT',
-      body: JSON.stringify(inventory),
+      gems: number;
+      inventory: UserData['inventory'];
+    }>(endpoint, {
+      method: 'POST',
+      body: JSON.stringify({ itemId }),
     });
   }
 
-  async addAchievement(achievement: string) {
+  // Cosmetic endpoints
+  async getCosmetics() {
+    const endpoint = isProduction ? '/user?action=cosmetics' : '/user/cosmetics';
+    return this.request<{
+      gems: number;
+      equipped: EquippedCosmetics;
+      items: CosmeticOffer[];
+    }>(endpoint);
+  }
+
+  async purchaseCosmetic(cosmeticId: string) {
+    const endpoint = isProduction ? '/user?action=cosmetics-purchase' : '/user/cosmetics/purchase';
     return this.request<{
       success: boolean;
-      achievements: string[];
-    }>('/user/achievement', {
+      gems: number;
+      cosmetics: UserData['cosmetics'];
+    }>(endpoint, {
       method: 'POST',
-      body: JSON.stringify({ achievement }),
+      body: JSON.stringify({ cosmeticId }),
+    });
+  }
+
+  async equipCosmetic(cosmeticId: string) {
+    const endpoint = isProduction ? '/user?action=cosmetics-equip' : '/user/cosmetics/equip';
+    return this.request<{
+      success: boolean;
+      cosmetics: UserData['cosmetics'];
+    }>(endpoint, {
+      method: 'PUT',
+      body: JSON.stringify({ cosmeticId }),
+    });
+  }
+
+  // Control bindings, saved on the player's profile
+  async updateControls(controls: ControlBindings) {
+    const endpoint = isProduction ? '/user?action=controls' : '/user/controls';
+    return this.request<{
+      success: boolean;
+      controls: ControlBindings;
+    }>(endpoint, {
+      method: 'PUT',
+      body: JSON.stringify({ controls }),
     });
   }
 
+  // Wallet endpoints
+  async getWallet() {
+    return this.request<{ balance: number }>('/wallet');
+  }
+
+  async getGemTransactions(page = 1, limit = 20) {
+    const endpoint = isProduction
+      ? `/wallet?action=transactions&page=${page}&limit=${limit}`
+      : `/wallet/transactions?page=${page}&limit=${limit}`;
+    return this.request<{
+      transactions: GemTransaction[];
+      pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        totalPages: number;
+      };
+    }>(endpoint);
+  }
+
   async getUserStats() {
     return this.request<{
       stats: {
@@ -293,16 +394,49 @@ export interface UserData {
   highestScore: number;
   totalGamesPlayed: number;
   totalGemsCollected: number;
+  gems: number;
   inventory: {
     hasDoubleJump: boolean;
     hasImmortality: boolean;
     maxLives: number;
   };
+  cosmetics: {
+    owned: string[];
+    equipped: EquippedCosmetics;
+  };
+  controls?: ControlBindings;
   achievements: string[];
   createdAt?: string;
   lastLogin?: string;
 }
 
+// Permanent upgrade as listed by the server's catalog
+export interface UpgradeOffer {
+  id: string;
+  name: string;
+  description: string;
+  cost: number; // Gems
+  soldOut: boolean;
+}
+
+export interface CosmeticOffer {
+  id: string;
+  slot: CosmeticSlot;
+  name: string;
+  cost?: number; // Gems
+  achievement?: string; // Earned instead of bought
+  owned: boolean;
+}
+
+export interface GemTransaction {
+  id: string;
+  amount: number;
+  type: 'run_reward' | 'purchase' | 'daily_reward' | 'admin_grant';
+  reference?: string;
+  balanceAfter: number;
+  createdAt: string;
+}
+
 export interface LeaderboardEntry {
   rank: number;
   username: string;
@@ -311,6 +445,8 @@ export interface LeaderboardEntry {
   gemsCollected: number;
   distance: number;
   walletAddress: string;
+  verified: boolean;
+  cosmetics?: EquippedCosmetics;
   createdAt: string;
 }
 
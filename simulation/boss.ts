@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, GameStatus, ObjectType, LANE_WIDTH } from '../types';
+import { SimEvent, SimState } from './types';
+import {
+  BOSS_DEFEAT_BONUS, BOSS_ENTRY_SPEED, BOSS_ENTRY_Z, BOSS_HEIGHT, BOSS_HOVER_Z, BOSS_WEAK_POINT_HEIGHT,
+  BOSS_WEAK_POINT_INTERVAL, PHRASE_LETTERS,
+  getBossAttackInterval, getLevelLetterIndices
+} from './constants';
+import { getLevelConfig } from './levels';
+import { addScore, advanceLevel, collectGem, collectLetter, createObject } from './run';
+import { getLanes, lerp } from './utils';
+
+// Boss encounters: a mothership hovers ahead of the player, attacks in phases
+// and ejects weak points. Each weak point hit drops one of the level's letters;
+// hitting them all destroys the boss and ends the level.
+
+// 0 at full health, 2 on the last weak point
+const getBossPhase = (health: number, maxHealth: number) => Math.min(2, Math.floor((1 - health / maxHealth) * 3));
+
+export const isBossDefeated = (state: SimState) => state.boss !== null && state.boss.health <= 0;
+
+export const startBoss = (state: SimState, events: SimEvent[]) => {
+  const { type, health } = getLevelConfig(state.level).boss!;
+  state.boss = {
+    type,
+    health,
+    maxHealth: health,
+    position: [0, BOSS_HEIGHT, BOSS_ENTRY_Z],
+    nextAttackTime: 0, // Set once it reaches its hover position
+    nextWeakPointTime: 0,
+    attacksFired: 0,
+  };
+  events.push({ type: 'boss-start' });
+};
+
+// Ends the current level. On levels with a boss it turns up instead, and the
+// level only advances once it has been destroyed. Returns true if the level advanced.
+export const completeLevel = (state: SimState, events: SimEvent[]): boolean => {
+  if (getLevelConfig(state.level).boss && !isBossDefeated(state)) {
+    if (!state.boss) startBoss(state, events);
+    return false;
+  }
+  advanceLevel(state, events);
+  return true;
+};
+
+const createMissile = (state: SimState, x: number, z: number) => createObject(state, {
+  type: ObjectType.MISSILE,
+  position: [x, 1.0, z],
+  active: true,
+  color: '#ff00ff'
+});
+
+// Missiles down every lane but one
+const fireVolley = (state: SimState, z: number, objects: GameObject[]) => {
+  const lanes = getLanes(state.laneCount);
+  const safeLane = state.rng.pick(lanes);
+  for (const lane of lanes) {
+    if (lane !== safeLane) objects.push(createMissile(state, lane * LANE_WIDTH, z));
+  }
+};
+
+// A row of turrets in alternating lanes, each firing down its own lane
+const deployTurrets = (state: SimState, z: number, objects: GameObject[]) => {
+  const offset = state.rng.int(0, 1);
+  getLanes(state.laneCount).forEach((lane, i) => {
+    if ((i + offset) % 2 !== 0) return;
+    objects.push(createObject(state, {
+      type: ObjectType.TURRET,
+      position: [lane * LANE_WIDTH, 0.2, z],
+      active: true,
+      color: '#666666',
+      hasFired: false
+    }));
+  });
+};
+
+// Staggered missiles that sweep across the track one lane at a time
+const fireSweep = (state: SimState, z: number, objects: GameObject[]) => {
+  const lanes = getLanes(state.laneCount);
+  if (state.rng.next() > 0.5) lanes.reverse();
+  lanes.forEach((lane, i) => objects.push(createMissile(state, lane * LANE_WIDTH, z - i * 8)));
+};
+
+// Moves the boss and appends its attacks and weak points to `objects`.
+// Returns true if anything was spawned.
+export const updateBoss = (state: SimState, objects: GameObject[], dt: number, events: SimEvent[]): boolean => {
+  const boss = state.boss;
+  if (!boss || boss.health <= 0) return false;
+
+  // Fly in, then start the attack cycle
+  if (boss.position[2] < BOSS_HOVER_Z) {
+    boss.position[2] = Math.min(boss.position[2] + BOSS_ENTRY_SPEED * dt, BOSS_HOVER_Z);
+    if (boss.position[2] === BOSS_HOVER_Z) {
+      boss.nextAttackTime = state.clock.time + 1;
+      boss.nextWeakPointTime = state.clock.time + BOSS_WEAK_POINT_INTERVAL / 2;
+    }
+    return false;
+  }
+
+  // Drift over the player's lane
+  const maxX = Math.floor(state.laneCount / 2) * LANE_WIDTH;
+  boss.position[0] = Math.max(-maxX, Math.min(maxX, lerp(boss.position[0], state.player.x, dt * 0.8)));
+
+  const z = boss.position[2] + 5;
+  let spawned = false;
+
+  if (state.clock.time >= boss.nextAttackTime) {
+    const phase = getBossPhase(boss.health, boss.maxHealth);
+    const pattern = boss.attacksFired % (phase + 1);
+    if (pattern === 0) fireVolley(state, z, objects);
+    else if (pattern === 1) deployTurrets(state, z, objects);
+    else fireSweep(state, z, objects);
+
+    boss.attacksFired += 1;
+    boss.nextAttackTime = state.clock.time + getBossAttackInterval(phase);
+    events.push({ type: 'fire', objectType: ObjectType.MISSILE, position: [...boss.position] });
+    spawned = true;
+  }
+
+  if (state.clock.time >= boss.nextWeakPointTime) {
+    const lane = Math.round(boss.position[0] / LANE_WIDTH);
+    objects.push(createObject(state, {
+      type: ObjectType.WEAK_POINT,
+      position: [lane * LANE_WIDTH, BOSS_WEAK_POINT_HEIGHT, z],
+      active: true,
+      color: '#ffee00'
+    }));
+    boss.nextWeakPointTime = state.clock.time + BOSS_WEAK_POINT_INTERVAL;
+    spawned = true;
+  }
+
+  return spawned;
+};
+
+// Damages the boss when the player hits one of its weak points, dropping a
+// letter (or a gem once the level's letters are all out) into `objects`. The
+// hit that destroys the boss ends the level, which would clear the drop off the
+// track, so that one is collected straight away instead.
+// Returns true if this destroyed the boss and the run goes on.
+export const hitBoss = (state: SimState, weakPoint: GameObject, objects: GameObject[], events: SimEvent[]): boolean => {
+  const boss = state.boss;
+  if (!boss || boss.health <= 0) return false;
+
+  boss.health -= 1;
+  const defeated = boss.health <= 0;
+  events.push({ type: 'boss-hit', health: boss.health, position: [...weakPoint.position] });
+
+  const onTrack = new Set(state.objects.map(o => o.type === ObjectType.LETTER ? o.targetIndex : undefined));
+  const letters = getLevelLetterIndices(state.level, state.collectedLetters).filter(i => !onTrack.has(i));
+  const dropPosition: [number, number, number] = [weakPoint.position[0], 1.0, weakPoint.position[2] - 25];
+
+  if (letters.length > 0) {
+    const index = state.rng.pick(letters);
+    if (defeated) {
+      collectLetter(state, index, events);
+    } else {
+      objects.push(createObject(state, {
+        type: ObjectType.LETTER,
+        position: dropPosition,
+        active: true,
+        color: '#ffee00',
+        value: PHRASE_LETTERS[index],
+        targetIndex: index
+      }));
+    }
+  } else {
+    const points = getLevelConfig(state.level).gemBonusValue;
+    if (defeated) {
+      collectGem(state, points, events);
+    } else {
+      objects.push(createObject(state, {
+        type: ObjectType.GEM,
+        position: [dropPosition[0], 1.2, dropPosition[2]],
+        active: true,
+        color: '#ffd700',
+        points
+      }));
+    }
+  }
+
+  if (!defeated) return false;
+
+  addScore(state, BOSS_DEFEAT_BONUS * state.level);
+  events.push({ type: 'boss-defeated', position: [...boss.position] });
+  return state.status === GameStatus.PLAYING; // The last letter may have won the run
+};
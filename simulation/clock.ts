@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Run-scoped game clock. It only moves when the simulation steps, so timed
+// effects hold still while the run is paused or in the shop, follow the same
+// clamped step as everything else and come out the same in a replay.
+
+export type TimerName = 'magnet' | 'shield' | 'speedBoost' | 'immortality' | 'slide' | 'invincible' | 'combo' | 'jumpBuffer' | 'coyote';
+
+export interface Timer {
+  endTime: number; // Clock time the effect runs out
+  duration: number;
+}
+
+export interface GameClock {
+  time: number; // Seconds of simulated run time
+  timers: Partial<Record<TimerName, Timer>>;
+}
+
+export const createClock = (): GameClock => ({ time: 0, timers: {} });
+
+// Moves the clock on by `dt` and returns the timers that ran out during the step
+export const advanceClock = (clock: GameClock, dt: number): TimerName[] => {
+  clock.time += dt;
+  const expired: TimerName[] = [];
+  for (const [name, timer] of Object.entries(clock.timers) as [TimerName, Timer][]) {
+    if (clock.time >= timer.endTime) {
+      delete clock.timers[name];
+      expired.push(name);
+    }
+  }
+  return expired;
+};
+
+// Starts `name`, replacing any time it had left
+export const startTimer = (clock: GameClock, name: TimerName, duration: number) => {
+  clock.timers[name] = { endTime: clock.time + duration, duration };
+};
+
+export const cancelTimer = (clock: GameClock, name: TimerName) => {
+  delete clock.timers[name];
+};
+
+export const isTimerActive = (clock: GameClock, name: TimerName) => {
+  const timer = clock.timers[name];
+  return timer !== undefined && clock.time < timer.endTime;
+};
+
+// Seconds left on `name`, 0 if it is not running
+export const getTimeRemaining = (clock: GameClock, name: TimerName) => {
+  const timer = clock.timers[name];
+  return timer ? Math.max(0, timer.endTime - clock.time) : 0;
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { Hitbox } from './types';
+import { PLAYER_DEPTH, PLAYER_HEIGHT, PLAYER_WIDTH, SLIDE_HEIGHT } from './constants';
+
+// Swept box collision. Objects can cover several metres in one step at high
+// speed, so instead of testing where things ended up, each object's box is
+// swept along its movement relative to the player and the first moment of
+// overlap is found. Nothing can pass through the player between steps.
+
+export type Vec3 = [number, number, number];
+
+export interface Bounds {
+  min: Vec3;
+  max: Vec3;
+}
+
+export const X_AXIS = 0;
+export const Y_AXIS = 1;
+export const Z_AXIS = 2;
+const ALL_AXES = [X_AXIS, Y_AXIS, Z_AXIS];
+
+// World-space box of `hitbox` on an object at `position`
+export const getObjectBounds = (hitbox: Hitbox, position: Vec3): Bounds => {
+  const base = hitbox.anchor === 'object' ? position[1] : 0;
+  return {
+    min: [position[0] - hitbox.width / 2, base + hitbox.bottom, position[2] - hitbox.depth / 2],
+    max: [position[0] + hitbox.width / 2, base + hitbox.top, position[2] + hitbox.depth / 2],
+  };
+};
+
+// The player stands at z = 0; sliding lowers the top of the box
+export const getPlayerBounds = (x: number, y: number, sliding: boolean): Bounds => ({
+  min: [x - PLAYER_WIDTH / 2, y, -PLAYER_DEPTH / 2],
+  max: [x + PLAYER_WIDTH / 2, y + (sliding ? SLIDE_HEIGHT : PLAYER_HEIGHT), PLAYER_DEPTH / 2],
+});
+
+// Vertical extent of `hitbox` on an object at `position`, used for the
+// jump-over and slide-under checks
+export const getVerticalBounds = (hitbox: Hitbox, position: Vec3): [number, number] => {
+  const bounds = getObjectBounds(hitbox, position);
+  return [bounds.min[1], bounds.max[1]];
+};
+
+export const overlapsOnAxis = (a: Bounds, b: Bounds, axis: number) =>
+  a.min[axis] < b.max[axis] && a.max[axis] > b.min[axis];
+
+// Moves `moving` by `delta` over the step and returns the fraction of the step
+// (0-1) at which it first overlaps `target`, or null if it never does. Only
+// `axes` are tested, so a z-only sweep asks whether it passed the target's depth.
+export const sweepBounds = (moving: Bounds, delta: Vec3, target: Bounds, axes: number[] = ALL_AXES): number | null => {
+  let enter = 0;
+  let exit = 1;
+
+  for (const axis of axes) {
+    // Offsets along this axis between which the two boxes overlap
+    const from = target.min[axis] - moving.max[axis];
+    const to = target.max[axis] - moving.min[axis];
+    const d = delta[axis];
+
+    if (d === 0) {
+      if (from >= 0 || to <= 0) return null;
+      continue;
+    }
+    const t0 = from / d;
+    const t1 = to / d;
+    enter = Math.max(enter, Math.min(t0, t1));
+    exit = Math.min(exit, Math.max(t0, t1));
+    if (enter >= exit) return null;
+  }
+  return enter;
+};
+
+export const lerpPosition = (from: Vec3, to: Vec3, t: number): Vec3 => [
+  from[0] + (to[0] - from[0]) * t,
+  from[1] + (to[1] - from[1]) * t,
+  from[2] + (to[2] - from[2]) * t,
+];
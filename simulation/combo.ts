@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { SimEvent, SimState } from './types';
+import { COMBO_DECAY_TIME, COMBO_MAX_MULTIPLIER, COMBO_PICKUPS_PER_STEP } from './constants';
+import { cancelTimer, startTimer } from './clock';
+
+// Combo meter: consecutive pickups raise a score multiplier one step every
+// COMBO_PICKUPS_PER_STEP pickups, up to COMBO_MAX_MULTIPLIER. Going
+// COMBO_DECAY_TIME without a pickup drops it a step; taking damage or letting
+// a gem go by resets it.
+
+export const getComboMultiplier = (state: SimState) =>
+  Math.min(COMBO_MAX_MULTIPLIER, 1 + Math.floor(state.combo / COMBO_PICKUPS_PER_STEP));
+
+export const extendCombo = (state: SimState, events: SimEvent[]) => {
+  const previous = getComboMultiplier(state);
+  state.combo += 1;
+  state.stats.maxCombo = Math.max(state.stats.maxCombo, state.combo);
+  startTimer(state.clock, 'combo', COMBO_DECAY_TIME);
+
+  const multiplier = getComboMultiplier(state);
+  if (multiplier !== previous) events.push({ type: 'combo', combo: state.combo, multiplier });
+};
+
+export const breakCombo = (state: SimState, events: SimEvent[]) => {
+  if (state.combo === 0) return;
+  events.push({ type: 'combo-break', combo: state.combo });
+  state.combo = 0;
+  cancelTimer(state.clock, 'combo');
+};
+
+// Called when the decay timer runs out: back to the start of the step below
+export const decayCombo = (state: SimState, events: SimEvent[]) => {
+  const multiplier = getComboMultiplier(state);
+  state.combo = Math.max(0, (multiplier - 2) * COMBO_PICKUPS_PER_STEP);
+  if (state.combo > 0) startTimer(state.clock, 'combo', COMBO_DECAY_TIME);
+  events.push({ type: 'combo-decay', combo: state.combo, multiplier: getComboMultiplier(state) });
+};
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { RUN_SPEED_BASE } from '../types';
+import { RunLoadout } from './types';
+
+// The full phrase to collect across all levels
+// "GEMINI IS THE QUICK BROWN FOX THAT JUMPS OVER THE LAZY AI DOG"
+const FULL_PHRASE = "GEMINI IS THE QUICK BROWN FOX THAT JUMPS OVER THE LAZY AI DOG";
+export const PHRASE_LETTERS = FULL_PHRASE.split('').filter(c => c !== ' '); // Remove spaces
+
+// Each level requires collecting a portion of the phrase
+export const LETTERS_PER_LEVEL = 6; // Collect 6 letters per level
+export const MAX_LEVEL = 30; // 30 levels for extended gameplay
+
+// Run setup
+export const STARTING_LIVES = 3;
+export const MAX_LANES = 9;
+export const MAX_LOADOUT_LIVES = 10; // Cap on lives bought as permanent upgrades
+export const DEFAULT_LOADOUT: RunLoadout = { hasDoubleJump: false, hasImmortality: false, maxLives: STARTING_LIVES };
+
+// Timed effects (seconds of simulated time)
+export const POWERUP_DURATION = 10;
+export const IMMORTALITY_DURATION = 5;
+export const HIT_INVINCIBILITY_DURATION = 1.5; // Grace period after taking damage
+export const SPEED_BOOST_DURATION = 4;
+
+// Speed Constants
+export const START_SPEED = RUN_SPEED_BASE * 0.5; // Start at 50%
+export const SPEED_BOOST_MULTIPLIER = 1.6;
+const SPEED_INCREMENT_PER_100 = 0.08; // 8% increase per 100 points (slightly reduced for longer game)
+
+// Scoring
+export const LEVEL_BONUS_BASE = 500; // Level completion bonus (increases per level)
+export const LETTER_POINTS = 100;
+export const VICTORY_BONUS = 10000;
+
+// Near misses: passing this close to a damage source without being hit
+export const NEAR_MISS_DISTANCE = 1.6; // Horizontal, between centers (hits are under 0.9)
+export const NEAR_MISS_CLEARANCE = 0.3; // Vertical, clearing it with a jump
+export const NEAR_MISS_POINTS = 25;
+
+// Combo meter
+export const COMBO_PICKUPS_PER_STEP = 5; // Pickups needed to raise the multiplier by one
+export const COMBO_MAX_MULTIPLIER = 8;
+export const COMBO_DECAY_TIME = 3; // Seconds without a pickup before the multiplier drops a step
+
+// Shop (prices are in spendable score, items are in shopItems.json)
+export const SHOP_OFFER_SIZE = 3;
+export const SHOP_PRICE_GROWTH = 0.1; // Added to the price multiplier per level
+export const SHOP_REROLL_COST = 250; // Before level scaling, doubles with each reroll in a visit
+export const SHOP_REROLL = 'REROLL'; // Replay entry for a paid reroll
+export const SHOP_SEED_SALT = 0x5bd1e995; // Mixed into the run seed for the shop's random stream
+
+// Player Physics
+export const GRAVITY = 50;
+export const JUMP_FORCE = 16;
+export const JUMP_PAD_FORCE = 26; // Launch velocity from a jump pad (clears gates and clusters)
+export const LANE_CHANGE_RATE = 15; // Lerp factor for sliding between lanes
+export const PLAYER_HEIGHT = 1.8;
+export const PLAYER_WIDTH = 0.8; // Hitbox x extent
+export const PLAYER_DEPTH = 1; // Hitbox z extent
+export const SLIDE_HEIGHT = 0.9; // Hitbox height while sliding
+export const SLIDE_DURATION = 0.7;
+
+// World
+export const OBSTACLE_HEIGHT = 1.6;
+export const GAP_LENGTH = 6; // Short enough to clear with a single jump
+export const FALL_DEPTH = -6; // How far the player drops into a gap before losing a life
+export const MISSILE_SPEED = 30; // Extra speed added to world speed
+export const MAX_STEP = 0.05; // Largest dt a single step will integrate
+export const SIM_RATE = 120; // Steps per second, whatever the display's frame rate
+export const SIM_STEP = 1 / SIM_RATE; // Fixed step used for live play and replays
+
+// Bosses (which levels have one is set in levels.json)
+export const BOSS_HOVER_Z = -60; // Distance the boss keeps ahead of the player
+export const BOSS_ENTRY_Z = -160;
+export const BOSS_HEIGHT = 7;
+export const BOSS_ENTRY_SPEED = 40;
+export const BOSS_WEAK_POINT_INTERVAL = 4; // Seconds between ejected weak points
+export const BOSS_WEAK_POINT_HEIGHT = 3.2; // Out of reach without a jump
+export const BOSS_DEFEAT_BONUS = 300; // Multiplied by the level
+
+// Seconds between attacks, shortening as the boss takes damage
+export const getBossAttackInterval = (phase: number) => 2.5 - phase * 0.4;
+
+// Helper to calculate speed based on total points earned
+export const calculateSpeed = (totalScore: number) => {
+    const increments = Math.floor(totalScore / 100);
+    return START_SPEED * (1 + (increments * SPEED_INCREMENT_PER_100));
+};
+
+// Helper function to get which letters need to be collected for a given level
+// Returns indices into PHRASE_LETTERS that are NOT yet collected
+// Includes: 1) Letters assigned to this level 2) Carryover from previous levels
+export const getLevelLetterIndices = (level: number, collectedLetters: number[]): number[] => {
+  // Calculate the range of letters for this level
+  const levelStartIndex = (level - 1) * LETTERS_PER_LEVEL;
+  const levelEndIndex = Math.min(levelStartIndex + LETTERS_PER_LEVEL, PHRASE_LETTERS.length);
+
+  // Get letters from all levels up to and including current level that aren't collected
+  const availableIndices: number[] = [];
+  for (let i = 0; i < levelEndIndex; i++) {
+    if (!collectedLetters.includes(i)) {
+      availableIndices.push(i);
+    }
+  }
+  return availableIndices;
+};
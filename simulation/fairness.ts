@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, ObjectType, LANE_WIDTH } from '../types';
+import { Hitbox, LaneMove, SafeCorridorRow, SimState } from './types';
+import { GRAVITY, JUMP_FORCE, LANE_CHANGE_RATE, MISSILE_SPEED, PLAYER_DEPTH, PLAYER_WIDTH, SLIDE_HEIGHT } from './constants';
+import { getCurrentSpeed } from './run';
+import { DAMAGE_SOURCES, getObjectHitbox, getObjectRule } from './objects';
+import { getObjectBounds, getVerticalBounds } from './collision';
+import { getLanes } from './utils';
+
+// Fairness check for the spawner: walks the hazards ahead of the player in the
+// order they arrive and works out which lanes can still be reached in time,
+// using the lane-change rate, the jump arc and the slide. Rows that leave no
+// lane open are thinned (or, for authored segments, dropped and rerolled).
+
+const JUMP_PEAK = (JUMP_FORCE * JUMP_FORCE) / (2 * GRAVITY);
+const LANE_SHIFT_TIME = Math.log(20) / LANE_CHANGE_RATE; // 95% of the way to the next lane
+const ROW_MERGE_DISTANCE = 1; // Hazards closer than this arrive as one row
+
+interface Hazard {
+  distance: number; // How far ahead the player meets it
+  lanes: number[];
+  bottom: number;
+  top: number;
+  depth: number; // z extent the player has to clear
+  isNew: boolean;
+}
+
+// Seconds the player can stay above `height` in one jump (a double jump is
+// counted as a single jump twice as high, which undersells it slightly)
+const timeAbove = (height: number, doubleJump: boolean) => {
+  const peak = doubleJump ? JUMP_PEAK * 2 : JUMP_PEAK;
+  return height < peak ? 2 * Math.sqrt((2 * (peak - height)) / GRAVITY) : 0;
+};
+
+const riseTime = (height: number) =>
+  height <= 0 ? 0 : (JUMP_FORCE - Math.sqrt(Math.max(0, JUMP_FORCE * JUMP_FORCE - 2 * GRAVITY * height))) / GRAVITY;
+
+const fallTime = (height: number) => Math.sqrt((2 * Math.max(height, 0)) / GRAVITY);
+
+const laneOf = (x: number, maxLane: number) => Math.max(-maxLane, Math.min(maxLane, Math.round(x / LANE_WIDTH)));
+
+// Where a side-to-side barrier will be when it reaches the player
+const predictBarrierX = (obj: GameObject, time: number, maxX: number) => {
+  if (maxX <= 0) return 0;
+  const span = maxX * 2;
+  const travelled = (obj.position[0] + maxX) + (obj.moveDirection || 1) * (obj.moveSpeed || 3) * time;
+  const wrapped = ((travelled % (span * 2)) + span * 2) % (span * 2);
+  return (wrapped <= span ? wrapped : span * 2 - wrapped) - maxX;
+};
+
+// z distance over which a hitbox is in contact with the player as it passes
+const getCollisionDepth = (hitbox: Hitbox | null) => (hitbox?.depth ?? 0) + PLAYER_DEPTH;
+
+// Lanes where a player at the lane's centre overlaps `obj`'s hitbox sideways
+const getBlockedLanes = (obj: GameObject, hitbox: Hitbox, lanes: number[]) => {
+  const bounds = getObjectBounds(hitbox, obj.position);
+  return lanes.filter(l =>
+    l * LANE_WIDTH - PLAYER_WIDTH / 2 < bounds.max[0] && l * LANE_WIDTH + PLAYER_WIDTH / 2 > bounds.min[0]
+  );
+};
+
+// Hazards ahead of the player with the lanes they block when they arrive.
+// Lanes follow the collision check in world.ts, not the visuals.
+const collectHazards = (state: SimState, objects: GameObject[], firstNew: number, speed: number): Hazard[] => {
+  const maxLane = Math.floor(state.laneCount / 2);
+  const allLanes = getLanes(state.laneCount);
+  const missileDistance = (distance: number) => distance * speed / (speed + MISSILE_SPEED);
+
+  const hazards: Hazard[] = [];
+  objects.forEach((obj, index) => {
+    if (!obj.active) return;
+    const hitbox = getObjectHitbox(obj);
+    const depth = obj.type === ObjectType.GAP ? obj.length ?? 0 : getCollisionDepth(hitbox);
+    if (obj.position[2] > depth / 2) return;
+    const isNew = index >= firstNew;
+    const distance = Math.max(0, -obj.position[2]);
+
+    if (obj.type === ObjectType.GAP) {
+      hazards.push({ distance, lanes: [laneOf(obj.position[0], maxLane)], bottom: -Infinity, top: 0, depth, isNew });
+      return;
+    }
+    const { behavior, weapon } = getObjectRule(obj.type);
+    if (behavior !== 'damage' || !hitbox) return;
+
+    const [bottom, top] = getVerticalBounds(hitbox, obj.position);
+    let lanes: number[];
+    if (obj.type === ObjectType.DRONE) {
+      lanes = allLanes; // Tracks the player
+    } else if (obj.type === ObjectType.BARRIER) {
+      const x = predictBarrierX(obj, distance / speed, maxLane * LANE_WIDTH);
+      lanes = allLanes.filter(l => Math.abs(l * LANE_WIDTH - x) < LANE_WIDTH);
+    } else {
+      lanes = getBlockedLanes(obj, hitbox, allLanes);
+    }
+
+    hazards.push({
+      distance: obj.type === ObjectType.MISSILE ? missileDistance(distance) : distance,
+      lanes, bottom, top, depth, isNew
+    });
+
+    // Shooters put a missile down their lane before they arrive themselves
+    const missileHitbox = getObjectRule(ObjectType.MISSILE).hitbox;
+    if (weapon && missileHitbox && !obj.hasFired) {
+      const fireDistance = Math.min(distance, weapon.range);
+      const [missileBottom, missileTop] = getVerticalBounds(missileHitbox, [obj.position[0], weapon.height, 0]);
+      hazards.push({
+        distance: (distance - fireDistance) + missileDistance(fireDistance - 2),
+        lanes: [laneOf(obj.position[0], maxLane)],
+        bottom: missileBottom, top: missileTop, depth: getCollisionDepth(missileHitbox), isNew
+      });
+    }
+  });
+
+  return hazards.sort((a, b) => a.distance - b.distance);
+};
+
+interface LaneState {
+  landAt: number; // Earliest time the player is back on the ground
+}
+
+export interface CorridorResult {
+  rows: SafeCorridorRow[];
+  blockedByNew: boolean; // A row with freshly spawned hazards leaves no way through
+}
+
+// Works out the safe corridor through everything currently ahead of the
+// player. Objects from `firstNew` on are the ones just spawned.
+export const analyzeCorridor = (state: SimState, objects: GameObject[], firstNew = objects.length): CorridorResult => {
+  const speed = getCurrentSpeed(state);
+  if (speed <= 0) return { rows: [], blockedByNew: false };
+
+  const maxLane = Math.floor(state.laneCount / 2);
+  const laneCount = maxLane * 2 + 1;
+  const hazards = collectHazards(state, objects, firstNew, speed);
+  const doubleJump = state.hasDoubleJump;
+  const player = state.player;
+
+  // Start from the player's lane, and from when they touch down if airborne
+  const startLanding = player.isJumping
+    ? (player.velocityY + Math.sqrt(player.velocityY * player.velocityY + 2 * GRAVITY * Math.max(player.y, 0))) / GRAVITY
+    : 0;
+  let current: (LaneState | null)[] = Array.from({ length: laneCount }, () => null);
+  current[laneOf(player.lane * LANE_WIDTH, maxLane) + maxLane] = { landAt: startLanding };
+  let currentTime = 0;
+
+  const rows: SafeCorridorRow[] = [];
+  let blockedByNew = false;
+
+  for (let i = 0; i < hazards.length;) {
+    // Group hazards arriving together into a row
+    const rowStart = hazards[i].distance;
+    const rowHazards: Hazard[] = [];
+    while (i < hazards.length && hazards[i].distance - rowStart <= ROW_MERGE_DISTANCE) rowHazards.push(hazards[i++]);
+    const time = rowStart / speed;
+
+    // What it takes to get through each lane
+    const moves: LaneMove[] = [];
+    const heights: number[] = [];
+    const depths: number[] = [];
+    for (let index = 0; index < laneCount; index++) {
+      const inLane = rowHazards.filter(h => h.lanes.includes(index - maxLane));
+      const top = Math.max(0, ...inLane.map(h => h.top));
+      const depth = Math.max(0, ...inLane.map(h => h.depth));
+      heights.push(top);
+      depths.push(depth);
+      if (inLane.length === 0) moves.push('free');
+      else if (inLane.every(h => h.bottom >= SLIDE_HEIGHT)) moves.push('slide');
+      else if (timeAbove(top, doubleJump) * speed >= depth) moves.push('jump');
+      else moves.push('blocked');
+    }
+
+    // Lanes the player can be in as the row passes
+    const next: (LaneState | null)[] = moves.map((move, index) => {
+      if (move === 'blocked') return null;
+      let best: LaneState | null = null;
+      current.forEach((from, fromIndex) => {
+        if (!from) return;
+        if (Math.abs(index - fromIndex) * LANE_SHIFT_TIME > time - currentTime) return;
+        let landAt = from.landAt;
+        if (move === 'jump') {
+          if (!doubleJump && time - riseTime(heights[index]) < from.landAt) return;
+          landAt = time + depths[index] / speed + fallTime(heights[index]);
+        } else if (move === 'slide' && time < from.landAt) {
+          return;
+        }
+        if (!best || landAt < best.landAt) best = { landAt };
+      });
+      return best;
+    });
+
+    const reachable = next.map(s => s !== null);
+    if (!reachable.some(Boolean)) {
+      if (rowHazards.some(h => h.isNew)) blockedByNew = true;
+      // Already unavoidable - assume the hit is taken and carry on from any open lane
+      moves.forEach((move, index) => {
+        next[index] = move === 'blocked' ? null : { landAt: time };
+      });
+    }
+
+    rows.push({ z: -rowStart, moves, reachable });
+    current = next;
+    currentTime = time;
+  }
+
+  return { rows, blockedByNew };
+};
+
+// Checks the objects spawned from `firstNew` on. Authored segments are dropped
+// whole if they block the way, so the spawner rolls again; random rows are
+// thinned, newest hazard first. Returns true if anything of the spawn is left.
+export const ensurePassable = (state: SimState, objects: GameObject[], firstNew: number, dropIfBlocked: boolean): boolean => {
+  while (objects.length > firstNew && analyzeCorridor(state, objects, firstNew).blockedByNew) {
+    if (dropIfBlocked) {
+      objects.length = firstNew;
+      break;
+    }
+    let last = objects.length - 1;
+    while (last >= firstNew && !DAMAGE_SOURCES.has(objects[last].type) && objects[last].type !== ObjectType.GAP) last--;
+    if (last < firstNew) break;
+    objects.splice(last, 1);
+  }
+  return objects.length > firstNew;
+};
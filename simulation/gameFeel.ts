@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameFeelConfig } from './types';
+import { isObject } from './utils';
+import gameFeelData from './gameFeel.json' with { type: 'json' };
+
+// Input timing windows (jump buffer, coyote time, lane queue) from
+// gameFeel.json. A window out of range stops the game loading instead of
+// making the controls feel subtly off.
+
+// [min, max, integer]
+const FIELDS: Record<keyof GameFeelConfig, [number, number, boolean]> = {
+  jumpBufferTime: [0, 0.5, false],
+  coyoteTime: [0, 0.5, false],
+  laneQueueSize: [0, 4, true],
+  laneQueueThreshold: [0, 0.95, false], // The lane lerp never quite arrives, so 1 would never be ready
+};
+
+// Range-checks each window and lists every one that is missing or out of range.
+export const parseGameFeel = (data: unknown): GameFeelConfig => {
+  const errors: string[] = [];
+  const value = isObject(data) ? data : {};
+
+  for (const key of Object.keys(value)) {
+    if (!(key in FIELDS)) errors.push(`unknown field "${key}"`);
+  }
+  for (const [field, [min, max, integer]] of Object.entries(FIELDS)) {
+    const n = value[field];
+    if (typeof n !== 'number' || !Number.isFinite(n)) errors.push(`${field}: must be a number`);
+    else if (n < min || n > max) errors.push(`${field}: must be between ${min} and ${max}`);
+    else if (integer && !Number.isInteger(n)) errors.push(`${field}: must be a whole number`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid game feel config:\n  ${errors.join('\n  ')}`);
+  }
+  return value as unknown as GameFeelConfig;
+};
+
+export const GAME_FEEL = parseGameFeel(gameFeelData);
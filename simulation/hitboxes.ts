@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ObjectType } from '../types';
+import { Hitbox, HitboxAnchor, HitboxObjectType } from './types';
+import { isObject } from './utils';
+import hitboxData from './hitboxes.json' with { type: 'json' };
+
+// Collision box sizes per object type, read from hitboxes.json. The object
+// rules in objects/ take their hitbox from here; a type left without a box
+// fails at startup rather than being impossible to hit.
+
+const HITBOX_TYPES = Object.values(ObjectType).filter((type): type is HitboxObjectType => type !== ObjectType.GAP);
+
+// [min, max]
+const NUMERIC_FIELDS: Record<Exclude<keyof Hitbox, 'anchor'>, [number, number]> = {
+  width: [0.1, 50],
+  depth: [0.1, 50],
+  bottom: [-10, 20],
+  top: [-10, 20],
+};
+
+const ANCHORS = new Set<HitboxAnchor>(['floor', 'object']);
+
+const validateHitbox = (value: unknown, type: string, errors: string[]) => {
+  if (!isObject(value)) {
+    errors.push(`${type}: must be an object`);
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!(key in NUMERIC_FIELDS) && key !== 'anchor') errors.push(`${type}: unknown field "${key}"`);
+  }
+  for (const [field, [min, max]] of Object.entries(NUMERIC_FIELDS)) {
+    const n = value[field];
+    if (typeof n !== 'number' || !Number.isFinite(n)) errors.push(`${type}.${field}: must be a number`);
+    else if (n < min || n > max) errors.push(`${type}.${field}: must be between ${min} and ${max}`);
+  }
+  if (typeof value.bottom === 'number' && typeof value.top === 'number' && value.bottom >= value.top) {
+    errors.push(`${type}: bottom must be below top`);
+  }
+  if (!ANCHORS.has(value.anchor as HitboxAnchor)) errors.push(`${type}.anchor: must be "floor" or "object"`);
+};
+
+// Requires a box for every object type except GAP, which uses its length, and
+// rejects types that don't exist. Reports each bad type and field.
+export const parseHitboxDefinitions = (data: unknown): Record<HitboxObjectType, Hitbox> => {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    errors.push('must be an object keyed by object type');
+  } else {
+    for (const key of Object.keys(data)) {
+      if (!HITBOX_TYPES.includes(key as HitboxObjectType)) errors.push(`unknown object type "${key}"`);
+    }
+    for (const type of HITBOX_TYPES) validateHitbox(data[type], type, errors);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid hitbox definitions:\n  ${errors.join('\n  ')}`);
+  }
+  return data as Record<HitboxObjectType, Hitbox>;
+};
+
+const HITBOXES = parseHitboxDefinitions(hitboxData);
+
+export const getHitbox = (type: HitboxObjectType): Hitbox => HITBOXES[type];
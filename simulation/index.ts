@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Headless game simulation: movement, collision, spawning and damage with no
+// React, DOM or WebGL dependencies, so runs can be stepped in Node as well as
+// rendered in the browser.
+
+import { GameStatus } from '../types';
+import { InputAction, SimEvent, SimState, StepResult } from './types';
+import { MAX_LEVEL, MAX_STEP } from './constants';
+import { getLevelConfig } from './levels';
+import { getCurrentSpeed, updateTimers } from './run';
+import { applyInput, updatePlayer } from './player';
+import { updateObjects } from './world';
+import { spawnObjects } from './spawner';
+import { completeLevel, updateBoss } from './boss';
+
+// Advances `state` by `dt` seconds, applying `inputs` first.
+// The state is updated in place (so renderers can hold on to object references)
+// and returned together with the events raised during the step.
+export const stepSimulation = (state: SimState, inputs: InputAction[], dt: number): StepResult => {
+  const events: SimEvent[] = [];
+  if (state.status !== GameStatus.PLAYING) return { state, events };
+
+  const step = Math.min(dt, MAX_STEP);
+  state.frame += 1;
+  updateTimers(state, step, events);
+
+  for (const input of inputs) {
+    applyInput(state, input, events);
+  }
+  const playerFrom = { x: state.player.x, y: state.player.y };
+  updatePlayer(state, step, events);
+
+  state.distance += getCurrentSpeed(state) * step;
+
+  // Check for distance-based level advancement
+  const levelDistance = state.distance - state.levelStartDistance;
+  if (levelDistance >= getLevelConfig(state.level).distance && state.level < MAX_LEVEL) {
+    // Force advance to next level after traveling enough distance (boss levels start the boss instead)
+    if (completeLevel(state, events)) {
+      return { state, events }; // Skip rest of step to let level transition happen
+    }
+  }
+
+  const world = updateObjects(state, step, events, playerFrom);
+  // The boss takes over spawning while it holds the track
+  const spawned = state.boss
+    ? updateBoss(state, world.objects, step, events)
+    : spawnObjects(state, world.objects);
+
+  if (world.changed || spawned) {
+    state.objects = world.objects;
+  }
+
+  if (world.levelComplete) {
+    // All letters for this level collected (including carryovers) or the boss destroyed, advance
+    completeLevel(state, events);
+  }
+
+  return { state, events };
+};
+
+export {
+  createSimState, isImmortalityActive, isShieldActive, isMagnetActive, isSpeedBoostActive, isSliding,
+  isInvincible, getCurrentSpeed
+} from './run';
+export { getTimeRemaining, isTimerActive } from './clock';
+export { getComboMultiplier } from './combo';
+export type { GameClock, Timer, TimerName } from './clock';
+export { SeededRandom, createSeed } from './random';
+export { getLevelConfig, parseLevelDefinitions } from './levels';
+export { getHitbox, parseHitboxDefinitions } from './hitboxes';
+export { getObjectBounds, getPlayerBounds } from './collision';
+export { DAMAGE_SOURCES, OBJECT_RULES, getObjectHitbox, getObjectRule } from './objects';
+export type { Bounds } from './collision';
+export { GAME_FEEL, parseGameFeel } from './gameFeel';
+export { parseSegmentDefinitions } from './segments';
+export { analyzeCorridor } from './fairness';
+export {
+  parseShopDefinitions, getShopItem, getItemCost, getRerollCost, isItemAvailable, purchase, rerollShop, closeShop
+} from './shop';
+export type { ShopCatalog } from './shop';
+export type { CorridorResult } from './fairness';
+export * from './constants';
+export * from './types';
+export { parseReplay, replayRun, isLoadoutOwned, MAX_REPLAY_FRAMES, MAX_REPLAY_EVENTS } from './replay';
+export type { ReplayResult } from './replay';
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { BossType, ObjectType } from '../types';
+import { LevelDefinition, WeightedObstacleType } from './types';
+import { MAX_LANES, MAX_LEVEL } from './constants';
+import { SEGMENT_TAGS } from './segments';
+import { isObject } from './utils';
+import levelData from './levels.json' with { type: 'json' };
+
+// Per-level difficulty lives in levels.json so it can be tuned without code
+// changes. The file is checked once at load; a bad edit fails loudly on
+// startup instead of producing odd runs.
+
+// Checked in this order when picking an obstacle, so the weights stay deterministic
+export const WEIGHTED_OBSTACLES: WeightedObstacleType[] = [
+  ObjectType.LASER_GATE,
+  ObjectType.BARRIER,
+  ObjectType.SPIKE_FLOOR,
+  ObjectType.TURRET,
+  ObjectType.OVERHEAD_BAR,
+];
+
+type NumericField = Exclude<keyof LevelDefinition, 'obstacleWeights' | 'segmentTags' | 'boss'>;
+
+// [min, max, integer]
+const NUMERIC_FIELDS: Record<NumericField, [number, number, boolean]> = {
+  level: [1, MAX_LEVEL, true],
+  distance: [100, 100000, false],
+  laneCount: [1, MAX_LANES, true],
+  letterInterval: [10, 100000, false],
+  minGap: [1, 200, false],
+  obstacleChance: [0, 1, false],
+  multiObstacleChance: [0, 1, false],
+  tripleObstacleChance: [0, 1, false],
+  laserGateWidth: [1, MAX_LANES, true],
+  barrierSpeed: [0, 50, false],
+  droneChance: [0, 1, false],
+  alienChance: [0, 1, false],
+  gapChance: [0, 1, false],
+  maxGapLanes: [1, MAX_LANES, true],
+  jumpPadChance: [0, 1, false],
+  speedBoostChance: [0, 1, false],
+  powerupChance: [0, 1, false],
+  obstacleGemChance: [0, 1, false],
+  gemValue: [0, 100000, true],
+  gemBonusValue: [0, 100000, true],
+  segmentChance: [0, 1, false],
+  maxSegmentDifficulty: [1, 5, true],
+};
+
+const BOSS_TYPES = new Set<string>(Object.values(BossType));
+
+const validateLevel = (value: unknown, index: number, errors: string[]) => {
+  const where = `levels[${index}]`;
+  if (!isObject(value)) {
+    errors.push(`${where}: must be an object`);
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!(key in NUMERIC_FIELDS) && key !== 'obstacleWeights' && key !== 'segmentTags' && key !== 'boss') {
+      errors.push(`${where}: unknown field "${key}"`);
+    }
+  }
+
+  for (const [field, [min, max, integer]] of Object.entries(NUMERIC_FIELDS)) {
+    const n = value[field];
+    if (typeof n !== 'number' || !Number.isFinite(n)) errors.push(`${where}.${field}: must be a number`);
+    else if (n < min || n > max) errors.push(`${where}.${field}: must be between ${min} and ${max}`);
+    else if (integer && !Number.isInteger(n)) errors.push(`${where}.${field}: must be a whole number`);
+  }
+
+  if (value.level !== index + 1) errors.push(`${where}.level: expected ${index + 1}, levels must be listed in order`);
+  if (typeof value.laneCount === 'number' && value.laneCount % 2 === 0) errors.push(`${where}.laneCount: must be odd`);
+
+  const weights = value.obstacleWeights;
+  if (!isObject(weights)) {
+    errors.push(`${where}.obstacleWeights: must be an object`);
+  } else {
+    let total = 0;
+    for (const key of Object.keys(weights)) {
+      if (!WEIGHTED_OBSTACLES.includes(key as WeightedObstacleType)) errors.push(`${where}.obstacleWeights: unknown obstacle "${key}"`);
+    }
+    for (const type of WEIGHTED_OBSTACLES) {
+      const weight = weights[type];
+      if (typeof weight !== 'number' || weight < 0 || weight > 1) errors.push(`${where}.obstacleWeights.${type}: must be between 0 and 1`);
+      else total += weight;
+    }
+    if (total > 1) errors.push(`${where}.obstacleWeights: must add up to at most 1`);
+  }
+
+  const tags = value.segmentTags;
+  if (!Array.isArray(tags)) {
+    errors.push(`${where}.segmentTags: must be a list`);
+  } else {
+    for (const tag of tags) {
+      if (typeof tag !== 'string' || !SEGMENT_TAGS.has(tag)) errors.push(`${where}.segmentTags: no segment is tagged "${tag}"`);
+    }
+  }
+
+  const boss = value.boss;
+  if (boss !== null) {
+    if (!isObject(boss) || typeof boss.type !== 'string' || !BOSS_TYPES.has(boss.type)) {
+      errors.push(`${where}.boss: must be null or { type, health } with a known boss type`);
+    } else if (typeof boss.health !== 'number' || !Number.isInteger(boss.health) || boss.health < 1) {
+      errors.push(`${where}.boss.health: must be a whole number of at least 1`);
+    } else if (index === MAX_LEVEL - 1) {
+      errors.push(`${where}.boss: the final level has no exit for a boss to guard`);
+    }
+  }
+};
+
+// Checks that levels.json lists every level in order with its tuning in range.
+// The error names each bad field by path, e.g. levels[2].minGap.
+export const parseLevelDefinitions = (data: unknown): LevelDefinition[] => {
+  const errors: string[] = [];
+  const levels = isObject(data) ? data.levels : undefined;
+
+  if (!Array.isArray(levels)) {
+    errors.push('"levels" must be an array');
+  } else {
+    if (levels.length !== MAX_LEVEL) errors.push(`expected ${MAX_LEVEL} levels, found ${levels.length}`);
+    levels.forEach((level, i) => validateLevel(level, i, errors));
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid level definitions:\n  ${errors.join('\n  ')}`);
+  }
+  return levels as LevelDefinition[];
+};
+
+const LEVELS = parseLevelDefinitions(levelData);
+
+export const getLevelConfig = (level: number): LevelDefinition =>
+  LEVELS[Math.min(Math.max(level, 1), LEVELS.length) - 1];
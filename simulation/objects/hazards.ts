@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ObjectType, LANE_WIDTH } from '../../types';
+import { ObjectRule } from '../types';
+import { MISSILE_SPEED } from '../constants';
+import { getHitbox } from '../hitboxes';
+import { lerp } from '../utils';
+
+// Damage sources. Touching one costs a life unless the player is protected;
+// with a speed boost it is smashed instead.
+
+export const OBSTACLE: ObjectRule = {
+  behavior: 'damage',
+  hitbox: getHitbox(ObjectType.OBSTACLE),
+};
+
+// Spans as many lanes as its value says; the hitbox width is per lane
+export const LASER_GATE: ObjectRule = {
+  behavior: 'damage',
+  hitbox: getHitbox(ObjectType.LASER_GATE), // Jump over laser
+  sizeHitbox: (hitbox, obj) => ({ ...hitbox, width: hitbox.width * (Number(obj.value) || 1) }),
+};
+
+export const SPIKE_FLOOR: ObjectRule = {
+  behavior: 'damage',
+  hitbox: getHitbox(ObjectType.SPIKE_FLOOR), // Low to ground, can jump over
+};
+
+export const OVERHEAD_BAR: ObjectRule = {
+  behavior: 'damage',
+  hitbox: getHitbox(ObjectType.OVERHEAD_BAR), // Hangs from above, too tall to jump - slide under
+};
+
+// Slides side to side, bouncing off the outer lanes
+export const BARRIER: ObjectRule = {
+  behavior: 'damage',
+  hitbox: getHitbox(ObjectType.BARRIER),
+  update: (obj, { state, dt }) => {
+    const maxX = Math.floor(state.laneCount / 2) * LANE_WIDTH;
+    obj.position[0] += (obj.moveDirection || 1) * (obj.moveSpeed || 3) * dt;
+
+    if (obj.position[0] > maxX) {
+      obj.position[0] = maxX;
+      obj.moveDirection = -1;
+    } else if (obj.position[0] < -maxX) {
+      obj.position[0] = -maxX;
+      obj.moveDirection = 1;
+    }
+  },
+};
+
+// Drifts toward the player's lane to block them while still ahead
+export const DRONE: ObjectRule = {
+  behavior: 'damage',
+  hitbox: getHitbox(ObjectType.DRONE),
+  update: (obj, { dt, player }) => {
+    if (obj.position[2] < -5) {
+      obj.position[0] = lerp(obj.position[0], player.x, dt * 1.5); // Slow tracking
+    }
+  },
+};
+
+export const ALIEN: ObjectRule = {
+  behavior: 'damage',
+  hitbox: getHitbox(ObjectType.ALIEN),
+  weapon: { range: 90, height: 1.0, color: '#ff0000' },
+};
+
+export const TURRET: ObjectRule = {
+  behavior: 'damage',
+  hitbox: getHitbox(ObjectType.TURRET), // Can jump over turret
+  weapon: { range: 80, height: 0.8, color: '#ffaa00' },
+};
+
+// Fired by aliens and turrets; flies faster than the track scrolls
+export const MISSILE: ObjectRule = {
+  behavior: 'damage',
+  hitbox: getHitbox(ObjectType.MISSILE),
+  speed: MISSILE_SPEED,
+};
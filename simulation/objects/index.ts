@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, ObjectType } from '../../types';
+import { Hitbox, ObjectRule } from '../types';
+import { ALIEN, BARRIER, DRONE, LASER_GATE, MISSILE, OBSTACLE, OVERHEAD_BAR, SPIKE_FLOOR, TURRET } from './hazards';
+import { GEM, JUMP_PAD, LETTER, MAGNET, SHIELD, SPEED_BOOST, WEAK_POINT } from './pickups';
+import { GAP, SHOP_PORTAL } from './track';
+
+// Rules for every object type: hitbox, what touching it does, how it moves
+// and what it fires. The world update works from this table, so a new object
+// type only needs its rule here (and its hitbox in hitboxes.json).
+export const OBJECT_RULES: Record<ObjectType, ObjectRule> = {
+  [ObjectType.OBSTACLE]: OBSTACLE,
+  [ObjectType.GEM]: GEM,
+  [ObjectType.LETTER]: LETTER,
+  [ObjectType.SHOP_PORTAL]: SHOP_PORTAL,
+  [ObjectType.ALIEN]: ALIEN,
+  [ObjectType.MISSILE]: MISSILE,
+  [ObjectType.MAGNET]: MAGNET,
+  [ObjectType.SHIELD]: SHIELD,
+  [ObjectType.DRONE]: DRONE,
+  [ObjectType.LASER_GATE]: LASER_GATE,
+  [ObjectType.BARRIER]: BARRIER,
+  [ObjectType.SPIKE_FLOOR]: SPIKE_FLOOR,
+  [ObjectType.TURRET]: TURRET,
+  [ObjectType.JUMP_PAD]: JUMP_PAD,
+  [ObjectType.SPEED_BOOST]: SPEED_BOOST,
+  [ObjectType.GAP]: GAP,
+  [ObjectType.OVERHEAD_BAR]: OVERHEAD_BAR,
+  [ObjectType.WEAK_POINT]: WEAK_POINT,
+};
+
+export const getObjectRule = (type: ObjectType): ObjectRule => OBJECT_RULES[type];
+
+// The hitbox `obj` collides with, sized for it if its type varies in size
+export const getObjectHitbox = (obj: GameObject): Hitbox | null => {
+  const { hitbox, sizeHitbox } = getObjectRule(obj.type);
+  return hitbox && sizeHitbox ? sizeHitbox(hitbox, obj) : hitbox;
+};
+
+export const DAMAGE_SOURCES = new Set<ObjectType>(
+  (Object.keys(OBJECT_RULES) as ObjectType[]).filter(type => OBJECT_RULES[type].behavior === 'damage')
+);
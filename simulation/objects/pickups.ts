@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ObjectType } from '../../types';
+import { ObjectRule } from '../types';
+import { getHitbox } from '../hitboxes';
+import {
+  activateMagnet, activateShield, activateSpeedBoost, collectGem, collectLetter, isMagnetActive
+} from '../run';
+import { launchPlayer } from '../player';
+import { hitBoss } from '../boss';
+import { breakCombo } from '../combo';
+import { lerp } from '../utils';
+
+// Pickups. Touching one collects it: the object goes inactive and a 'collect'
+// event is raised with its colour.
+
+// Gems fly to the player while the magnet is on
+export const GEM: ObjectRule = {
+  behavior: 'pickup',
+  hitbox: getHitbox(ObjectType.GEM),
+  update: (obj, { state, dt, player }) => {
+    if (!isMagnetActive(state)) return;
+    const dx = player.x - obj.position[0];
+    const dz = -obj.position[2];
+    const distToPlayer = Math.sqrt(dx * dx + dz * dz);
+
+    if (distToPlayer < 40) {
+      const pullStrength = dt * 10;
+      obj.position[0] += dx * pullStrength;
+      obj.position[2] += dz * pullStrength;
+      // Lift off ground slightly
+      obj.position[1] = lerp(obj.position[1], player.y, pullStrength);
+    }
+  },
+  onHit: (obj, { state, events }) => {
+    collectGem(state, obj.points || 50, events);
+  },
+  // A gem that gets past the player breaks the combo
+  onMiss: (_, { state, events }) => {
+    breakCombo(state, events);
+  },
+};
+
+export const LETTER: ObjectRule = {
+  behavior: 'pickup',
+  hitbox: getHitbox(ObjectType.LETTER),
+  onHit: (obj, { state, events }) =>
+    obj.targetIndex !== undefined && collectLetter(state, obj.targetIndex, events),
+};
+
+export const MAGNET: ObjectRule = {
+  behavior: 'pickup',
+  hitbox: getHitbox(ObjectType.MAGNET),
+  onHit: (_, { state }) => {
+    activateMagnet(state);
+  },
+};
+
+export const SHIELD: ObjectRule = {
+  behavior: 'pickup',
+  hitbox: getHitbox(ObjectType.SHIELD),
+  onHit: (_, { state }) => {
+    activateShield(state);
+  },
+};
+
+export const JUMP_PAD: ObjectRule = {
+  behavior: 'pickup',
+  hitbox: getHitbox(ObjectType.JUMP_PAD),
+  onHit: (_, { state }) => {
+    launchPlayer(state);
+  },
+};
+
+export const SPEED_BOOST: ObjectRule = {
+  behavior: 'pickup',
+  hitbox: getHitbox(ObjectType.SPEED_BOOST),
+  onHit: (_, { state, events }) => {
+    activateSpeedBoost(state, events);
+  },
+};
+
+// Ejected by a boss; jumping into it damages the boss
+export const WEAK_POINT: ObjectRule = {
+  behavior: 'pickup',
+  hitbox: getHitbox(ObjectType.WEAK_POINT),
+  onHit: (obj, { state, events, spawned }) => hitBoss(state, obj, spawned, events),
+};
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameStatus, ObjectType } from '../../types';
+import { ObjectRule } from '../types';
+import { getHitbox } from '../hitboxes';
+import { openShop } from '../shop';
+
+// Parts of the track itself rather than things on it.
+
+// Reaching the portal opens the shop; it is gone once passed through
+export const SHOP_PORTAL: ObjectRule = {
+  behavior: 'trigger',
+  hitbox: getHitbox(ObjectType.SHOP_PORTAL),
+  spansTrack: true,
+  onHit: (_, { state, events }) => {
+    if (state.status !== GameStatus.PLAYING) return;
+    openShop(state);
+    events.push({ type: 'shop' });
+  },
+};
+
+// Missing floor; falling in is handled by player physics
+export const GAP: ObjectRule = {
+  behavior: null,
+  hitbox: null,
+};
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { LANE_WIDTH } from '../types';
+import { InputAction, PlayerState, SimEvent, SimState } from './types';
+import { FALL_DEPTH, GRAVITY, JUMP_FORCE, JUMP_PAD_FORCE, LANE_CHANGE_RATE, SLIDE_DURATION } from './constants';
+import { activateImmortality, applyFall, hasFloor } from './run';
+import { cancelTimer, isTimerActive, startTimer } from './clock';
+import { GAME_FEEL } from './gameFeel';
+
+// Jumps from the floor (or within coyote time of leaving it), or double jumps.
+// Pressed with no jumps left it's buffered and fires on landing.
+const triggerJump = (state: SimState, events: SimEvent[]) => {
+  const player = state.player;
+  const maxJumps = state.hasDoubleJump ? 2 : 1;
+
+  if (!player.isJumping) {
+    player.isJumping = true;
+    player.jumpsPerformed = 1;
+    player.velocityY = JUMP_FORCE;
+    player.onLedge = false;
+    cancelTimer(state.clock, 'coyote');
+    cancelTimer(state.clock, 'slide'); // Jumping cancels a slide
+    events.push({ type: 'jump', double: false });
+  } else if (player.jumpsPerformed < maxJumps) {
+    player.jumpsPerformed += 1;
+    player.velocityY = JUMP_FORCE;
+    events.push({ type: 'jump', double: true });
+  } else if (GAME_FEEL.jumpBufferTime > 0) {
+    startTimer(state.clock, 'jumpBuffer', GAME_FEEL.jumpBufferTime);
+  }
+};
+
+// Slides along the floor with a lowered hitbox. Pressed mid-air it pulls the
+// player down fast and the slide starts on landing.
+const triggerSlide = (state: SimState, events: SimEvent[]) => {
+  const player = state.player;
+  if (player.isJumping) {
+    player.velocityY = Math.min(player.velocityY, -JUMP_FORCE);
+  }
+  startTimer(state.clock, 'slide', SLIDE_DURATION);
+  events.push({ type: 'slide' });
+};
+
+// Jump pads throw the player into a high arc; a double jump is still available on the way
+export const launchPlayer = (state: SimState) => {
+  const player = state.player;
+  player.isJumping = true;
+  player.jumpsPerformed = 1;
+  player.velocityY = JUMP_PAD_FORCE;
+  state.stats.jumpPadsUsed += 1;
+};
+
+// A new lane change can start once the current one is far enough along
+const isLaneChangeReady = (player: PlayerState) =>
+  Math.abs(player.lane * LANE_WIDTH - player.x) <= LANE_WIDTH * (1 - GAME_FEEL.laneQueueThreshold);
+
+const stepLane = (state: SimState, direction: number) => {
+  const maxLane = Math.floor(state.laneCount / 2);
+  state.player.lane = Math.max(-maxLane, Math.min(state.player.lane + direction, maxLane));
+};
+
+// Changes lane now if nothing is in the way, otherwise queues the change behind
+// the ones already waiting. With no queue every change applies immediately.
+const queueLaneChange = (state: SimState, direction: number) => {
+  const player = state.player;
+  if (GAME_FEEL.laneQueueSize === 0 || (player.laneQueue.length === 0 && isLaneChangeReady(player))) {
+    stepLane(state, direction);
+  } else if (player.laneQueue.length < GAME_FEEL.laneQueueSize) {
+    player.laneQueue.push(direction);
+  }
+};
+
+export const applyInput = (state: SimState, action: InputAction, events: SimEvent[]) => {
+  const player = state.player;
+
+  // No steering or jumping out of a gap
+  if (player.isFalling && action !== InputAction.ABILITY) return;
+
+  switch (action) {
+    case InputAction.MOVE_LEFT:
+      queueLaneChange(state, -1);
+      break;
+    case InputAction.MOVE_RIGHT:
+      queueLaneChange(state, 1);
+      break;
+    case InputAction.JUMP:
+      triggerJump(state, events);
+      break;
+    case InputAction.ABILITY:
+      activateImmortality(state, events);
+      break;
+    case InputAction.SLIDE:
+      triggerSlide(state, events);
+      break;
+  }
+};
+
+export const updatePlayer = (state: SimState, dt: number, events: SimEvent[]) => {
+  const player = state.player;
+
+  // 1. Horizontal Position
+  if (!player.isFalling) {
+    if (player.laneQueue.length > 0 && isLaneChangeReady(player)) {
+      stepLane(state, player.laneQueue.shift()!);
+    }
+    const targetX = player.lane * LANE_WIDTH;
+    player.x += (targetX - player.x) * dt * LANE_CHANGE_RATE * (1 + state.upgrades.laneChangeSpeed);
+  }
+
+  // 2. Physics (Jump / Fall). Integrated exactly for constant gravity, so the
+  // arc matches the analytic jump height whatever the step size.
+  if (player.isJumping || player.isFalling) {
+    player.y += player.velocityY * dt - 0.5 * GRAVITY * dt * dt;
+    player.velocityY -= GRAVITY * dt;
+
+    // Land, unless there is no floor to land on
+    if (player.isJumping && player.y <= 0 && hasFloor(state, player.x)) {
+      player.y = 0;
+      player.isJumping = false;
+      player.jumpsPerformed = 0;
+      player.velocityY = 0;
+
+      if (isTimerActive(state.clock, 'jumpBuffer')) {
+        cancelTimer(state.clock, 'jumpBuffer');
+        triggerJump(state, events);
+      }
+    }
+  }
+
+  // 3. Gaps: drop through when at floor level with nothing underneath. Running
+  // off an edge leaves the coyote window to still jump; coming down from a
+  // jump into a gap falls straight away.
+  if (!player.isFalling && player.y <= 0 && !hasFloor(state, player.x)) {
+    if (!player.isJumping && !player.onLedge && GAME_FEEL.coyoteTime > 0) {
+      player.onLedge = true;
+      startTimer(state.clock, 'coyote', GAME_FEEL.coyoteTime);
+    } else if (player.isJumping || !isTimerActive(state.clock, 'coyote')) {
+      player.isFalling = true;
+      player.isJumping = false;
+      player.onLedge = false;
+      player.laneQueue = [];
+      events.push({ type: 'fall' });
+    }
+  } else if (player.onLedge) {
+    // Back over floor (e.g. steered out of the gap) before the window closed
+    player.onLedge = false;
+    cancelTimer(state.clock, 'coyote');
+  }
+
+  if (player.isFalling && player.y < FALL_DEPTH) {
+    applyFall(state, events);
+  }
+};
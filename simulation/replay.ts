@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameStatus } from '../types';
+import { InputAction, ReplayInput, ReplayPurchase, RunLoadout, RunReplay, RunStats } from './types';
+import { MAX_LOADOUT_LIVES, SHOP_REROLL, SIM_RATE, SIM_STEP, STARTING_LIVES } from './constants';
+import { createSimState } from './run';
+import { closeShop, getShopItem, purchase, rerollShop } from './shop';
+import { stepSimulation } from './index';
+import { isObject } from './utils';
+
+// Re-simulating a submitted run is how the leaderboard checks a score instead
+// of trusting the number the client sends. Both sides step at SIM_STEP, so the
+// same seed and input log always lead to the same result. Runs recorded at
+// another step rate can't be reproduced and are rejected.
+
+export const MAX_REPLAY_FRAMES = 30 * 60 * SIM_RATE; // Half an hour of play at SIM_STEP
+export const MAX_REPLAY_EVENTS = 10000;
+
+const INPUT_ACTIONS = new Set<string>(Object.values(InputAction));
+
+const isFrame = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_REPLAY_FRAMES;
+
+// Ranked runs carry the token the server opened them with
+const isRunToken = (value: unknown): value is string | undefined =>
+  value === undefined || (typeof value === 'string' && value.length <= 64);
+
+const parseLoadout = (value: unknown): RunLoadout | null => {
+  if (!isObject(value)) return null;
+  const { hasDoubleJump, hasImmortality, maxLives } = value;
+  if (typeof hasDoubleJump !== 'boolean' || typeof hasImmortality !== 'boolean') return null;
+  if (typeof maxLives !== 'number' || !Number.isInteger(maxLives)) return null;
+  if (maxLives < STARTING_LIVES || maxLives > MAX_LOADOUT_LIVES) return null;
+  return { hasDoubleJump, hasImmortality, maxLives };
+};
+
+// Validates an untrusted replay payload. Returns null if it is malformed.
+export const parseReplay = (value: unknown): RunReplay | null => {
+  if (!isObject(value)) return null;
+  const { seed, stepRate, frames, inputs, purchases, token } = value;
+
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) return null;
+  if (stepRate !== SIM_RATE) return null;
+  const loadout = parseLoadout(value.loadout);
+  if (!loadout) return null;
+  if (!isFrame(frames)) return null;
+  if (!Array.isArray(inputs) || !Array.isArray(purchases)) return null;
+  if (inputs.length + purchases.length > MAX_REPLAY_EVENTS) return null;
+  if (!isRunToken(token)) return null;
+
+  // Entries must be in step order and within the recorded length
+  const parsedInputs: ReplayInput[] = [];
+  let lastFrame = 1;
+  for (const input of inputs) {
+    if (!isObject(input) || !isFrame(input.frame) || typeof input.action !== 'string') return null;
+    if (input.frame < lastFrame || input.frame > frames || !INPUT_ACTIONS.has(input.action)) return null;
+    lastFrame = input.frame;
+    parsedInputs.push({ frame: input.frame, action: input.action as InputAction });
+  }
+
+  const parsedPurchases: ReplayPurchase[] = [];
+  lastFrame = 0;
+  for (const entry of purchases) {
+    if (!isObject(entry) || !isFrame(entry.frame) || typeof entry.item !== 'string') return null;
+    if (entry.frame < lastFrame || entry.frame > frames) return null;
+    if (entry.item !== SHOP_REROLL && !getShopItem(entry.item)) return null;
+    lastFrame = entry.frame;
+    parsedPurchases.push({ frame: entry.frame, item: entry.item });
+  }
+
+  return { seed, stepRate, loadout, frames, inputs: parsedInputs, purchases: parsedPurchases, token };
+};
+
+// Whether every upgrade a run started with is one the player owns
+export const isLoadoutOwned = (loadout: RunLoadout, owned: RunLoadout) =>
+  (!loadout.hasDoubleJump || owned.hasDoubleJump) &&
+  (!loadout.hasImmortality || owned.hasImmortality) &&
+  loadout.maxLives <= owned.maxLives;
+
+export interface ReplayResult {
+  score: number;
+  level: number;
+  gemsCollected: number;
+  distance: number;
+  outcome: 'game_over' | 'victory' | null; // Null if the log stops before the run ended
+  stats: RunStats;
+}
+
+// Steps a fresh run through the recorded inputs. Every shop visit is closed
+// straight after the purchases logged for it, as the player did.
+export const replayRun = (replay: RunReplay): ReplayResult => {
+  const state = createSimState(replay.seed, replay.loadout);
+  let nextInput = 0;
+  let nextPurchase = 0;
+
+  while (state.frame < replay.frames) {
+    const frame = state.frame + 1;
+    const inputs: InputAction[] = [];
+    while (nextInput < replay.inputs.length && replay.inputs[nextInput].frame === frame) {
+      inputs.push(replay.inputs[nextInput++].action);
+    }
+
+    stepSimulation(state, inputs, SIM_STEP);
+
+    if (state.status === GameStatus.SHOP) {
+      while (nextPurchase < replay.purchases.length && replay.purchases[nextPurchase].frame === state.frame) {
+        const { item } = replay.purchases[nextPurchase++];
+        if (item === SHOP_REROLL) rerollShop(state);
+        else purchase(state, item);
+      }
+      closeShop(state);
+    } else if (state.status !== GameStatus.PLAYING) {
+      break;
+    }
+  }
+
+  return {
+    score: state.score,
+    level: state.level,
+    gemsCollected: state.gemsCollected,
+    distance: Math.floor(state.distance),
+    outcome: state.status === GameStatus.VICTORY ? 'victory' : state.status === GameStatus.GAME_OVER ? 'game_over' : null,
+    stats: { ...state.stats },
+  };
+};
@@ -0,0 +1,252 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, GameStatus, ObjectType, LANE_WIDTH, SPAWN_DISTANCE } from '../types';
+import { SeededRandom } from './random';
+import { RunLoadout, SimEvent, SimState } from './types';
+import {
+  PHRASE_LETTERS, MAX_LEVEL, DEFAULT_LOADOUT, START_SPEED, LEVEL_BONUS_BASE, LETTER_POINTS,
+  VICTORY_BONUS, POWERUP_DURATION, IMMORTALITY_DURATION, HIT_INVINCIBILITY_DURATION, SHOP_SEED_SALT,
+  SPEED_BOOST_DURATION, SPEED_BOOST_MULTIPLIER,
+  calculateSpeed, getLevelLetterIndices
+} from './constants';
+import { getLevelConfig } from './levels';
+import { advanceClock, cancelTimer, createClock, isTimerActive, startTimer } from './clock';
+import { breakCombo, decayCombo, extendCombo, getComboMultiplier } from './combo';
+
+// Score, lives, level progression and purchases for a single run
+
+export const createSimState = (seed: number, loadout: RunLoadout = DEFAULT_LOADOUT): SimState => ({
+  seed,
+  rng: new SeededRandom(seed),
+  frame: 0,
+  clock: createClock(),
+
+  status: GameStatus.PLAYING,
+  score: 0,
+  totalScore: 0,
+  combo: 0,
+  lives: loadout.maxLives,
+  maxLives: loadout.maxLives,
+  speed: START_SPEED,
+  collectedLetters: [],
+  level: 1,
+  laneCount: getLevelConfig(1).laneCount,
+  gemsCollected: 0,
+  distance: 0,
+
+  levelStartDistance: 0,
+  nextLetterDistance: getLevelConfig(1).letterInterval,
+  nextObjectId: 0,
+
+  hasDoubleJump: loadout.hasDoubleJump,
+  hasImmortality: loadout.hasImmortality,
+  upgrades: {
+    magnetDuration: 0,
+    shieldDuration: 0,
+    revives: 0,
+    gemValue: 0,
+    laneChangeSpeed: 0,
+  },
+  itemsBought: {},
+  shop: null,
+  shopRng: new SeededRandom((seed ^ SHOP_SEED_SALT) >>> 0),
+
+  stats: {
+    jumpPadsUsed: 0,
+    speedBoostsCollected: 0,
+    obstaclesSmashed: 0,
+    maxCombo: 0,
+    nearMisses: 0,
+  },
+
+  player: {
+    lane: 0,
+    x: 0,
+    y: 0,
+    velocityY: 0,
+    isJumping: false,
+    isFalling: false,
+    jumpsPerformed: 0,
+    laneQueue: [],
+    onLedge: false,
+  },
+  boss: null,
+  objects: [],
+});
+
+// Deterministic ids so a replayed run produces identical objects
+export const createObject = (state: SimState, object: Omit<GameObject, 'id'>): GameObject => ({
+  id: `obj-${state.nextObjectId++}`,
+  ...object,
+});
+
+export const isImmortalityActive = (state: SimState) => isTimerActive(state.clock, 'immortality');
+export const isShieldActive = (state: SimState) => isTimerActive(state.clock, 'shield');
+export const isMagnetActive = (state: SimState) => isTimerActive(state.clock, 'magnet');
+export const isSpeedBoostActive = (state: SimState) => isTimerActive(state.clock, 'speedBoost');
+export const isSliding = (state: SimState) => isTimerActive(state.clock, 'slide') && !state.player.isJumping;
+export const isInvincible = (state: SimState) => isTimerActive(state.clock, 'invincible');
+
+// World speed including any active speed boost
+export const getCurrentSpeed = (state: SimState) =>
+  isSpeedBoostActive(state) ? state.speed * SPEED_BOOST_MULTIPLIER : state.speed;
+
+// Points are scaled by the combo multiplier. Speed follows the unscaled
+// total so a long combo doesn't also make the run harder.
+export const addScore = (state: SimState, amount: number) => {
+  state.score += amount * getComboMultiplier(state);
+  state.totalScore += amount;
+  state.speed = calculateSpeed(state.totalScore);
+};
+
+export const collectGem = (state: SimState, value: number, events: SimEvent[]) => {
+  extendCombo(state, events);
+  addScore(state, Math.round(value * (1 + state.upgrades.gemValue)));
+  state.gemsCollected += 1;
+};
+
+// Returns true when the current level's letters are complete and the level should advance
+export const collectLetter = (state: SimState, index: number, events: SimEvent[]): boolean => {
+  // Index is the absolute position in PHRASE_LETTERS
+  if (state.collectedLetters.includes(index)) return false;
+
+  state.collectedLetters = [...state.collectedLetters, index];
+  extendCombo(state, events);
+  addScore(state, LETTER_POINTS); // Award points for letters to contribute to speed
+
+  // Check if all phrase letters collected
+  if (state.collectedLetters.length === PHRASE_LETTERS.length) {
+    addScore(state, VICTORY_BONUS);
+    state.status = GameStatus.VICTORY;
+    events.push({ type: 'victory' });
+    return false;
+  }
+
+  // Check if current level's letters are all collected (including carryovers)
+  const levelLetters = getLevelLetterIndices(state.level, state.collectedLetters);
+  return levelLetters.length === 0 && state.level < MAX_LEVEL;
+};
+
+export const advanceLevel = (state: SimState, events: SimEvent[]) => {
+  // Level completion bonus (increases per level)
+  addScore(state, LEVEL_BONUS_BASE * state.level);
+
+  state.level += 1;
+  state.laneCount = getLevelConfig(state.level).laneCount;
+  state.boss = null;
+  // Keep collectedLetters - uncollected ones carry over automatically
+
+  // Soft reset of the track (keep visible objects) with the shop portal further out
+  state.objects = state.objects.filter(obj => obj.position[2] > -80);
+  state.objects.push(createObject(state, {
+    type: ObjectType.SHOP_PORTAL,
+    position: [0, 0, -100],
+    active: true,
+  }));
+
+  state.levelStartDistance = state.distance;
+  state.nextLetterDistance = state.distance - SPAWN_DISTANCE + getLevelConfig(state.level).letterInterval;
+
+  events.push({ type: 'level-up', level: state.level });
+};
+
+// True if there is no floor under `x` at the player's position
+export const isOverGap = (state: SimState, x: number) => state.objects.some(obj =>
+  obj.type === ObjectType.GAP &&
+  Math.abs(obj.position[0] - x) < LANE_WIDTH * 0.4 &&
+  Math.abs(obj.position[2]) < (obj.length ?? 0) / 2
+);
+
+// Gaps don't take the player during the post-hit grace period, which outlasts
+// the time a gap takes to pass, so a respawn with no floor in reach is safe
+export const hasFloor = (state: SimState, x: number) => isInvincible(state) || !isOverGap(state, x);
+
+const loseLife = (state: SimState, events: SimEvent[]) => {
+  startTimer(state.clock, 'invincible', HIT_INVINCIBILITY_DURATION);
+  breakCombo(state, events);
+
+  if (state.lives > 1) {
+    state.lives -= 1;
+    events.push({ type: 'damage', lives: state.lives });
+  } else if (state.upgrades.revives > 0) {
+    // Spend a revive and carry on with the last life
+    state.upgrades.revives -= 1;
+    events.push({ type: 'revive', revivesLeft: state.upgrades.revives });
+  } else {
+    state.lives = 0;
+    state.speed = 0;
+    state.status = GameStatus.GAME_OVER;
+    events.push({ type: 'damage', lives: 0 });
+    events.push({ type: 'game-over' });
+  }
+};
+
+export const applyDamage = (state: SimState, events: SimEvent[]) => {
+  // No damage during the post-hit grace period, Skill Active OR Shield Powerup Active
+  if (isInvincible(state) || isImmortalityActive(state) || isShieldActive(state)) return;
+  loseLife(state, events);
+};
+
+// Falling into a gap always costs a life (shields don't help), then puts the
+// player back on the nearest lane that has floor, or where they are if every
+// lane in reach is over a gap (see hasFloor)
+export const applyFall = (state: SimState, events: SimEvent[]) => {
+  loseLife(state, events);
+  if (state.status === GameStatus.GAME_OVER) return;
+
+  const player = state.player;
+  const maxLane = Math.floor(state.laneCount / 2);
+  const isSafe = (l: number) => Math.abs(l) <= maxLane && !isOverGap(state, l * LANE_WIDTH);
+
+  let lane = player.lane;
+  for (let offset = 1; !isSafe(lane) && offset <= maxLane * 2; offset++) {
+    if (isSafe(player.lane + offset)) lane = player.lane + offset;
+    else if (isSafe(player.lane - offset)) lane = player.lane - offset;
+  }
+
+  player.lane = lane;
+  player.x = lane * LANE_WIDTH;
+  player.y = 0;
+  player.velocityY = 0;
+  player.isJumping = false;
+  player.isFalling = false;
+  player.jumpsPerformed = 0;
+  player.laneQueue = [];
+  player.onLedge = false;
+  cancelTimer(state.clock, 'slide');
+  cancelTimer(state.clock, 'jumpBuffer');
+};
+
+export const activateMagnet = (state: SimState) => {
+  startTimer(state.clock, 'magnet', POWERUP_DURATION + state.upgrades.magnetDuration);
+};
+
+export const activateShield = (state: SimState) => {
+  startTimer(state.clock, 'shield', POWERUP_DURATION + state.upgrades.shieldDuration);
+};
+
+export const activateSpeedBoost = (state: SimState, events: SimEvent[]) => {
+  startTimer(state.clock, 'speedBoost', SPEED_BOOST_DURATION);
+  state.stats.speedBoostsCollected += 1;
+  events.push({ type: 'boost', active: true });
+};
+
+export const activateImmortality = (state: SimState, events: SimEvent[]) => {
+  if (state.hasImmortality && !isImmortalityActive(state)) {
+    startTimer(state.clock, 'immortality', IMMORTALITY_DURATION);
+    events.push({ type: 'ability', active: true });
+  }
+};
+
+// Advances the run clock, emitting expiry events for effects that ran out this step
+export const updateTimers = (state: SimState, dt: number, events: SimEvent[]) => {
+  for (const name of advanceClock(state.clock, dt)) {
+    if (name === 'immortality') events.push({ type: 'ability', active: false });
+    else if (name === 'speedBoost') events.push({ type: 'boost', active: false });
+    else if (name === 'combo') decayCombo(state, events);
+  }
+};
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ObjectType } from '../types';
+import { SeededRandom } from './random';
+import { LevelDefinition, SegmentDefinition } from './types';
+import { MAX_LANES } from './constants';
+import { isObject } from './utils';
+import segmentData from './segments.json' with { type: 'json' };
+
+// Authored track segments (slaloms, staircases, gem arcs...) that the spawner
+// stitches in between random rows. Each row of a segment is a string with one
+// token per lane; a token is "." for an empty lane or one or more symbols, e.g.
+// "^3" is spikes with a gem hovering at height 3.
+
+const SYMBOLS: Record<string, ObjectType> = {
+  '#': ObjectType.OBSTACLE,
+  '^': ObjectType.SPIKE_FLOOR,
+  '-': ObjectType.OVERHEAD_BAR,
+  '=': ObjectType.LASER_GATE, // Single-lane laser
+  'T': ObjectType.TURRET,
+  'D': ObjectType.DRONE,
+  'A': ObjectType.ALIEN,
+  '_': ObjectType.GAP,
+  'J': ObjectType.JUMP_PAD,
+  '>': ObjectType.SPEED_BOOST,
+  'S': ObjectType.SHIELD,
+  'M': ObjectType.MAGNET,
+};
+// Digits 1-5 place a gem, higher digits float higher
+const GEM_HEIGHTS: Record<string, number> = { '1': 1.2, '2': 1.8, '3': 2.4, '4': 3.0, '5': 3.6 };
+
+export interface SegmentPiece {
+  column: number; // 0 = leftmost lane the segment covers
+  type: ObjectType;
+  height?: number; // Gems only
+}
+
+export interface TrackSegment {
+  name: string;
+  difficulty: number;
+  tags: string[];
+  spacing: number;
+  width: number; // Lanes covered
+  rows: SegmentPiece[][];
+}
+
+const parseRow = (row: string, where: string, errors: string[]): SegmentPiece[] => {
+  const pieces: SegmentPiece[] = [];
+  row.split(' ').forEach((token, column) => {
+    if (token === '.') return;
+    for (const symbol of token) {
+      if (symbol in GEM_HEIGHTS) pieces.push({ column, type: ObjectType.GEM, height: GEM_HEIGHTS[symbol] });
+      else if (symbol in SYMBOLS) pieces.push({ column, type: SYMBOLS[symbol] });
+      else errors.push(`${where}: unknown symbol "${symbol}" in "${token}"`);
+    }
+  });
+  return pieces;
+};
+
+const parseSegment = (value: unknown, index: number, names: Set<string>, errors: string[]): TrackSegment | null => {
+  const where = `segments[${index}]`;
+  if (!isObject(value)) {
+    errors.push(`${where}: must be an object`);
+    return null;
+  }
+  const { name, difficulty, tags, spacing, rows } = value as Partial<Record<keyof SegmentDefinition, unknown>>;
+  const errorCount = errors.length;
+
+  if (typeof name !== 'string' || name.length === 0) errors.push(`${where}.name: must be a non-empty string`);
+  else if (names.has(name)) errors.push(`${where}.name: "${name}" is used twice`);
+  else names.add(name);
+
+  if (typeof difficulty !== 'number' || !Number.isInteger(difficulty) || difficulty < 1 || difficulty > 5) {
+    errors.push(`${where}.difficulty: must be a whole number from 1 to 5`);
+  }
+  if (!Array.isArray(tags) || tags.length === 0 || !tags.every(t => typeof t === 'string')) {
+    errors.push(`${where}.tags: must be a non-empty list of strings`);
+  }
+  if (typeof spacing !== 'number' || spacing < 2 || spacing > 50) errors.push(`${where}.spacing: must be between 2 and 50`);
+
+  if (!Array.isArray(rows) || rows.length === 0 || !rows.every(r => typeof r === 'string')) {
+    errors.push(`${where}.rows: must be a non-empty list of strings`);
+    return null;
+  }
+
+  const width = rows[0].split(' ').length;
+  if (width > MAX_LANES) errors.push(`${where}.rows: wider than ${MAX_LANES} lanes`);
+
+  const parsedRows = rows.map((row: string, i) => {
+    const rowWhere = `${where}.rows[${i}]`;
+    const tokens = row.split(' ');
+    if (tokens.length !== width) errors.push(`${rowWhere}: has ${tokens.length} lanes, expected ${width}`);
+    // Never cut the whole track
+    if (tokens.length === width && tokens.every(t => t.includes('_'))) errors.push(`${rowWhere}: leaves no floor to run on`);
+    return parseRow(row, rowWhere, errors);
+  });
+
+  if (errors.length > errorCount) return null;
+  return {
+    name: name as string,
+    difficulty: difficulty as number,
+    tags: tags as string[],
+    spacing: spacing as number,
+    width,
+    rows: parsedRows,
+  };
+};
+
+// Parses the authored segments, rejecting unknown symbols, ragged rows and
+// rows with no floor. Every bad segment and row is reported, not just the first.
+export const parseSegmentDefinitions = (data: unknown): TrackSegment[] => {
+  const errors: string[] = [];
+  const segments: TrackSegment[] = [];
+  const list = isObject(data) ? data.segments : undefined;
+
+  if (!Array.isArray(list)) {
+    errors.push('"segments" must be an array');
+  } else {
+    const names = new Set<string>();
+    list.forEach((value, i) => {
+      const segment = parseSegment(value, i, names, errors);
+      if (segment) segments.push(segment);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid segment definitions:\n  ${errors.join('\n  ')}`);
+  }
+  return segments;
+};
+
+const SEGMENTS = parseSegmentDefinitions(segmentData);
+
+export const SEGMENT_TAGS = new Set(SEGMENTS.flatMap(s => s.tags));
+
+// Random segment that fits the track and the level's difficulty and tags, or
+// null if none does (the spawner then falls back to a random row)
+export const pickSegment = (rng: SeededRandom, config: LevelDefinition): TrackSegment | null => {
+  const candidates = SEGMENTS.filter(s =>
+    s.width <= config.laneCount &&
+    s.difficulty <= config.maxSegmentDifficulty &&
+    (config.segmentTags.length === 0 || s.tags.some(t => config.segmentTags.includes(t)))
+  );
+  return candidates.length > 0 ? rng.pick(candidates) : null;
+};
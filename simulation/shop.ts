@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameStatus } from '../types';
+import { RunUpgrades, ShopEffectType, ShopItemDefinition, ShopItemType, ShopRarity, SimState } from './types';
+import { SHOP_OFFER_SIZE, SHOP_PRICE_GROWTH, SHOP_REROLL, SHOP_REROLL_COST } from './constants';
+import { isObject } from './utils';
+import shopData from './shopItems.json' with { type: 'json' };
+
+// The shop opened between levels. Items are data (shopItems.json): each has a
+// rarity, which sets how often it is offered, and a list of effects applied
+// through EFFECTS when it is bought. Offers are drawn from the run's shop
+// stream so a replay sees the same ones.
+
+interface EffectHandler {
+  apply: (state: SimState, amount: number) => void;
+  isMaxed?: (state: SimState) => boolean; // Nothing left to gain from it right now
+}
+
+const addUpgrade = (field: keyof RunUpgrades): EffectHandler => ({
+  apply: (state, amount) => { state.upgrades[field] += amount; },
+});
+
+const EFFECTS: Record<ShopEffectType, EffectHandler> = {
+  heal: {
+    apply: (state, amount) => { state.lives = Math.min(state.lives + amount, state.maxLives); },
+    isMaxed: state => state.lives >= state.maxLives,
+  },
+  maxLives: {
+    apply: (state, amount) => {
+      state.maxLives += amount;
+      state.lives += amount;
+    },
+  },
+  doubleJump: {
+    apply: state => { state.hasDoubleJump = true; },
+    isMaxed: state => state.hasDoubleJump,
+  },
+  immortality: {
+    apply: state => { state.hasImmortality = true; },
+    isMaxed: state => state.hasImmortality,
+  },
+  magnetDuration: addUpgrade('magnetDuration'),
+  shieldDuration: addUpgrade('shieldDuration'),
+  revives: addUpgrade('revives'),
+  gemValue: addUpgrade('gemValue'),
+  laneChangeSpeed: addUpgrade('laneChangeSpeed'),
+};
+
+const RARITIES: ShopRarity[] = ['common', 'rare', 'epic'];
+
+const parseItem = (value: unknown, index: number, ids: Set<string>, errors: string[]): ShopItemDefinition | null => {
+  const where = `items[${index}]`;
+  if (!isObject(value)) {
+    errors.push(`${where}: must be an object`);
+    return null;
+  }
+  const { id, name, description, rarity, cost, maxStacks, effects } = value;
+  const errorCount = errors.length;
+
+  if (typeof id !== 'string' || !/^[A-Z_]+$/.test(id)) errors.push(`${where}.id: must be an UPPER_CASE string`);
+  else if (id === SHOP_REROLL) errors.push(`${where}.id: "${SHOP_REROLL}" is reserved`);
+  else if (ids.has(id)) errors.push(`${where}.id: "${id}" is used twice`);
+  else ids.add(id);
+
+  if (typeof name !== 'string' || name.length === 0) errors.push(`${where}.name: must be a non-empty string`);
+  if (typeof description !== 'string') errors.push(`${where}.description: must be a string`);
+  if (!RARITIES.includes(rarity as ShopRarity)) errors.push(`${where}.rarity: must be one of ${RARITIES.join(', ')}`);
+  if (typeof cost !== 'number' || !Number.isInteger(cost) || cost <= 0) errors.push(`${where}.cost: must be a positive whole number`);
+  if (maxStacks !== undefined && (typeof maxStacks !== 'number' || !Number.isInteger(maxStacks) || maxStacks < 1)) {
+    errors.push(`${where}.maxStacks: must be a whole number of at least 1`);
+  }
+
+  const parsedEffects: ShopItemDefinition['effects'] = [];
+  if (!Array.isArray(effects) || effects.length === 0) {
+    errors.push(`${where}.effects: must be a non-empty list`);
+  } else {
+    effects.forEach((effect, i) => {
+      const effectWhere = `${where}.effects[${i}]`;
+      if (!isObject(effect) || typeof effect.type !== 'string' || !(effect.type in EFFECTS)) {
+        errors.push(`${effectWhere}.type: must be one of ${Object.keys(EFFECTS).join(', ')}`);
+        return;
+      }
+      const amount = effect.amount ?? 1;
+      if (typeof amount !== 'number' || amount <= 0) {
+        errors.push(`${effectWhere}.amount: must be a positive number`);
+        return;
+      }
+      parsedEffects.push({ type: effect.type as ShopEffectType, amount });
+    });
+  }
+
+  if (errors.length > errorCount) return null;
+  return {
+    id: id as string,
+    name: name as string,
+    description: description as string,
+    rarity: rarity as ShopRarity,
+    cost: cost as number,
+    maxStacks: maxStacks as number | undefined,
+    effects: parsedEffects,
+  };
+};
+
+export interface ShopCatalog {
+  weights: Record<ShopRarity, number>; // Relative chance of an item of each rarity being offered
+  items: ShopItemDefinition[];
+}
+
+// Reads the rarity weights and items from shopItems.json. Duplicate ids and
+// effects EFFECTS doesn't know are errors, reported together with the rest.
+export const parseShopDefinitions = (data: unknown): ShopCatalog => {
+  const errors: string[] = [];
+  const weights = {} as Record<ShopRarity, number>;
+  const items: ShopItemDefinition[] = [];
+
+  const rarities = isObject(data) ? data.rarities : undefined;
+  if (!isObject(rarities)) {
+    errors.push('"rarities" must be an object');
+  } else {
+    for (const rarity of RARITIES) {
+      const weight = isObject(rarities[rarity]) ? (rarities[rarity] as Record<string, unknown>).weight : undefined;
+      if (typeof weight !== 'number' || weight <= 0) errors.push(`rarities.${rarity}.weight: must be a positive number`);
+      else weights[rarity] = weight;
+    }
+  }
+
+  const list = isObject(data) ? data.items : undefined;
+  if (!Array.isArray(list)) {
+    errors.push('"items" must be an array');
+  } else {
+    const ids = new Set<string>();
+    list.forEach((value, i) => {
+      const item = parseItem(value, i, ids, errors);
+      if (item) items.push(item);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid shop definitions:\n  ${errors.join('\n  ')}`);
+  }
+  return { weights, items };
+};
+
+const CATALOG = parseShopDefinitions(shopData);
+
+export const getShopItem = (id: ShopItemType): ShopItemDefinition | undefined =>
+  CATALOG.items.find(item => item.id === id);
+
+const getPriceScale = (state: SimState) => 1 + SHOP_PRICE_GROWTH * (state.level - 1);
+
+// Price at the current level, rounded to a tidy number
+export const getItemCost = (state: SimState, item: ShopItemDefinition) =>
+  Math.round(item.cost * getPriceScale(state) / 10) * 10;
+
+export const getRerollCost = (state: SimState) =>
+  Math.round(SHOP_REROLL_COST * getPriceScale(state) * 2 ** (state.shop?.rerolls ?? 0) / 10) * 10;
+
+// Whether the player can still get anything out of `item`
+export const isItemAvailable = (state: SimState, item: ShopItemDefinition) =>
+  (item.maxStacks === undefined || (state.itemsBought[item.id] ?? 0) < item.maxStacks) &&
+  !item.effects.every(effect => EFFECTS[effect.type].isMaxed?.(state));
+
+// Weighted draw without repeats from the items still worth buying
+const drawOffer = (state: SimState): ShopItemType[] => {
+  const pool = CATALOG.items.filter(item => isItemAvailable(state, item));
+  const offer: ShopItemType[] = [];
+
+  while (offer.length < SHOP_OFFER_SIZE && pool.length > 0) {
+    const total = pool.reduce((sum, item) => sum + CATALOG.weights[item.rarity], 0);
+    let roll = state.shopRng.next() * total;
+    let index = 0;
+    while (index < pool.length - 1 && roll >= CATALOG.weights[pool[index].rarity]) {
+      roll -= CATALOG.weights[pool[index].rarity];
+      index++;
+    }
+    offer.push(pool[index].id);
+    pool.splice(index, 1);
+  }
+  return offer;
+};
+
+export const openShop = (state: SimState) => {
+  state.status = GameStatus.SHOP;
+  state.shop = { offer: [], rerolls: 0 };
+  state.shop.offer = drawOffer(state);
+};
+
+export const closeShop = (state: SimState) => {
+  state.status = GameStatus.PLAYING;
+  state.shop = null;
+};
+
+// Buys an item from the current offer. Buying reduces spendable score but not
+// totalScore, so shopping doesn't slow the run down.
+export const purchase = (state: SimState, id: ShopItemType): boolean => {
+  const item = getShopItem(id);
+  if (!state.shop || !item || !state.shop.offer.includes(id) || !isItemAvailable(state, item)) return false;
+
+  const cost = getItemCost(state, item);
+  if (state.score < cost) return false;
+  state.score -= cost;
+
+  for (const effect of item.effects) EFFECTS[effect.type].apply(state, effect.amount);
+  state.itemsBought[id] = (state.itemsBought[id] ?? 0) + 1;
+  return true;
+};
+
+// Pays to replace the current offer with a fresh draw
+export const rerollShop = (state: SimState): boolean => {
+  if (!state.shop) return false;
+
+  const cost = getRerollCost(state);
+  if (state.score < cost) return false;
+  state.score -= cost;
+
+  state.shop.rerolls += 1;
+  state.shop.offer = drawOffer(state);
+  return true;
+};
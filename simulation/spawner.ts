@@ -0,0 +1,358 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, ObjectType, LANE_WIDTH, SPAWN_DISTANCE } from '../types';
+import { SeededRandom } from './random';
+import { LevelDefinition, SimState, WeightedObstacleType } from './types';
+import { GAP_LENGTH, OBSTACLE_HEIGHT, PHRASE_LETTERS, getLevelLetterIndices } from './constants';
+import { WEIGHTED_OBSTACLES, getLevelConfig } from './levels';
+import { SegmentPiece, TrackSegment, pickSegment } from './segments';
+import { createObject } from './run';
+import { ensurePassable } from './fairness';
+import { getLanes } from './utils';
+
+// Cycle through colors for visual variety
+const LETTER_COLORS = ['#00ffff', '#ff00ff', '#ffff00', '#00ff00', '#ff6600', '#ff0066',
+                       '#6600ff', '#00ff88', '#ff8800', '#0088ff', '#ff0088', '#88ff00'];
+
+const getRandomLane = (rng: SeededRandom, laneCount: number) => {
+    const max = Math.floor(laneCount / 2);
+    return rng.int(-max, max);
+};
+
+const getShuffledLanes = (rng: SeededRandom, laneCount: number) => rng.shuffle(getLanes(laneCount));
+
+// Picks a weighted obstacle for `roll`, or null if the roll landed past all the weights
+const pickWeightedObstacle = (weights: Record<WeightedObstacleType, number>, roll: number): WeightedObstacleType | null => {
+    let threshold = 0;
+    for (const type of WEIGHTED_OBSTACLES) {
+        if (weights[type] <= 0) continue; // Locked on this level
+        threshold += weights[type];
+        if (roll < threshold) return type;
+    }
+    return null;
+};
+
+// Same look and setup as the randomly spawned version of each object
+const createSegmentObject = (state: SimState, piece: SegmentPiece, x: number, z: number, config: LevelDefinition): GameObject => {
+    switch (piece.type) {
+        case ObjectType.OBSTACLE:
+            return createObject(state, { type: piece.type, position: [x, OBSTACLE_HEIGHT / 2, z], active: true, color: '#ff0054' });
+        case ObjectType.SPIKE_FLOOR:
+            return createObject(state, { type: piece.type, position: [x, 0, z], active: true, color: '#cc0000' });
+        case ObjectType.OVERHEAD_BAR:
+            return createObject(state, { type: piece.type, position: [x, 1.5, z], active: true, color: '#ff00aa' });
+        case ObjectType.LASER_GATE:
+            return createObject(state, { type: piece.type, position: [x, 0.8, z], active: true, color: '#ff0000', laserActive: true, value: '1' });
+        case ObjectType.TURRET:
+            return createObject(state, { type: piece.type, position: [x, 0.2, z], active: true, color: '#666666', hasFired: false });
+        case ObjectType.DRONE:
+            return createObject(state, { type: piece.type, position: [x, 1.5, z], active: true, color: '#111111' });
+        case ObjectType.ALIEN:
+            return createObject(state, { type: piece.type, position: [x, 1.5, z], active: true, color: '#00ff00', hasFired: false });
+        case ObjectType.GAP:
+            return createObject(state, { type: piece.type, position: [x, 0, z], active: true, color: '#ff0054', length: GAP_LENGTH });
+        case ObjectType.JUMP_PAD:
+            return createObject(state, { type: piece.type, position: [x, 0.1, z], active: true, color: '#00ff88' });
+        case ObjectType.SPEED_BOOST:
+            return createObject(state, { type: piece.type, position: [x, 0.5, z], active: true, color: '#ffaa00' });
+        case ObjectType.SHIELD:
+            return createObject(state, { type: piece.type, position: [x, 1.2, z], active: true, color: '#00ffff' });
+        case ObjectType.MAGNET:
+            return createObject(state, { type: piece.type, position: [x, 1.2, z], active: true, color: '#d000ff' });
+        default:
+            return createObject(state, { type: ObjectType.GEM, position: [x, piece.height ?? 1.2, z], active: true, color: '#00ffff', points: config.gemValue });
+    }
+};
+
+// Lays out an authored segment starting at `spawnZ`, at a random position across
+// the track. Rows spread out with speed like random rows do.
+const spawnSegment = (state: SimState, objects: GameObject[], segment: TrackSegment, spawnZ: number, config: LevelDefinition) => {
+    const maxLane = Math.floor(state.laneCount / 2);
+    const firstLane = state.rng.int(-maxLane, maxLane - segment.width + 1);
+    const rowGap = segment.spacing + state.speed * 0.1;
+
+    segment.rows.forEach((row, i) => {
+        const z = spawnZ - i * rowGap;
+        for (const piece of row) {
+            objects.push(createSegmentObject(state, piece, (firstLane + piece.column) * LANE_WIDTH, z, config));
+        }
+    });
+};
+
+type SpawnKind = 'row' | 'segment';
+
+// Appends the next row of objects to `objects` once the track ahead has room.
+// Returns what was spawned, or null if nothing was.
+const spawnNext = (state: SimState, objects: GameObject[]): SpawnKind | null => {
+    const { rng, level, laneCount, speed } = state;
+
+    let furthestZ = 0;
+    const staticObjects = objects.filter(o => o.type !== ObjectType.MISSILE && o.type !== ObjectType.DRONE);
+
+    if (staticObjects.length > 0) {
+        furthestZ = Math.min(...staticObjects.map(o => o.position[2]));
+    } else {
+        furthestZ = -20;
+    }
+
+    if (furthestZ <= -SPAWN_DISTANCE) return null;
+
+    const config = getLevelConfig(level);
+    const minGap = config.minGap + (speed * 0.3);
+    const spawnZ = Math.min(furthestZ - minGap, -SPAWN_DISTANCE);
+
+    const isLetterDue = state.distance >= state.nextLetterDistance;
+
+    if (isLetterDue) {
+        const lane = getRandomLane(rng, laneCount);
+        // Get letters available for this level (includes carryover from previous levels)
+        const availableIndices = getLevelLetterIndices(level, state.collectedLetters);
+
+        if (availableIndices.length > 0) {
+            const chosenIndex = rng.pick(availableIndices);
+
+            objects.push(createObject(state, {
+                type: ObjectType.LETTER,
+                position: [lane * LANE_WIDTH, 1.0, spawnZ],
+                active: true,
+                color: LETTER_COLORS[chosenIndex % LETTER_COLORS.length],
+                value: PHRASE_LETTERS[chosenIndex],
+                targetIndex: chosenIndex
+            }));
+
+            state.nextLetterDistance += config.letterInterval;
+        } else {
+            // No letters left to collect for this level - fill the slot with a gem
+            objects.push(createObject(state, {
+                type: ObjectType.GEM,
+                position: [lane * LANE_WIDTH, 1.2, spawnZ],
+                active: true,
+                color: '#00ffff',
+                points: config.gemValue
+            }));
+        }
+        return 'row';
+    }
+
+    if (rng.next() <= 0.1) return null;
+
+    // Gaps - missing floor in one or more lanes, always leaving at least one lane of track
+    if (config.gapChance > 0 && rng.next() < config.gapChance) {
+        const availableLanes = getShuffledLanes(rng, laneCount);
+        const gapCount = Math.min(rng.int(1, config.maxGapLanes), availableLanes.length - 1);
+        for (let i = 0; i < gapCount; i++) {
+            objects.push(createObject(state, {
+                type: ObjectType.GAP,
+                position: [availableLanes[i] * LANE_WIDTH, 0, spawnZ],
+                active: true,
+                color: '#ff0054',
+                length: GAP_LENGTH
+            }));
+        }
+        return 'row';
+    }
+
+    // Authored segments, stitched onto the track like any other row
+    if (config.segmentChance > 0 && rng.next() < config.segmentChance) {
+        const segment = pickSegment(rng, config);
+        if (segment) {
+            spawnSegment(state, objects, segment, spawnZ, config);
+            return 'segment';
+        }
+    }
+
+    const isObstacle = rng.next() < config.obstacleChance;
+
+    if (isObstacle) {
+        // Determine obstacle type from the level's weights
+        const obstacleType = pickWeightedObstacle(config.obstacleWeights, rng.next());
+
+        // Laser Gates
+        if (obstacleType === ObjectType.LASER_GATE) {
+            // Laser gate spans multiple lanes
+            const gateWidth = Math.min(config.laserGateWidth, laneCount);
+            objects.push(createObject(state, {
+                type: ObjectType.LASER_GATE,
+                position: [0, 0.8, spawnZ],
+                active: true,
+                color: '#ff0000',
+                laserActive: true,
+                value: String(gateWidth) // Store gate width
+            }));
+        }
+        // Moving Barriers
+        else if (obstacleType === ObjectType.BARRIER) {
+            const lane = getRandomLane(rng, laneCount);
+            objects.push(createObject(state, {
+                type: ObjectType.BARRIER,
+                position: [lane * LANE_WIDTH, 1.25, spawnZ],
+                active: true,
+                color: '#ff6600',
+                moveDirection: rng.next() > 0.5 ? 1 : -1,
+                moveSpeed: config.barrierSpeed
+            }));
+        }
+        // Spike Floors
+        else if (obstacleType === ObjectType.SPIKE_FLOOR) {
+            const availableLanes = getShuffledLanes(rng, laneCount);
+            const spikeCount = Math.min(rng.int(1, 3), availableLanes.length);
+            for (let i = 0; i < spikeCount; i++) {
+                objects.push(createObject(state, {
+                    type: ObjectType.SPIKE_FLOOR,
+                    position: [availableLanes[i] * LANE_WIDTH, 0, spawnZ],
+                    active: true,
+                    color: '#cc0000'
+                }));
+            }
+        }
+        // Turrets
+        else if (obstacleType === ObjectType.TURRET) {
+            const lane = getRandomLane(rng, laneCount);
+            objects.push(createObject(state, {
+                type: ObjectType.TURRET,
+                position: [lane * LANE_WIDTH, 0.2, spawnZ],
+                active: true,
+                color: '#666666',
+                hasFired: false
+            }));
+        }
+        // Overhead Bars
+        else if (obstacleType === ObjectType.OVERHEAD_BAR) {
+            const availableLanes = getShuffledLanes(rng, laneCount);
+            const barCount = Math.min(rng.int(1, 2), availableLanes.length);
+            for (let i = 0; i < barCount; i++) {
+                objects.push(createObject(state, {
+                    type: ObjectType.OVERHEAD_BAR,
+                    position: [availableLanes[i] * LANE_WIDTH, 1.5, spawnZ],
+                    active: true,
+                    color: '#ff00aa'
+                }));
+            }
+        }
+        // Drones
+        else if (rng.next() < config.droneChance) {
+            const lane = getRandomLane(rng, laneCount);
+            objects.push(createObject(state, {
+                type: ObjectType.DRONE,
+                position: [lane * LANE_WIDTH, 1.5, spawnZ],
+                active: true,
+                color: '#111111'
+            }));
+        }
+        // Aliens
+        else if (rng.next() < config.alienChance) {
+            const availableLanes = getShuffledLanes(rng, laneCount);
+
+            let alienCount = 1;
+            const pAlien = rng.next();
+            if (pAlien > 0.7) alienCount = Math.min(2, availableLanes.length);
+            if (pAlien > 0.9 && availableLanes.length >= 3) alienCount = 3;
+
+            for (let k = 0; k < alienCount; k++) {
+                objects.push(createObject(state, {
+                    type: ObjectType.ALIEN,
+                    position: [availableLanes[k] * LANE_WIDTH, 1.5, spawnZ],
+                    active: true,
+                    color: '#00ff00',
+                    hasFired: false
+                }));
+            }
+        } else {
+            // Standard Obstacles
+            const availableLanes = getShuffledLanes(rng, laneCount);
+
+            let countToSpawn = 1;
+            const p = rng.next();
+
+            if (p > config.tripleObstacleChance) countToSpawn = Math.min(3, availableLanes.length);
+            else if (p > config.multiObstacleChance) countToSpawn = Math.min(2, availableLanes.length);
+
+            for (let i = 0; i < countToSpawn; i++) {
+                const laneX = availableLanes[i] * LANE_WIDTH;
+
+                objects.push(createObject(state, {
+                    type: ObjectType.OBSTACLE,
+                    position: [laneX, OBSTACLE_HEIGHT / 2, spawnZ],
+                    active: true,
+                    color: '#ff0054'
+                }));
+
+                // Chance for Powerup or Gem on top of obstacle
+                const topRoll = rng.next();
+                if (topRoll < config.powerupChance) {
+                    // Powerup Spawn
+                    const isShield = rng.next() > 0.5;
+                    objects.push(createObject(state, {
+                        type: isShield ? ObjectType.SHIELD : ObjectType.MAGNET,
+                        position: [laneX, OBSTACLE_HEIGHT + 1.0, spawnZ],
+                        active: true,
+                        color: isShield ? '#00ffff' : '#d000ff'
+                    }));
+                } else if (topRoll < config.obstacleGemChance) {
+                    objects.push(createObject(state, {
+                        type: ObjectType.GEM,
+                        position: [laneX, OBSTACLE_HEIGHT + 1.0, spawnZ],
+                        active: true,
+                        color: '#ffd700',
+                        points: config.gemBonusValue
+                    }));
+                }
+            }
+        }
+    } else {
+        // Ground Items
+        const lane = getRandomLane(rng, laneCount);
+
+        // Jump Pads
+        if (config.jumpPadChance > 0 && rng.next() < config.jumpPadChance) {
+            objects.push(createObject(state, {
+                type: ObjectType.JUMP_PAD,
+                position: [lane * LANE_WIDTH, 0.1, spawnZ],
+                active: true,
+                color: '#00ff88'
+            }));
+        }
+        // Speed Boosts
+        else if (config.speedBoostChance > 0 && rng.next() < config.speedBoostChance) {
+            objects.push(createObject(state, {
+                type: ObjectType.SPEED_BOOST,
+                position: [lane * LANE_WIDTH, 0.5, spawnZ],
+                active: true,
+                color: '#ffaa00'
+            }));
+        }
+        // Powerup chance
+        else if (rng.next() < config.powerupChance) {
+            const isShield = rng.next() > 0.5;
+            objects.push(createObject(state, {
+                type: isShield ? ObjectType.SHIELD : ObjectType.MAGNET,
+                position: [lane * LANE_WIDTH, 1.2, spawnZ],
+                active: true,
+                color: isShield ? '#00ffff' : '#d000ff'
+            }));
+        } else {
+            // Standard gem with level-scaled value
+            objects.push(createObject(state, {
+                type: ObjectType.GEM,
+                position: [lane * LANE_WIDTH, 1.2, spawnZ],
+                active: true,
+                color: '#00ffff',
+                points: config.gemValue
+            }));
+        }
+    }
+    return 'row';
+};
+
+// Spawns the next row and makes sure it leaves the player a way through.
+// Returns true if anything was spawned.
+export const spawnObjects = (state: SimState, objects: GameObject[]): boolean => {
+    const firstNew = objects.length;
+    const kind = spawnNext(state, objects);
+    if (!kind) return false;
+    return ensurePassable(state, objects, firstNew, kind === 'segment');
+};
@@ -0,0 +1,298 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { Boss, BossType, GameObject, GameStatus, ObjectType } from '../types';
+import { SeededRandom } from './random';
+import { GameClock } from './clock';
+import type { SHOP_REROLL } from './constants';
+
+export type ShopItemType = string; // Item id from simulation/shopItems.json
+
+// Discrete player commands fed into a simulation step
+export enum InputAction {
+  MOVE_LEFT = 'MOVE_LEFT',
+  MOVE_RIGHT = 'MOVE_RIGHT',
+  JUMP = 'JUMP',
+  ABILITY = 'ABILITY',
+  SLIDE = 'SLIDE'
+}
+
+export interface PlayerState {
+  lane: number;
+  x: number;
+  y: number;
+  velocityY: number;
+  isJumping: boolean;
+  isFalling: boolean; // Dropped into a gap; no control until respawn
+  jumpsPerformed: number;
+  laneQueue: number[]; // Lane steps (-1 or 1) waiting for the current change to get far enough along
+  onLedge: boolean; // Ran off the floor over a gap and is in the coyote window
+}
+
+// simulation/gameFeel.json: input timing windows
+export interface GameFeelConfig {
+  jumpBufferTime: number; // Seconds a jump pressed with none left is remembered, to fire on landing
+  coyoteTime: number; // Seconds after running off an edge in which a jump still counts as from the floor
+  laneQueueSize: number; // Lane changes that can wait behind the one in progress
+  laneQueueThreshold: number; // How far along (0-1) a lane change gets before the next queued one starts
+}
+
+// Gaps have no hitbox; falling into one is handled by player physics
+export type HitboxObjectType = Exclude<ObjectType, ObjectType.GAP>;
+
+// Vertical extents of a hitbox are measured from the floor, or from the
+// object's own height for things that float or fly
+export type HitboxAnchor = 'floor' | 'object';
+
+// One entry of simulation/hitboxes.json
+export interface Hitbox {
+  width: number; // x extent, centred on the object
+  depth: number; // z extent, centred on the object
+  bottom: number;
+  top: number;
+  anchor: HitboxAnchor;
+}
+
+// What touching an object does to the player
+export type ObjectBehavior = 'damage' | 'pickup' | 'trigger';
+
+// Missile an object fires down its lane as it approaches
+export interface ObjectWeapon {
+  range: number; // Fires once it is this far ahead of the player
+  height: number;
+  color: string;
+}
+
+// Handed to object rule hooks while the world updates
+export interface ObjectContext {
+  state: SimState;
+  dt: number;
+  player: { x: number; y: number };
+  events: SimEvent[];
+  spawned: GameObject[]; // Objects created this step, added to the track after it
+}
+
+// How one object type behaves; the rules live in simulation/objects/
+export interface ObjectRule {
+  behavior: ObjectBehavior | null; // null: never touched (gaps are handled by player physics)
+  hitbox: Hitbox | null;
+  sizeHitbox?: (hitbox: Hitbox, obj: GameObject) => Hitbox; // For types whose size varies per object
+  spansTrack?: boolean; // Reached in any lane and at any height, so only depth is checked
+  speed?: number; // Extra speed toward the player on top of the track scroll
+  weapon?: ObjectWeapon;
+  update?: (obj: GameObject, ctx: ObjectContext) => void; // Movement and AI while active
+  onHit?: (obj: GameObject, ctx: ObjectContext) => boolean | void; // Pickup or trigger effect; true if it completes the level
+  onMiss?: (obj: GameObject, ctx: ObjectContext) => void; // Got past the player untouched
+}
+
+// Obstacles picked by weight from an obstacle row; whatever weight is left over
+// goes to drones, aliens and standard blocks
+export type WeightedObstacleType =
+  | ObjectType.LASER_GATE
+  | ObjectType.BARRIER
+  | ObjectType.SPIKE_FLOOR
+  | ObjectType.TURRET
+  | ObjectType.OVERHEAD_BAR;
+
+export interface BossDefinition {
+  type: BossType;
+  health: number;
+}
+
+// One entry of simulation/levels.json. Chances are per spawned row, 0-1.
+export interface LevelDefinition {
+  level: number;
+  distance: number; // Distance to travel before the level ends
+  laneCount: number; // Odd, so there is always a centre lane
+  letterInterval: number; // Distance between letter spawns
+  minGap: number; // Minimum spacing between rows (grows with speed)
+
+  obstacleChance: number;
+  multiObstacleChance: number; // Standard blocks: rolls above this spawn 2
+  tripleObstacleChance: number; // ...and above this spawn 3
+  obstacleWeights: Record<WeightedObstacleType, number>; // 0 = locked
+  laserGateWidth: number; // Lanes covered by a laser gate
+  barrierSpeed: number;
+  droneChance: number;
+  alienChance: number;
+
+  gapChance: number;
+  maxGapLanes: number;
+
+  jumpPadChance: number;
+  speedBoostChance: number;
+  powerupChance: number;
+  obstacleGemChance: number; // Standard blocks: rolls below this (and above powerupChance) carry a gem
+
+  gemValue: number;
+  gemBonusValue: number; // Gems on top of obstacles and boss drops
+
+  segmentChance: number; // Rows replaced by an authored segment from segments.json
+  maxSegmentDifficulty: number;
+  segmentTags: string[]; // Only segments with one of these tags; empty allows any
+
+  boss: BossDefinition | null; // Fought at the end of the level
+}
+
+// One entry of simulation/segments.json
+export interface SegmentDefinition {
+  name: string;
+  difficulty: number; // 1 (gentle) to 5
+  tags: string[];
+  spacing: number; // Distance between rows before speed scaling
+  rows: string[]; // Nearest row first, one space-separated token per lane
+}
+
+export type ShopRarity = 'common' | 'rare' | 'epic';
+
+// Lasting effects of shop items bought during the run
+export interface RunUpgrades {
+  magnetDuration: number; // Extra seconds per magnet pickup
+  shieldDuration: number; // Extra seconds per shield pickup
+  revives: number; // Spent instead of the last life
+  gemValue: number; // Fraction added to the points of each gem
+  laneChangeSpeed: number; // Fraction added to the lane change rate
+}
+
+export type ShopEffectType = 'heal' | 'maxLives' | 'doubleJump' | 'immortality' | keyof RunUpgrades;
+
+export interface ShopEffect {
+  type: ShopEffectType;
+  amount: number;
+}
+
+// One entry of simulation/shopItems.json
+export interface ShopItemDefinition {
+  id: ShopItemType;
+  name: string;
+  description: string;
+  rarity: ShopRarity;
+  cost: number; // Credits at level 1, see getItemCost
+  maxStacks?: number; // Times it can be bought per run, unlimited if left out
+  effects: ShopEffect[];
+}
+
+// The shop while the player is in it
+export interface ShopVisit {
+  offer: ShopItemType[];
+  rerolls: number; // Paid rerolls so far this visit
+}
+
+// How a lane of an upcoming row can be passed
+export type LaneMove = 'free' | 'jump' | 'slide' | 'blocked';
+
+// One row of the safe corridor computed by the fairness check, for debugging
+export interface SafeCorridorRow {
+  z: number; // Where the row meets the player, in current track coordinates
+  moves: LaneMove[]; // Leftmost lane first
+  reachable: boolean[]; // Lanes the player can be in as the row passes
+}
+
+// Per-run counters reported with the run's result
+export interface RunStats {
+  jumpPadsUsed: number;
+  speedBoostsCollected: number;
+  obstaclesSmashed: number; // Damage sources destroyed during a speed boost
+  maxCombo: number; // Longest run of pickups without a break
+  nearMisses: number; // Damage sources dodged by a narrow margin
+}
+
+export interface SimState {
+  seed: number;
+  rng: SeededRandom;
+  frame: number;
+  clock: GameClock; // Run time and the timers of every timed effect
+
+  status: GameStatus;
+  score: number;
+  totalScore: number; // Cumulative score for speed calculation
+  combo: number; // Consecutive pickups, see combo.ts
+  lives: number;
+  maxLives: number;
+  speed: number;
+  collectedLetters: number[];
+  level: number;
+  laneCount: number;
+  gemsCollected: number;
+  distance: number;
+
+  // Track progress
+  levelStartDistance: number;
+  nextLetterDistance: number;
+  nextObjectId: number;
+
+  // Inventory / Abilities
+  hasDoubleJump: boolean;
+  hasImmortality: boolean;
+  upgrades: RunUpgrades;
+  itemsBought: Partial<Record<ShopItemType, number>>;
+  shop: ShopVisit | null; // Set while the shop is open
+  shopRng: SeededRandom; // Separate stream so shop offers don't shift the track
+
+  stats: RunStats;
+  player: PlayerState;
+  boss: Boss | null; // Set while a boss encounter is running
+  objects: GameObject[];
+}
+
+type Vec3 = [number, number, number];
+
+export type SimEvent =
+  | { type: 'jump'; double: boolean }
+  | { type: 'slide' }
+  | { type: 'ability'; active: boolean }
+  | { type: 'boost'; active: boolean } // Speed boost started/ran out
+  | { type: 'fire'; objectType: ObjectType; position: Vec3 } // Alien/Turret launched a missile
+  | { type: 'hit'; objectType: ObjectType; position: Vec3 } // Damage source struck the player
+  | { type: 'smash'; objectType: ObjectType; position: Vec3 } // Damage source destroyed by a speed boost
+  | { type: 'damage'; lives: number } // Hit got through shields/invincibility
+  | { type: 'revive'; revivesLeft: number } // A revive was spent instead of the last life
+  | { type: 'near-miss'; objectType: ObjectType; position: Vec3 } // Damage source dodged narrowly
+  | { type: 'fall' } // Player dropped into a gap
+  | { type: 'collect'; objectType: ObjectType; position: Vec3; color: string }
+  | { type: 'combo'; combo: number; multiplier: number } // Multiplier went up a step
+  | { type: 'combo-decay'; combo: number; multiplier: number } // Too long without a pickup
+  | { type: 'combo-break'; combo: number } // Damage or a missed gem reset the combo
+  | { type: 'boss-start' }
+  | { type: 'boss-hit'; health: number; position: Vec3 } // Weak point struck
+  | { type: 'boss-defeated'; position: Vec3 }
+  | { type: 'level-up'; level: number }
+  | { type: 'shop' }
+  | { type: 'game-over' }
+  | { type: 'victory' };
+
+export interface StepResult {
+  state: SimState;
+  events: SimEvent[];
+}
+
+// Permanent upgrades the player owns, applied when a run starts
+export interface RunLoadout {
+  hasDoubleJump: boolean;
+  hasImmortality: boolean;
+  maxLives: number;
+}
+
+// Input log for a run: replaying it from `seed` reproduces the run exactly
+export interface ReplayInput {
+  frame: number; // Step the input was applied on
+  action: InputAction;
+}
+
+export interface ReplayPurchase {
+  frame: number; // Step that opened the shop
+  item: ShopItemType | typeof SHOP_REROLL;
+}
+
+export interface RunReplay {
+  seed: number;
+  stepRate: number; // SIM_RATE the run was recorded at
+  loadout: RunLoadout;
+  frames: number; // Steps simulated in total
+  inputs: ReplayInput[];
+  purchases: ReplayPurchase[];
+  token?: string; // Issued by the server when a ranked run starts
+}
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Small helpers shared across the simulation modules.
+
+// Plain object, e.g. a parsed JSON object (arrays and null don't count)
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+// Lane indices across a track of `laneCount` lanes, left to right with 0 in the middle
+export const getLanes = (laneCount: number): number[] => {
+  const maxLane = Math.floor(laneCount / 2);
+  const lanes: number[] = [];
+  for (let i = -maxLane; i <= maxLane; i++) lanes.push(i);
+  return lanes;
+};
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, ObjectType, REMOVE_DISTANCE } from '../types';
+import { ObjectContext, SimEvent, SimState } from './types';
+import { NEAR_MISS_CLEARANCE, NEAR_MISS_DISTANCE, NEAR_MISS_POINTS } from './constants';
+import { addScore, createObject, isSpeedBoostActive, isSliding, getCurrentSpeed, applyDamage } from './run';
+import { getObjectHitbox, getObjectRule } from './objects';
+import {
+  Vec3, X_AXIS, Y_AXIS, Z_AXIS, getObjectBounds, getPlayerBounds, lerpPosition, overlapsOnAxis, sweepBounds
+} from './collision';
+
+export interface WorldUpdate {
+  objects: GameObject[];
+  changed: boolean;
+  levelComplete: boolean;
+}
+
+// Moves every object by the distance travelled this step, runs enemy AI and
+// resolves collisions against the player, who moved from `playerFrom` to their
+// current position during the step. What each object type does is set by its
+// rule in simulation/objects/. The returned list excludes objects that were
+// consumed or left the track.
+export const updateObjects = (
+  state: SimState, dt: number, events: SimEvent[], playerFrom: { x: number; y: number }
+): WorldUpdate => {
+  const dist = getCurrentSpeed(state) * dt;
+  const player = state.player;
+  const sliding = isSliding(state);
+  const playerStart = getPlayerBounds(playerFrom.x, playerFrom.y, sliding);
+  const playerEnd = getPlayerBounds(player.x, player.y, sliding);
+
+  let changed = false;
+  let levelComplete = false;
+  const keptObjects: GameObject[] = [];
+  const ctx: ObjectContext = { state, dt, player: { x: player.x, y: player.y }, events, spawned: [] };
+
+  for (const obj of state.objects) {
+    const rule = getObjectRule(obj.type);
+    const from: Vec3 = [...obj.position];
+    obj.position[2] += dist + (rule.speed ?? 0) * dt;
+
+    if (obj.active) rule.update?.(obj, ctx);
+
+    // Fire down the shooter's lane once in range
+    const weapon = rule.weapon;
+    if (weapon && obj.active && !obj.hasFired && obj.position[2] > -weapon.range) {
+      obj.hasFired = true;
+      ctx.spawned.push(createObject(state, {
+        type: ObjectType.MISSILE,
+        position: [obj.position[0], weapon.height, obj.position[2] + 2],
+        active: true,
+        color: weapon.color
+      }));
+      changed = true;
+      events.push({ type: 'fire', objectType: obj.type, position: [...obj.position] });
+    }
+
+    let keep = true;
+    const hitbox = getObjectHitbox(obj);
+    if (obj.active && rule.behavior && hitbox) {
+      // Sweep the object's box along its movement relative to the player
+      const start = getObjectBounds(hitbox, from);
+      const end = getObjectBounds(hitbox, obj.position);
+      const delta: Vec3 = [
+        (obj.position[0] - from[0]) - (player.x - playerFrom.x),
+        (obj.position[1] - from[1]) - (player.y - playerFrom.y),
+        obj.position[2] - from[2],
+      ];
+      const hitAt = sweepBounds(start, delta, playerStart, rule.spansTrack ? [Z_AXIS] : undefined);
+      // Where the object was when it first touched the player, for effects
+      const impactAt = (t: number) => lerpPosition(from, obj.position, t);
+
+      if (hitAt !== null) {
+        obj.active = false;
+        changed = true;
+
+        if (rule.behavior === 'damage') {
+          if (isSpeedBoostActive(state)) {
+            // Boosting smashes straight through
+            state.stats.obstaclesSmashed += 1;
+            events.push({ type: 'smash', objectType: obj.type, position: impactAt(hitAt) });
+          } else {
+            events.push({ type: 'hit', objectType: obj.type, position: impactAt(hitAt) });
+            applyDamage(state, events);
+          }
+        } else {
+          if (rule.onHit?.(obj, ctx)) levelComplete = true;
+          if (rule.behavior === 'pickup') {
+            events.push({
+              type: 'collect',
+              objectType: obj.type,
+              position: impactAt(hitAt),
+              color: obj.color || '#ffffff'
+            });
+          } else {
+            keep = false; // Triggers are used up on contact
+          }
+        }
+      } else if (rule.behavior === 'damage' && sweepBounds(start, delta, playerStart, [Z_AXIS]) !== null) {
+        // Dodged by a hair, or only just jumped over it. Pays out once it is past.
+        const dx = Math.abs(obj.position[0] - player.x);
+        const isCloseBeside = overlapsOnAxis(end, playerEnd, Y_AXIS) && dx < NEAR_MISS_DISTANCE;
+        const clearance = playerEnd.min[1] - end.max[1];
+        const isCloseAbove = overlapsOnAxis(end, playerEnd, X_AXIS) && clearance >= 0 && clearance < NEAR_MISS_CLEARANCE;
+        if (isCloseBeside || isCloseAbove) obj.closeCall = true;
+      }
+
+      // Fully behind the player this step
+      const passedPlayer = start.min[2] < playerStart.max[2] && end.min[2] >= playerEnd.max[2];
+      if (obj.active && passedPlayer) {
+        if (rule.onMiss) {
+          rule.onMiss(obj, ctx);
+        } else if (obj.closeCall) {
+          state.stats.nearMisses += 1;
+          addScore(state, NEAR_MISS_POINTS);
+          events.push({ type: 'near-miss', objectType: obj.type, position: [...obj.position] });
+        }
+      }
+    }
+
+    if (obj.position[2] > REMOVE_DISTANCE) {
+      keep = false;
+      changed = true;
+    }
+
+    if (keep) {
+      keptObjects.push(obj);
+    }
+  }
+
+  if (ctx.spawned.length > 0) {
+    keptObjects.push(...ctx.spawned);
+  }
+
+  return { objects: keptObjects, changed, levelComplete };
+};
@@ -6,8 +6,23 @@
 
 
 import { create } from 'zustand';
-import { GameStatus, RUN_SPEED_BASE, LeaderboardEntry, BaseAccountUser } from './types';
-import { api, UserData } from './services/api';
+import { GameStatus, LeaderboardEntry, BaseAccountUser, RunMode, DailyChallenge, Boss } from './types';
+import { api, UserData, UpgradeOffer, CosmeticOffer, GemTransaction } from './services/api';
+import {
+  SimState, ShopItemType, ShopItemDefinition, RunStats, RunLoadout, DEFAULT_LOADOUT, createSeed, isImmortalityActive, getCurrentSpeed,
+  getComboMultiplier, getShopItem, getItemCost, getRerollCost, isItemAvailable
+} from './simulation';
+import { runController } from './components/System/RunController';
+import { audio } from './components/System/Audio';
+import { input } from './components/System/Input';
+import { ControlBindings, DEFAULT_BINDINGS, parseBindings } from './controls';
+
+// An item in the open shop, priced for the current level
+export interface ShopOfferEntry {
+  item: ShopItemDefinition;
+  cost: number;
+  available: boolean; // False once it is maxed out
+}
 
 interface GameState {
   status: GameStatus;
@@ -21,18 +36,38 @@ interface GameState {
   laneCount: number;
   gemsCollected: number;
   distance: number;
+
+  // Seed for the run's spawner PRNG (shown on game over so runs can be replayed)
+  seed: number;
+
+  // Daily runs without a ranked attempt left are practice and never submitted
+  runMode: RunMode;
+  isRankedRun: boolean;
   
   // Inventory / Abilities
   hasDoubleJump: boolean;
   hasImmortality: boolean;
   isImmortalityActive: boolean;
 
-  // Powerups (Timers)
-  magnetEndTime: number;
-  shieldEndTime: number;
+  combo: number;
+  comboMultiplier: number;
+
+  stats: RunStats;
+  boss: Boss | null; // Snapshot for the HUD, refreshed on boss events
+
+  shopOffer: ShopOfferEntry[];
+  shopRerollCost: number;
+
+  // Settings
+  isMuted: boolean;
+  setMuted: (muted: boolean) => void;
+  controls: ControlBindings;
+  setControls: (controls: ControlBindings) => Promise<void>;
 
   // Leaderboard
   leaderboard: LeaderboardEntry[];
+  dailyChallenge: DailyChallenge | null;
+  dailyLeaderboard: LeaderboardEntry[];
 
   // Base Account Authentication
   baseAccount: BaseAccountUser | null;
@@ -41,30 +76,39 @@ interface GameState {
   isAuthenticated: boolean;
 
   // Actions
-  startGame: () => void;
-  restartGame: () => void;
-  takeDamage: () => void;
-  addScore: (amount: number) => void;
-  collectGem: (value: number) => void;
-  collectLetter: (index: number) => void;
+  startGame: (seed?: number) => Promise<void>;
+  restartGame: (seed?: number) => Promise<void>;
+  startDailyChallenge: () => Promise<void>;
   setStatus: (status: GameStatus) => void;
-  setDistance: (dist: number) => void;
+  pauseGame: () => void;
+  resumeGame: () => void;
+  quitRun: () => void;
+  syncRun: (run: SimState) => void;
   
   // Shop / Abilities
-  buyItem: (type: 'DOUBLE_JUMP' | 'MAX_LIFE' | 'HEAL' | 'IMMORTAL', cost: number) => boolean;
-  advanceLevel: () => void;
-  openShop: () => void;
+  buyItem: (type: ShopItemType) => boolean;
+  rerollShop: () => boolean;
   closeShop: () => void;
-  activateImmortality: () => void;
-  
-  // Powerup Actions
-  activateMagnet: () => void;
-  activateShield: () => void;
+
+  // Permanent upgrades, bought with gems between runs
+  upgradeCatalog: UpgradeOffer[];
+  fetchUpgradeCatalog: () => Promise<void>;
+  purchaseUpgrade: (itemId: string) => Promise<boolean>;
+  refreshWallet: () => Promise<void>;
+  gemTransactions: GemTransaction[];
+  fetchGemTransactions: () => Promise<void>;
+
+  // Cosmetics, bought with gems or earned through achievements
+  cosmeticCatalog: CosmeticOffer[];
+  fetchCosmetics: () => Promise<void>;
+  purchaseCosmetic: (cosmeticId: string) => Promise<boolean>;
+  equipCosmetic: (cosmeticId: string) => Promise<boolean>;
 
   // Leaderboard Actions
   isHighScore: (score: number) => boolean;
-  saveScore: (name: string) => Promise<void>;
+  saveScore: (name: string) => void;
   fetchLeaderboard: () => Promise<void>;
+  fetchDailyChallenge: () => Promise<void>;
 
   // Base Account Actions
   setBaseAccount: (user: BaseAccountUser | null) => void;
@@ -75,43 +119,8 @@ interface GameState {
   isSessionLoading: boolean;
 }
 
-// The full phrase to collect across all levels
-// "GEMINI IS THE QUICK BROWN FOX THAT JUMPS OVER THE LAZY AI DOG"
-const FULL_PHRASE = "GEMINI IS THE QUICK BROWN FOX THAT JUMPS OVER THE LAZY AI DOG";
-const PHRASE_LETTERS = FULL_PHRASE.split('').filter(c => c !== ' '); // Remove spaces
-
-// Each level requires collecting a portion of the phrase
-const LETTERS_PER_LEVEL = 6; // Collect 6 letters per level
-const MAX_LEVEL = 30; // 30 levels for extended gameplay
-const POWERUP_DURATION = 10000; // 10 seconds
-
-// Speed Constants
-const START_SPEED = RUN_SPEED_BASE * 0.5; // Start at 50%
-const SPEED_INCREMENT_PER_100 = 0.08; // 8% increase per 100 points (slightly reduced for longer game)
-
-// Level completion bonus (increases per level)
-const LEVEL_BONUS_BASE = 500;
-
-// Helper function to get which letters need to be collected for a given level
-// Returns indices into PHRASE_LETTERS that are NOT yet collected
-// Includes: 1) Letters assigned to this level 2) Carryover from previous levels
-const getLevelLetterIndices = (level: number, collectedLetters: number[]): number[] => {
-  // Calculate the range of letters for this level
-  const levelStartIndex = (level - 1) * LETTERS_PER_LEVEL;
-  const levelEndIndex = Math.min(levelStartIndex + LETTERS_PER_LEVEL, PHRASE_LETTERS.length);
-  
-  // Get letters from all levels up to and including current level that aren't collected
-  const availableIndices: number[] = [];
-  for (let i = 0; i < levelEndIndex; i++) {
-    if (!collectedLetters.includes(i)) {
-      availableIndices.push(i);
-    }
-  }
-  return availableIndices;
-};
-
-// Export for use in LevelManager
-export { PHRASE_LETTERS, LETTERS_PER_LEVEL, MAX_LEVEL, getLevelLetterIndices };
+// Re-exported for the HUD, which reads the phrase progress from the store's run state
+export { PHRASE_LETTERS, LETTERS_PER_LEVEL, MAX_LEVEL, getLevelLetterIndices } from './simulation';
 
 // Helper to safely load leaderboard
 const loadLeaderboard = (): LeaderboardEntry[] => {
@@ -123,12 +132,72 @@ const loadLeaderboard = (): LeaderboardEntry[] => {
     }
 };
 
-// Helper to calculate speed based on total points earned
-const calculateSpeed = (totalScore: number) => {
-    const increments = Math.floor(totalScore / 100);
-    return START_SPEED * (1 + (increments * SPEED_INCREMENT_PER_100));
+const loadControls = (): ControlBindings => {
+    try {
+        return parseBindings(JSON.parse(localStorage.getItem('baserunner_controls') ?? 'null')) ?? DEFAULT_BINDINGS;
+    } catch {
+        return DEFAULT_BINDINGS;
+    }
+};
+
+// Bindings saved on the player's profile win over this device's
+const getControls = (userData: UserData, current: ControlBindings): ControlBindings =>
+    parseBindings(userData.controls) ?? current;
+
+const loadMuted = (): boolean => {
+    try {
+        return localStorage.getItem('baserunner_muted') === 'true';
+    } catch {
+        return false;
+    }
+};
+
+// Owned upgrades a new run starts with
+const getLoadout = (userData: UserData | null): RunLoadout => {
+    if (!userData?.inventory) return DEFAULT_LOADOUT;
+    const { hasDoubleJump, hasImmortality, maxLives } = userData.inventory;
+    return { hasDoubleJump, hasImmortality, maxLives };
 };
 
+// Ranked classic runs are opened by the server, which picks the seed. A seed
+// chosen here, or no answer from the server, makes an unranked run instead.
+const startClassicRun = async (seed: number | undefined, userData: UserData | null) => {
+    const run = seed === undefined ? (await api.startRun()).data : undefined;
+    runController.start(run?.seed ?? seed ?? createSeed(), getLoadout(userData), run?.token);
+    return { ...getRunFields(runController.state!), runMode: 'classic' as const, isRankedRun: run !== undefined };
+};
+
+const getShopOffer = (run: SimState): ShopOfferEntry[] =>
+  (run.shop?.offer ?? []).flatMap(id => {
+    const item = getShopItem(id);
+    return item ? [{ item, cost: getItemCost(run, item), available: isItemAvailable(run, item) }] : [];
+  });
+
+// Mirror of the simulation fields the UI renders
+const getRunFields = (run: SimState) => ({
+  status: run.status,
+  score: run.score,
+  totalScore: run.totalScore,
+  lives: run.lives,
+  maxLives: run.maxLives,
+  speed: getCurrentSpeed(run),
+  collectedLetters: run.collectedLetters,
+  level: run.level,
+  laneCount: run.laneCount,
+  gemsCollected: run.gemsCollected,
+  distance: run.distance,
+  seed: run.seed,
+  hasDoubleJump: run.hasDoubleJump,
+  hasImmortality: run.hasImmortality,
+  isImmortalityActive: isImmortalityActive(run),
+  combo: run.combo,
+  comboMultiplier: getComboMultiplier(run),
+  stats: { ...run.stats },
+  boss: run.boss ? { ...run.boss } : null,
+  shopOffer: getShopOffer(run),
+  shopRerollCost: getRerollCost(run),
+});
+
 export const useStore = create<GameState>((set, get) => ({
   status: GameStatus.MENU,
   score: 0,
@@ -141,15 +210,33 @@ export const useStore = create<GameState>((set, get) => ({
   laneCount: 3,
   gemsCollected: 0,
   distance: 0,
+  seed: 0,
+  runMode: 'classic',
+  isRankedRun: true,
   
   hasDoubleJump: false,
   hasImmortality: false,
   isImmortalityActive: false,
   
-  magnetEndTime: 0,
-  shieldEndTime: 0,
+  combo: 0,
+  comboMultiplier: 1,
+
+  stats: { jumpPadsUsed: 0, speedBoostsCollected: 0, obstaclesSmashed: 0, maxCombo: 0, nearMisses: 0 },
+  boss: null,
+
+  shopOffer: [],
+  shopRerollCost: 0,
+
+  isMuted: loadMuted(),
+  controls: loadControls(),
+
+  upgradeCatalog: [],
+  gemTransactions: [],
+  cosmeticCatalog: [],
 
   leaderboard: loadLeaderboard(),
+  dailyChallenge: null,
+  dailyLeaderboard: [],
 
   baseAccount: null,
   authToken: api.getToken(),
@@ -157,233 +244,228 @@ export const useStore = create<GameState>((set, get) => ({
   isAuthenticated: false,
   isSessionLoading: true,
 
-  startGame: () => {
-    const { isAuthenticated } = get();
+  startGame: async (seed) => {
+    const { isAuthenticated, userData } = get();
     if (!isAuthenticated) {
       console.warn('Cannot start game without authentication');
       return;
     }
-    set({ 
-      status: GameStatus.PLAYING, 
-      score: 0, 
-      totalScore: 0,
-      lives: 3, 
-      maxLives: 3,
-      speed: START_SPEED,
-      collectedLetters: [],
-      level: 1,
-      laneCount: 3,
-      gemsCollected: 0,
-      distance: 0,
-      hasDoubleJump: false,
-      hasImmortality: false,
-      isImmortalityActive: false,
-      magnetEndTime: 0,
-      shieldEndTime: 0
-    });
+    set(await startClassicRun(seed, userData));
   },
 
-  restartGame: () => {
-    const { isAuthenticated } = get();
+  restartGame: async (seed) => {
+    const { isAuthenticated, userData } = get();
     if (!isAuthenticated) {
       console.warn('Cannot restart game without authentication');
       return;
     }
-    set({ 
-      status: GameStatus.PLAYING, 
-      score: 0, 
-      totalScore: 0,
-      lives: 3, 
-      maxLives: 3,
-      speed: START_SPEED,
-      collectedLetters: [],
-      level: 1,
-      laneCount: 3,
-      gemsCollected: 0,
-      distance: 0,
-      hasDoubleJump: false,
-      hasImmortality: false,
-      isImmortalityActive: false,
-      magnetEndTime: 0,
-      shieldEndTime: 0
-    });
+    set(await startClassicRun(seed, userData));
   },
 
-  takeDamage: () => {
-    const { lives, isImmortalityActive, shieldEndTime } = get();
-    // No damage if Skill Active OR Shield Powerup Active
-    if (isImmortalityActive || Date.now() < shieldEndTime) return; 
+  startDailyChallenge: async () => {
+    const { isAuthenticated, dailyChallenge, userData } = get();
+    if (!isAuthenticated) {
+      console.warn('Cannot start daily challenge without authentication');
+      return;
+    }
 
-    if (lives > 1) {
-      set({ lives: lives - 1 });
-    } else {
-      set({ lives: 0, status: GameStatus.GAME_OVER, speed: 0 });
+    // Use up a ranked attempt while any are left
+    const hasAttemptsLeft = !dailyChallenge || dailyChallenge.attemptsUsed < dailyChallenge.maxAttempts;
+    if (hasAttemptsLeft) {
+      const result = await api.startDailyAttempt();
+      if (result.data?.success) {
+        const { date, seed, token, maxAttempts, attemptsUsed } = result.data;
+        runController.start(seed, getLoadout(userData), token);
+        set({
+          ...getRunFields(runController.state!),
+          runMode: 'daily',
+          isRankedRun: true,
+          dailyChallenge: { date, seed, maxAttempts, attemptsUsed },
+        });
+        return;
+      }
     }
+
+    // Otherwise practice on today's track without submitting. Its seed is
+    // only sent once no ranked attempts are left, so it may need fetching.
+    if (dailyChallenge?.seed == null) await get().fetchDailyChallenge();
+    const seed = get().dailyChallenge?.seed;
+    if (seed == null) return;
+    runController.start(seed, getLoadout(userData));
+    set({ ...getRunFields(runController.state!), runMode: 'daily', isRankedRun: false });
   },
 
-  addScore: (amount) => set((state) => {
-      const newScore = state.score + amount;
-      const newTotal = state.totalScore + amount;
-      return { 
-          score: newScore,
-          totalScore: newTotal,
-          speed: calculateSpeed(newTotal)
-      };
-  }),
-  
-  collectGem: (value) => set((state) => {
-    const newScore = state.score + value;
-    const newTotal = state.totalScore + value;
-    return { 
-        score: newScore, 
-        totalScore: newTotal,
-        gemsCollected: state.gemsCollected + 1,
-        speed: calculateSpeed(newTotal) 
-    };
-  }),
-
-  setDistance: (dist) => set({ distance: dist }),
-
-  collectLetter: (index) => {
-    const { collectedLetters, level } = get();
-    
-    // Index is the absolute position in PHRASE_LETTERS
-    if (!collectedLetters.includes(index)) {
-      const newLetters = [...collectedLetters, index];
-      const points = 100; // Award points for letters to contribute to speed
-
-      set((state) => {
-          const newScore = state.score + points;
-          const newTotal = state.totalScore + points;
-          return { 
-            collectedLetters: newLetters,
-            score: newScore,
-            totalScore: newTotal,
-            speed: calculateSpeed(newTotal)
-          };
-      });
+  syncRun: (run) => set(getRunFields(run)),
 
-      // Check if all phrase letters collected
-      if (newLetters.length === PHRASE_LETTERS.length) {
-        set((state) => ({
-            status: GameStatus.VICTORY,
-            score: state.score + 10000,
-            totalScore: state.totalScore + 10000,
-            speed: calculateSpeed(state.totalScore + 10000)
-        }));
-      } else {
-        // Check if current level's letters are all collected
-        const levelLetters = getLevelLetterIndices(level, newLetters);
-        if (levelLetters.length === 0 && level < MAX_LEVEL) {
-          // All letters for this level collected (including carryovers), advance
-          get().advanceLevel();
-        }
-      }
-    }
+  closeShop: () => {
+    runController.closeShop();
+    if (runController.state) set(getRunFields(runController.state));
   },
 
-  advanceLevel: () => {
-      const { level, laneCount, score, totalScore, collectedLetters } = get();
-      const nextLevel = level + 1;
-      
-      // Level completion bonus (increases per level)
-      const levelBonus = LEVEL_BONUS_BASE * level;
-      
-      // Add bonus lanes more gradually (max 9 lanes)
-      const newLaneCount = Math.min(3 + Math.floor((nextLevel - 1) / 2) * 2, 9);
-      
-      // Keep collectedLetters - uncollected ones carry over automatically
-      set({
-          level: nextLevel,
-          laneCount: newLaneCount, 
-          status: GameStatus.PLAYING, 
-          // Don't reset collectedLetters - they persist!
-          score: score + levelBonus,
-          totalScore: totalScore + levelBonus,
-          speed: calculateSpeed(totalScore + levelBonus)
-      });
+  buyItem: (type) => {
+      const bought = runController.buyItem(type);
+      if (bought && runController.state) set(getRunFields(runController.state));
+      return bought;
   },
 
-  openShop: () => set({ status: GameStatus.SHOP }),
-  
-  closeShop: () => set({ status: GameStatus.PLAYING }),
+  rerollShop: () => {
+      const rerolled = runController.rerollShop();
+      if (rerolled && runController.state) set(getRunFields(runController.state));
+      return rerolled;
+  },
 
-  buyItem: (type, cost) => {
-      const { score, maxLives, lives } = get();
-      
-      if (score >= cost) {
-          // Note: Buying items reduces spendable score but NOT totalScore.
-          // This prevents the game from slowing down when you buy items.
-          set({ score: score - cost });
-          
-          switch (type) {
-              case 'DOUBLE_JUMP':
-                  set({ hasDoubleJump: true });
-                  break;
-              case 'MAX_LIFE':
-                  set({ maxLives: maxLives + 1, lives: lives + 1 });
-                  break;
-              case 'HEAL':
-                  set({ lives: Math.min(lives + 1, maxLives) });
-                  break;
-              case 'IMMORTAL':
-                  set({ hasImmortality: true });
-                  break;
-          }
-          return true;
+  fetchUpgradeCatalog: async () => {
+    try {
+      const result = await api.getUpgradeCatalog();
+      if (result.data) {
+        const { gems, items } = result.data;
+        const { userData } = get();
+        set({ upgradeCatalog: items, userData: userData ? { ...userData, gems } : null });
       }
+    } catch (error) {
+      console.error('Failed to fetch upgrade catalog:', error);
+    }
+  },
+
+  purchaseUpgrade: async (itemId) => {
+    const result = await api.purchaseUpgrade(itemId);
+    if (!result.data?.success) {
+      console.warn('Upgrade purchase failed:', result.error);
       return false;
+    }
+
+    // Owned upgrades apply from the next run on
+    const { gems, inventory } = result.data;
+    const { userData } = get();
+    if (userData) set({ userData: { ...userData, gems, inventory } });
+    await Promise.all([get().fetchUpgradeCatalog(), get().fetchGemTransactions()]);
+    return true;
   },
 
-  activateImmortality: () => {
-      const { hasImmortality, isImmortalityActive } = get();
-      if (hasImmortality && !isImmortalityActive) {
-          set({ isImmortalityActive: true });
-          
-          setTimeout(() => {
-              set({ isImmortalityActive: false });
-          }, 5000);
+  fetchCosmetics: async () => {
+    try {
+      const result = await api.getCosmetics();
+      if (result.data) {
+        const { gems, equipped, items } = result.data;
+        const { userData } = get();
+        const owned = items.filter(item => item.owned).map(item => item.id);
+        set({
+          cosmeticCatalog: items,
+          userData: userData ? { ...userData, gems, cosmetics: { owned, equipped } } : null,
+        });
       }
+    } catch (error) {
+      console.error('Failed to fetch cosmetics:', error);
+    }
+  },
+
+  purchaseCosmetic: async (cosmeticId) => {
+    const result = await api.purchaseCosmetic(cosmeticId);
+    if (!result.data?.success) {
+      console.warn('Cosmetic purchase failed:', result.error);
+      return false;
+    }
+
+    const { gems, cosmetics } = result.data;
+    const { userData } = get();
+    if (userData) set({ userData: { ...userData, gems, cosmetics } });
+    await get().fetchCosmetics();
+    return true;
+  },
+
+  equipCosmetic: async (cosmeticId) => {
+    const result = await api.equipCosmetic(cosmeticId);
+    if (!result.data?.success) {
+      console.warn('Equip cosmetic failed:', result.error);
+      return false;
+    }
+
+    const { userData } = get();
+    if (userData) set({ userData: { ...userData, cosmetics: result.data.cosmetics } });
+    return true;
   },
 
-  activateMagnet: () => set({ magnetEndTime: Date.now() + POWERUP_DURATION }),
-  activateShield: () => set({ shieldEndTime: Date.now() + POWERUP_DURATION }),
+  refreshWallet: async () => {
+    try {
+      const result = await api.getWallet();
+      const { userData } = get();
+      if (result.data && userData) set({ userData: { ...userData, gems: result.data.balance } });
+    } catch (error) {
+      console.error('Failed to refresh wallet:', error);
+    }
+  },
+
+  fetchGemTransactions: async () => {
+    try {
+      const result = await api.getGemTransactions(1, 5);
+      if (result.data) set({ gemTransactions: result.data.transactions });
+    } catch (error) {
+      console.error('Failed to fetch gem transactions:', error);
+    }
+  },
 
   setStatus: (status) => set({ status }),
 
+  pauseGame: () => {
+    if (runController.state?.status !== GameStatus.PLAYING) return;
+    runController.pause();
+    audio.suspend();
+    if (runController.state) set(getRunFields(runController.state));
+  },
+
+  resumeGame: () => {
+    if (runController.state?.status !== GameStatus.PAUSED) return;
+    runController.resume();
+    audio.init();
+    if (runController.state) set(getRunFields(runController.state));
+  },
+
+  // Abandons the current run without submitting it
+  quitRun: () => {
+    runController.reset();
+    set({ status: GameStatus.MENU, boss: null });
+  },
+
+  setMuted: (muted) => {
+    audio.setMuted(muted);
+    localStorage.setItem('baserunner_muted', String(muted));
+    set({ isMuted: muted });
+  },
+
+  // Applies right away and is kept on this device; signed-in players also
+  // get them saved to their profile
+  setControls: async (controls) => {
+    input.setBindings(controls);
+    localStorage.setItem('baserunner_controls', JSON.stringify(controls));
+    set({ controls });
+
+    const { isAuthenticated, userData } = get();
+    if (!isAuthenticated || !userData) return;
+    const result = await api.updateControls(controls);
+    if (result.data?.success) set({ userData: { ...userData, controls: result.data.controls } });
+    else console.warn('Failed to save controls:', result.error);
+  },
+
   isHighScore: (score) => {
-      const { leaderboard } = get();
-      if (score <= 0) return false;
+      const { leaderboard, runMode } = get();
+      // The local top 5 only holds classic runs
+      if (score <= 0 || runMode === 'daily') return false;
       if (leaderboard.length < 5) return true;
       return score > leaderboard[leaderboard.length - 1].score;
   },
 
-  saveScore: async (name) => {
+  // Only records the entry on this device's board. Ranked runs reach the server
+  // through submitGameScore, which the HUD calls when the run ends.
+  saveScore: (name) => {
       const state = get();
       const newEntry: LeaderboardEntry = { name, score: state.score, date: Date.now() };
       
-      // Update local leaderboard immediately
       const newBoard = [...state.leaderboard, newEntry]
          .sort((a, b) => b.score - a.score)
          .slice(0, 5);
       
       localStorage.setItem('gemini_runner_leaderboard', JSON.stringify(newBoard));
       set({ leaderboard: newBoard });
-
-      // Submit to server if authenticated
-      if (state.isAuthenticated) {
-        try {
-          await api.submitScore({
-            score: state.score,
-            level: state.level,
-            gemsCollected: state.gemsCollected,
-            distance: Math.floor(state.distance),
-            username: name,
-          });
-        } catch (error) {
-          console.error('Failed to submit score to server:', error);
-        }
-      }
   },
 
   fetchLeaderboard: async () => {
@@ -394,6 +476,8 @@ export const useStore = create<GameState>((set, get) => ({
           name: e.name,
           score: e.score,
           date: e.date,
+          verified: e.verified,
+          cosmetics: e.cosmetics,
         }));
         set({ leaderboard: entries });
         localStorage.setItem('gemini_runner_leaderboard', JSON.stringify(entries));
@@ -403,6 +487,27 @@ export const useStore = create<GameState>((set, get) => ({
     }
   },
 
+  fetchDailyChallenge: async () => {
+    try {
+      const result = await api.getDailyChallenge();
+      if (result.data) {
+        const { date, seed, maxAttempts, attemptsUsed, entries } = result.data;
+        set({
+          dailyChallenge: { date, seed, maxAttempts, attemptsUsed: attemptsUsed ?? 0 },
+          dailyLeaderboard: entries.map(e => ({
+            name: e.name,
+            score: e.score,
+            date: e.date,
+            verified: e.verified,
+            cosmetics: e.cosmetics,
+          })),
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch daily challenge:', error);
+    }
+  },
+
   setBaseAccount: (user) => set({ baseAccount: user }),
 
   authenticateUser: async (address, message, signature) => {
@@ -421,12 +526,15 @@ export const useStore = create<GameState>((set, get) => ({
         // Save wallet address to localStorage for session restore
         localStorage.setItem('baserunner_wallet', address.toLowerCase());
         
+        const controls = getControls(result.data.user, get().controls);
+        input.setBindings(controls);
         set({
           isAuthenticated: true,
           isSessionLoading: false,
           authToken: result.data.token,
           userData: result.data.user,
           baseAccount: { address, isConnected: true },
+          controls,
         });
         
         // Fetch leaderboard after auth
@@ -444,11 +552,14 @@ export const useStore = create<GameState>((set, get) => ({
   logout: async () => {
     await api.logout();
     localStorage.removeItem('baserunner_wallet');
+    runController.reset();
     set({
       isAuthenticated: false,
       authToken: null,
       userData: null,
       baseAccount: null,
+      dailyChallenge: null,
+      gemTransactions: [],
       status: GameStatus.MENU,
     });
   },
@@ -467,11 +578,14 @@ export const useStore = create<GameState>((set, get) => ({
       const result = await api.getMe();
       
       if (result.data?.user) {
+        const controls = getControls(result.data.user, get().controls);
+        input.setBindings(controls);
         set({
           isAuthenticated: true,
           isSessionLoading: false,
           userData: result.data.user,
           baseAccount: savedWallet ? { address: savedWallet, isConnected: true } : null,
+          controls,
         });
         
         // Fetch leaderboard
@@ -505,7 +619,8 @@ export const useStore = create<GameState>((set, get) => ({
 
   submitGameScore: async () => {
     const state = get();
-    if (!state.isAuthenticated || state.score <= 0) return;
+    const replay = runController.replay;
+    if (!state.isAuthenticated || !state.isRankedRun || state.score <= 0 || !replay) return;
 
     try {
       await api.submitScore({
@@ -515,12 +630,25 @@ export const useStore = create<GameState>((set, get) => ({
         distance: Math.floor(state.distance),
         username: state.userData?.username || `Runner_${state.baseAccount?.address.slice(2, 8)}`,
         outcome: state.status === GameStatus.VICTORY ? 'victory' : 'game_over',
+        mode: state.runMode,
+        replay,
       });
       
-      // Refresh leaderboard
-      await get().fetchLeaderboard();
+      // Verified runs pay their gems into the wallet
+      await get().refreshWallet();
+
+      // Refresh the board the run was posted to
+      if (state.runMode === 'daily') {
+        await get().fetchDailyChallenge();
+      } else {
+        await get().fetchLeaderboard();
+      }
     } catch (error) {
       console.error('Failed to submit game score:', error);
     }
   },
 }));
+
+// Apply the saved sound setting before anything plays, and this device's controls
+audio.setMuted(useStore.getState().isMuted);
+input.setBindings(useStore.getState().controls);
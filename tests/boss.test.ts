@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameObject, ObjectType } from '../types';
+import { SimEvent } from '../simulation';
+import { hitBoss, startBoss } from '../simulation/boss';
+import { freshRun } from './helpers';
+
+// A run at the first boss level with the boss down to `health` weak points
+const bossRun = (health: number) => {
+  const state = freshRun();
+  state.level = 5;
+  startBoss(state, []);
+  state.boss!.health = health;
+  return state;
+};
+
+const weakPoint: GameObject = { id: 'weak-point', type: ObjectType.WEAK_POINT, position: [0, 3.2, -20], active: true };
+
+describe('boss weak points', () => {
+  it('drop a letter onto the track while the boss holds out', () => {
+    const state = bossRun(2);
+    const dropped: GameObject[] = [];
+    assert.equal(hitBoss(state, weakPoint, dropped, []), false);
+
+    assert.equal(dropped.length, 1);
+    assert.equal(dropped[0].type, ObjectType.LETTER);
+    assert.equal(state.collectedLetters.length, 0);
+  });
+
+  it('hand over the last letter directly, since the level ends on that hit', () => {
+    const state = bossRun(1);
+    const dropped: GameObject[] = [];
+    const events: SimEvent[] = [];
+    assert.equal(hitBoss(state, weakPoint, dropped, events), true);
+
+    assert.deepEqual(dropped, []);
+    assert.equal(state.collectedLetters.length, 1);
+    assert.ok(events.some(e => e.type === 'boss-defeated'));
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameObject, ObjectType, LANE_WIDTH } from '../types';
+import { SimEvent, SimState, getHitbox, getObjectBounds, getObjectHitbox } from '../simulation';
+import { Bounds, sweepBounds } from '../simulation/collision';
+import { freshRun, stepUntil } from './helpers';
+
+const box = (min: [number, number, number], max: [number, number, number]): Bounds => ({ min, max });
+
+// Steps until `obj` is behind the player, returning every event raised on the way
+const passObject = (state: SimState, obj: GameObject): SimEvent[] =>
+  stepUntil(state, () => !obj.active || obj.position[2] >= 3);
+
+describe('sweepBounds', () => {
+  const target = box([-0.5, 0, -0.5], [0.5, 1, 0.5]);
+
+  it('finds a box that passes clean through the target within one step', () => {
+    const moving = box([-0.5, 0, -10.5], [0.5, 1, -9.5]);
+    const t = sweepBounds(moving, [0, 0, 20], target);
+    assert.ok(t !== null);
+    assert.ok(Math.abs(t - 0.45) < 1e-9);
+  });
+
+  it('misses a box that passes beside the target', () => {
+    const moving = box([1, 0, -10.5], [2, 1, -9.5]);
+    assert.equal(sweepBounds(moving, [0, 0, 20], target), null);
+  });
+
+  it('only tests the axes it is given', () => {
+    const moving = box([1, 0, -10.5], [2, 1, -9.5]);
+    assert.ok(sweepBounds(moving, [0, 0, 20], target, [2]) !== null);
+  });
+});
+
+describe('object collision', () => {
+  it('hits an obstacle that covers more than its own depth in one step', () => {
+    const state = freshRun();
+    const obstacle: GameObject = { id: 'obstacle', type: ObjectType.OBSTACLE, position: [0, 0.5, -3], active: true };
+    state.objects.push(obstacle);
+    state.speed = 400; // Several metres a step
+    const events = passObject(state, obstacle);
+    assert.equal(events.filter(e => e.type === 'hit').length, 1);
+  });
+
+  it('sizes a laser gate to the lanes it spans', () => {
+    const gate: GameObject = { id: 'gate', type: ObjectType.LASER_GATE, position: [0, 0.8, -3], active: true, value: '3' };
+    const bounds = getObjectBounds(getObjectHitbox(gate)!, gate.position);
+    assert.equal(bounds.max[0] - bounds.min[0], getHitbox(ObjectType.LASER_GATE).width * 3);
+
+    const state = freshRun();
+    state.player.lane = 1;
+    state.player.x = LANE_WIDTH;
+    state.objects.push(gate);
+    const events = passObject(state, gate);
+    assert.equal(events.filter(e => e.type === 'hit').length, 1);
+  });
+});
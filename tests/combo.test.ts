@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameObject, ObjectType, LANE_WIDTH } from '../types';
+import {
+  COMBO_DECAY_TIME, COMBO_MAX_MULTIPLIER, COMBO_PICKUPS_PER_STEP, OBSTACLE_HEIGHT, SimEvent, SimState,
+  getComboMultiplier
+} from '../simulation';
+import { freshRun, stepUntil } from './helpers';
+
+// Puts an object in `lane` ahead of the player
+const place = (state: SimState, type: ObjectType, z: number, lane = 0, y = 1): GameObject => {
+  const obj: GameObject = { id: `test-${state.objects.length}`, type, position: [lane * LANE_WIDTH, y, z], active: true, points: 50 };
+  state.objects.push(obj);
+  return obj;
+};
+
+// Collects `count` gems lined up in the player's lane
+const collectGems = (state: SimState, count: number): SimEvent[] => {
+  const gems = Array.from({ length: count }, (_, i) => place(state, ObjectType.GEM, -2 - i));
+  return stepUntil(state, () => gems.every(g => !g.active));
+};
+
+describe('combo', () => {
+  it('raises the multiplier every COMBO_PICKUPS_PER_STEP pickups', () => {
+    const state = freshRun();
+    const events = collectGems(state, COMBO_PICKUPS_PER_STEP);
+
+    assert.equal(getComboMultiplier(state), 2);
+    assert.deepEqual(events.filter(e => e.type === 'combo'), [{ type: 'combo', combo: COMBO_PICKUPS_PER_STEP, multiplier: 2 }]);
+    assert.equal(state.stats.maxCombo, COMBO_PICKUPS_PER_STEP);
+  });
+
+  it('scales pickup points by the multiplier', () => {
+    const state = freshRun();
+    state.combo = COMBO_PICKUPS_PER_STEP * 2;
+    const score = state.score;
+    collectGems(state, 1);
+    assert.equal(state.score - score, 50 * 3);
+  });
+
+  it('stops at COMBO_MAX_MULTIPLIER', () => {
+    const state = freshRun();
+    state.combo = COMBO_PICKUPS_PER_STEP * COMBO_MAX_MULTIPLIER * 2;
+    collectGems(state, 1);
+    assert.equal(getComboMultiplier(state), COMBO_MAX_MULTIPLIER);
+  });
+
+  it('drops a step after COMBO_DECAY_TIME without a pickup', () => {
+    const state = freshRun();
+    state.combo = COMBO_PICKUPS_PER_STEP * 2;
+    collectGems(state, 1);
+    assert.equal(getComboMultiplier(state), 3);
+
+    const decayAt = state.clock.time + COMBO_DECAY_TIME;
+    const events = stepUntil(state, () => state.clock.time >= decayAt);
+    assert.deepEqual(events.filter(e => e.type === 'combo-decay'), [
+      { type: 'combo-decay', combo: COMBO_PICKUPS_PER_STEP, multiplier: 2 },
+    ]);
+  });
+
+  it('resets when the player takes a hit', () => {
+    const state = freshRun();
+    collectGems(state, 3);
+    const obstacle = place(state, ObjectType.OBSTACLE, -3, 0, OBSTACLE_HEIGHT / 2);
+    const events = stepUntil(state, () => !obstacle.active);
+
+    assert.deepEqual(events.filter(e => e.type === 'combo-break'), [{ type: 'combo-break', combo: 3 }]);
+    assert.equal(state.combo, 0);
+    assert.equal(state.stats.maxCombo, 3);
+  });
+
+  it('resets when a gem gets past the player', () => {
+    const state = freshRun();
+    collectGems(state, 3);
+    const missed = place(state, ObjectType.GEM, -3, 1);
+    const events = stepUntil(state, () => missed.position[2] > 2);
+
+    assert.ok(events.some(e => e.type === 'combo-break'));
+    assert.equal(state.combo, 0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameObject, ObjectType } from '../types';
+import { GAME_FEEL, GAP_LENGTH, InputAction, SimEvent, SimState, stepSimulation } from '../simulation';
+import { DT, freshRun, stepUntil } from './helpers';
+
+const countJumps = (events: SimEvent[]) => events.filter(e => e.type === 'jump').length;
+
+describe('coyote time', () => {
+  const placeGap = (state: SimState): GameObject => {
+    const gap: GameObject = { id: 'gap', type: ObjectType.GAP, position: [0, 0, -5], active: true, length: GAP_LENGTH };
+    state.objects.push(gap);
+    return gap;
+  };
+
+  it('still lets the player jump just after running off an edge', () => {
+    const state = freshRun();
+    const gap = placeGap(state);
+    stepUntil(state, () => state.player.onLedge);
+
+    const events = stepUntil(state, () => gap.position[2] - GAP_LENGTH / 2 > 1, [InputAction.JUMP]);
+    assert.equal(countJumps(events), 1);
+    assert.ok(!events.some(e => e.type === 'fall'));
+  });
+
+  it('drops the player once the window closes', () => {
+    const state = freshRun();
+    placeGap(state);
+    stepUntil(state, () => state.player.onLedge);
+
+    const closesAt = state.clock.time + GAME_FEEL.coyoteTime;
+    const events = stepUntil(state, () => state.player.isFalling);
+    assert.ok(state.clock.time >= closesAt);
+    assert.equal(events.filter(e => e.type === 'fall').length, 1);
+  });
+});
+
+describe('jump buffer', () => {
+  it('jumps on landing when pressed just before it', () => {
+    const state = freshRun();
+    stepSimulation(state, [InputAction.JUMP], DT);
+    stepUntil(state, () => state.player.velocityY < 0 && state.player.y < 0.3);
+
+    const events = stepUntil(state, () => state.player.velocityY > 0, [InputAction.JUMP]);
+    assert.equal(countJumps(events), 1);
+    assert.ok(state.player.isJumping);
+  });
+
+  it('forgets a press made too long before landing', () => {
+    const state = freshRun();
+    stepSimulation(state, [InputAction.JUMP], DT);
+    stepUntil(state, () => state.player.velocityY <= 0);
+
+    const events = stepUntil(state, () => !state.player.isJumping, [InputAction.JUMP]);
+    events.push(...stepSimulation(state, [], DT).events);
+    assert.equal(countJumps(events), 0);
+    assert.equal(state.player.isJumping, false);
+  });
+});
+
+describe('lane queue', () => {
+  it('holds a change made mid-move until the first is far enough along', () => {
+    const state = freshRun();
+    stepSimulation(state, [InputAction.MOVE_LEFT, InputAction.MOVE_RIGHT], DT);
+    assert.equal(state.player.lane, -1);
+    assert.deepEqual(state.player.laneQueue, [1]);
+
+    stepUntil(state, () => state.player.laneQueue.length === 0);
+    assert.equal(state.player.lane, 0);
+  });
+
+  it('keeps at most laneQueueSize changes waiting', () => {
+    const state = freshRun();
+    const presses = Array.from({ length: GAME_FEEL.laneQueueSize + 3 }, () => InputAction.MOVE_RIGHT);
+    stepSimulation(state, presses, DT);
+    assert.equal(state.player.laneQueue.length, GAME_FEEL.laneQueueSize);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameObject, ObjectType, LANE_WIDTH } from '../types';
+import { GAP_LENGTH, InputAction, SimState } from '../simulation';
+import { startTimer } from '../simulation/clock';
+import { freshRun, stepUntil } from './helpers';
+
+// Puts a gap in `lane` with its middle `z` ahead of the player
+const placeGap = (state: SimState, lane: number, z: number, length = GAP_LENGTH): GameObject => {
+  const gap: GameObject = {
+    id: `gap-${state.objects.length}`,
+    type: ObjectType.GAP,
+    position: [lane * LANE_WIDTH, 0, z],
+    active: true,
+    length,
+  };
+  state.objects.push(gap);
+  return gap;
+};
+
+const hasPassed = (gap: GameObject) => () => gap.position[2] - GAP_LENGTH / 2 > 1;
+
+describe('gaps', () => {
+  it('drop a player who runs into one and cost a life', () => {
+    const state = freshRun();
+    const lives = state.lives;
+    const gap = placeGap(state, 0, -5);
+    const events = stepUntil(state, hasPassed(gap));
+
+    assert.equal(events.filter(e => e.type === 'fall').length, 1);
+    assert.equal(state.lives, lives - 1);
+    assert.equal(state.player.isFalling, false);
+    assert.equal(state.player.y, 0);
+  });
+
+  it('can be cleared with a jump', () => {
+    const state = freshRun();
+    const lives = state.lives;
+    const gap = placeGap(state, 0, -6);
+    stepUntil(state, () => gap.position[2] > -GAP_LENGTH / 2 - 0.2);
+
+    const events = stepUntil(state, hasPassed(gap), [InputAction.JUMP]);
+    assert.ok(!events.some(e => e.type === 'fall'));
+    assert.equal(state.lives, lives);
+  });
+
+  it('put the player back on the nearest lane with floor', () => {
+    const state = freshRun();
+    const lives = state.lives;
+    // Long enough to still be under the player when the fall ends
+    placeGap(state, 0, -5, GAP_LENGTH * 3);
+    placeGap(state, -1, -5, GAP_LENGTH * 3);
+    stepUntil(state, () => state.lives < lives);
+
+    assert.equal(state.player.lane, 1);
+    assert.equal(state.player.x, LANE_WIDTH);
+  });
+
+  it('take a life even through a shield', () => {
+    const state = freshRun();
+    startTimer(state.clock, 'shield', 100);
+    const lives = state.lives;
+    const gap = placeGap(state, 0, -5);
+    stepUntil(state, hasPassed(gap));
+    assert.equal(state.lives, lives - 1);
+  });
+
+  it("don't take the player again while the grace period lasts", () => {
+    const state = freshRun();
+    const lives = state.lives;
+    const gaps = [-1, 0, 1].map(lane => placeGap(state, lane, -5));
+    const events = stepUntil(state, hasPassed(gaps[0]));
+
+    assert.equal(events.filter(e => e.type === 'fall').length, 1);
+    assert.equal(state.lives, lives - 1);
+  });
+});
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { InputAction, SIM_RATE, SIM_STEP, SimEvent, SimState, createSimState, stepSimulation } from '../simulation';
+
+// Shared fixtures for the headless simulation tests. They step at SIM_STEP,
+// the fixed step the client and the server replay both use.
+
+export const DT = SIM_STEP;
+
+// A run with the opening track cleared, so a test only meets what it places
+export const freshRun = (): SimState => {
+  const state = createSimState(1);
+  state.objects = [];
+  return state;
+};
+
+// Steps until `done` holds, applying `inputs` on the first step, and returns
+// every event raised on the way. Fails if it takes more than `maxSteps`
+// (ten seconds of play by default).
+export const stepUntil = (state: SimState, done: () => boolean, inputs: InputAction[] = [], maxSteps = 10 * SIM_RATE): SimEvent[] => {
+  const events: SimEvent[] = [];
+  for (let i = 0; i < maxSteps && !done(); i++) {
+    events.push(...stepSimulation(state, i === 0 ? inputs : [], DT).events);
+  }
+  assert.ok(done(), 'condition never reached');
+  return events;
+};
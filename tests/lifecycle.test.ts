@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { onBackgrounded } from '../components/System/Lifecycle';
+
+// A page whose visibility the test flips the way a browser or mini app host does
+const fakePage = () => {
+  const doc = Object.assign(new EventTarget(), { visibilityState: 'visible' as DocumentVisibilityState });
+  const win = new EventTarget();
+  const setVisibility = (visibilityState: DocumentVisibilityState) => {
+    doc.visibilityState = visibilityState;
+    doc.dispatchEvent(new Event('visibilitychange'));
+  };
+  return { doc, win, setVisibility };
+};
+
+describe('onBackgrounded', () => {
+  it('fires when the host hides the webview', () => {
+    const { doc, win, setVisibility } = fakePage();
+    let calls = 0;
+    onBackgrounded(() => calls++, doc, win);
+
+    setVisibility('hidden');
+    assert.equal(calls, 1);
+    setVisibility('visible'); // Coming back doesn't count
+    assert.equal(calls, 1);
+  });
+
+  it('fires when the host tears the page down', () => {
+    const { doc, win } = fakePage();
+    let calls = 0;
+    onBackgrounded(() => calls++, doc, win);
+
+    win.dispatchEvent(new Event('pagehide'));
+    assert.equal(calls, 1);
+  });
+
+  it('stops firing once unsubscribed', () => {
+    const { doc, win, setVisibility } = fakePage();
+    let calls = 0;
+    const unsubscribe = onBackgrounded(() => calls++, doc, win);
+
+    unsubscribe();
+    setVisibility('hidden');
+    win.dispatchEvent(new Event('pagehide'));
+    assert.equal(calls, 0);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameObject, ObjectType, LANE_WIDTH } from '../types';
+import { NEAR_MISS_DISTANCE, NEAR_MISS_POINTS, OBSTACLE_HEIGHT, SimEvent, SimState } from '../simulation';
+import { freshRun, stepUntil } from './helpers';
+
+// Puts an obstacle `x` to the side of the player, just ahead of them
+const placeObstacle = (state: SimState, x: number): GameObject => {
+  const obstacle: GameObject = { id: 'obstacle', type: ObjectType.OBSTACLE, position: [x, OBSTACLE_HEIGHT / 2, -3], active: true };
+  state.objects.push(obstacle);
+  return obstacle;
+};
+
+// Steps until the obstacle is behind the player
+const passObstacle = (state: SimState, obstacle: GameObject): SimEvent[] =>
+  stepUntil(state, () => obstacle.position[2] >= 3);
+
+describe('near misses', () => {
+  it('pay out once a damage source narrowly goes by', () => {
+    const state = freshRun();
+    const score = state.score;
+    const obstacle = placeObstacle(state, NEAR_MISS_DISTANCE - 0.3);
+    const events = passObstacle(state, obstacle);
+
+    assert.equal(events.filter(e => e.type === 'near-miss').length, 1);
+    assert.ok(!events.some(e => e.type === 'hit'));
+    assert.equal(state.stats.nearMisses, 1);
+    assert.equal(state.score - score, NEAR_MISS_POINTS);
+  });
+
+  it("don't count hazards a lane over", () => {
+    const state = freshRun();
+    const events = passObstacle(state, placeObstacle(state, LANE_WIDTH));
+    assert.ok(!events.some(e => e.type === 'near-miss'));
+    assert.equal(state.stats.nearMisses, 0);
+  });
+
+  it("don't count hits", () => {
+    const state = freshRun();
+    const events = passObstacle(state, placeObstacle(state, 0));
+    assert.ok(events.some(e => e.type === 'hit'));
+    assert.ok(!events.some(e => e.type === 'near-miss'));
+    assert.equal(state.stats.nearMisses, 0);
+  });
+});
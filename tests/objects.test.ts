@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameObject, GameStatus, ObjectType, LANE_WIDTH } from '../types';
+import { OBJECT_RULES, SimState, getHitbox, stepSimulation } from '../simulation';
+import { startTimer } from '../simulation/clock';
+import { DT, freshRun, stepUntil } from './helpers';
+
+const place = (state: SimState, obj: Omit<GameObject, 'id' | 'active'>): GameObject => {
+  const placed: GameObject = { id: `test-${state.objects.length}`, active: true, ...obj };
+  state.objects.push(placed);
+  return placed;
+};
+
+describe('object rules', () => {
+  it('take every hitbox but the gap from hitboxes.json', () => {
+    for (const [type, rule] of Object.entries(OBJECT_RULES)) {
+      if (type === ObjectType.GAP) assert.equal(rule.hitbox, null);
+      else assert.equal(rule.hitbox, getHitbox(type as Exclude<ObjectType, ObjectType.GAP>), type);
+    }
+  });
+
+  it('let a speed boost smash through damage sources', () => {
+    const state = freshRun();
+    startTimer(state.clock, 'speedBoost', 10);
+    const lives = state.lives;
+    const obstacle = place(state, { type: ObjectType.OBSTACLE, position: [0, 0.5, -3] });
+    const events = stepUntil(state, () => !obstacle.active);
+
+    assert.ok(events.some(e => e.type === 'smash'));
+    assert.ok(!events.some(e => e.type === 'hit'));
+    assert.equal(state.lives, lives);
+    assert.equal(state.stats.obstaclesSmashed, 1);
+  });
+
+  it('fire a shooter once it is in range', () => {
+    const state = freshRun();
+    const { weapon } = OBJECT_RULES[ObjectType.TURRET];
+    const turret = place(state, { type: ObjectType.TURRET, position: [LANE_WIDTH, 0.4, -weapon!.range - 2] });
+    const events = stepUntil(state, () => turret.position[2] > -weapon!.range + 5);
+
+    assert.equal(events.filter(e => e.type === 'fire').length, 1);
+    const missiles = state.objects.filter(o => o.type === ObjectType.MISSILE);
+    assert.equal(missiles.length, 1);
+    assert.equal(missiles[0].position[0], LANE_WIDTH);
+    assert.equal(missiles[0].position[1], weapon!.height);
+  });
+
+  it('reach the shop portal from any lane', () => {
+    const state = freshRun();
+    state.player.lane = -1;
+    state.player.x = -LANE_WIDTH;
+    const portal = place(state, { type: ObjectType.SHOP_PORTAL, position: [0, 0, -3] });
+    const events = stepUntil(state, () => !portal.active);
+
+    assert.ok(events.some(e => e.type === 'shop'));
+    assert.equal(state.status, GameStatus.SHOP);
+  });
+
+  it('bounce a barrier off the outer lanes', () => {
+    const state = freshRun();
+    const maxX = Math.floor(state.laneCount / 2) * LANE_WIDTH;
+    const barrier = place(state, { type: ObjectType.BARRIER, position: [maxX - 0.01, 1.25, -150], moveDirection: 1 });
+    stepSimulation(state, [], DT);
+
+    assert.equal(barrier.position[0], maxX);
+    assert.equal(barrier.moveDirection, -1);
+  });
+});
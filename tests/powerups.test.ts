@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameObject, ObjectType } from '../types';
+import {
+  OBSTACLE_HEIGHT, SPEED_BOOST_DURATION, SPEED_BOOST_MULTIPLIER, InputAction, SimState,
+  getCurrentSpeed, isSpeedBoostActive, stepSimulation
+} from '../simulation';
+import { DT, freshRun, stepUntil } from './helpers';
+
+// Puts an object in the player's lane just ahead of them
+const place = (state: SimState, type: ObjectType, y: number, z = -3): GameObject => {
+  const obj: GameObject = { id: `test-${state.objects.length}`, type, position: [0, y, z], active: true };
+  state.objects.push(obj);
+  return obj;
+};
+
+describe('jump pads', () => {
+  it('launch the player higher than a normal jump', () => {
+    const jumping = freshRun();
+    stepSimulation(jumping, [InputAction.JUMP], DT);
+    let jumpPeak = 0;
+    while (jumping.player.isJumping) {
+      stepSimulation(jumping, [], DT);
+      jumpPeak = Math.max(jumpPeak, jumping.player.y);
+    }
+
+    const launched = freshRun();
+    const pad = place(launched, ObjectType.JUMP_PAD, 0.1);
+    stepUntil(launched, () => !pad.active);
+    assert.ok(launched.player.isJumping);
+    assert.equal(launched.stats.jumpPadsUsed, 1);
+
+    let padPeak = 0;
+    while (launched.player.isJumping) {
+      stepSimulation(launched, [], DT);
+      padPeak = Math.max(padPeak, launched.player.y);
+    }
+    assert.ok(padPeak > jumpPeak * 1.5, `pad peak ${padPeak} vs jump peak ${jumpPeak}`);
+  });
+
+  it('leave a double jump available on the way up', () => {
+    const state = freshRun();
+    state.hasDoubleJump = true;
+    const pad = place(state, ObjectType.JUMP_PAD, 0.1);
+    stepUntil(state, () => !pad.active);
+
+    const { events } = stepSimulation(state, [InputAction.JUMP], DT);
+    assert.deepEqual(events.filter(e => e.type === 'jump'), [{ type: 'jump', double: true }]);
+  });
+});
+
+describe('speed boosts', () => {
+  it('speed the run up until they run out', () => {
+    const state = freshRun();
+    const boost = place(state, ObjectType.SPEED_BOOST, 0.5);
+    const started = stepUntil(state, () => !boost.active);
+    assert.ok(started.some(e => e.type === 'boost' && e.active));
+    assert.equal(getCurrentSpeed(state), state.speed * SPEED_BOOST_MULTIPLIER);
+    assert.equal(state.stats.speedBoostsCollected, 1);
+
+    const boostEnd = state.clock.time + SPEED_BOOST_DURATION;
+    const ended = stepUntil(state, () => state.clock.time > boostEnd);
+    assert.ok(ended.some(e => e.type === 'boost' && !e.active));
+    assert.equal(isSpeedBoostActive(state), false);
+    assert.equal(getCurrentSpeed(state), state.speed);
+  });
+
+  it('smash through obstacles without costing a life', () => {
+    const state = freshRun();
+    const boost = place(state, ObjectType.SPEED_BOOST, 0.5);
+    stepUntil(state, () => !boost.active);
+
+    const lives = state.lives;
+    const obstacle = place(state, ObjectType.OBSTACLE, OBSTACLE_HEIGHT / 2);
+    const events = stepUntil(state, () => !obstacle.active);
+    assert.ok(events.some(e => e.type === 'smash' && e.objectType === ObjectType.OBSTACLE));
+    assert.ok(!events.some(e => e.type === 'hit'));
+    assert.equal(state.lives, lives);
+    assert.equal(state.stats.obstaclesSmashed, 1);
+  });
+
+  it('leave obstacles dangerous without one', () => {
+    const state = freshRun();
+    const lives = state.lives;
+    const obstacle = place(state, ObjectType.OBSTACLE, OBSTACLE_HEIGHT / 2);
+    const events = stepUntil(state, () => !obstacle.active);
+    assert.ok(events.some(e => e.type === 'hit'));
+    assert.equal(state.lives, lives - 1);
+    assert.equal(state.stats.obstaclesSmashed, 0);
+  });
+});
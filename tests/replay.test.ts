@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameStatus } from '../types';
+import { RunController } from '../components/System/RunController';
+import {
+  DEFAULT_LOADOUT, InputAction, MAX_LOADOUT_LIVES, MAX_REPLAY_FRAMES, RunReplay, SHOP_REROLL, SIM_RATE, parseReplay, replayRun
+} from '../simulation';
+
+const SCRIPT = [InputAction.MOVE_LEFT, InputAction.JUMP, InputAction.MOVE_RIGHT, InputAction.JUMP, InputAction.MOVE_RIGHT];
+
+// Plays a run the way the browser does: uneven frame times, inputs queued
+// between frames and a reroll and a purchase at every shop visit
+const recordRun = (seed: number, maxFrames: number) => {
+  const controller = new RunController();
+  controller.start(seed);
+  for (let i = 0; controller.state!.frame < maxFrames; i++) {
+    const state = controller.state!;
+    if (state.status === GameStatus.SHOP) {
+      controller.rerollShop();
+      controller.buyItem(state.shop!.offer[0]);
+      controller.closeShop();
+    } else if (state.status !== GameStatus.PLAYING) {
+      break;
+    }
+    if (i % 25 === 0) controller.queueInput(SCRIPT[(i / 25) % SCRIPT.length]);
+    controller.step(1 / 60 + (i % 7) / 1000);
+  }
+  return controller;
+};
+
+describe('replayRun', () => {
+  it('reproduces a recorded run from its serialized replay', () => {
+    for (const seed of [1, 8, 12]) {
+      const { state, replay } = recordRun(seed, 60 * SIM_RATE);
+      assert.ok(replay!.inputs.length > 0);
+
+      const parsed = parseReplay(JSON.parse(JSON.stringify(replay)));
+      assert.ok(parsed, `seed ${seed}: recorded replay should parse`);
+      const result = replayRun(parsed);
+
+      assert.equal(result.score, state!.score, `seed ${seed}: score`);
+      assert.equal(result.level, state!.level, `seed ${seed}: level`);
+      assert.equal(result.gemsCollected, state!.gemsCollected, `seed ${seed}: gems`);
+      assert.equal(result.distance, Math.floor(state!.distance), `seed ${seed}: distance`);
+    }
+  });
+
+  it('gives the same result every time it replays the same log', () => {
+    const { replay } = recordRun(5, 30 * SIM_RATE);
+    assert.deepEqual(replayRun(replay!), replayRun(replay!));
+  });
+
+  it('plays a different run on a different seed', () => {
+    const { replay } = recordRun(5, 30 * SIM_RATE);
+    assert.notDeepEqual(replayRun(replay!), replayRun({ ...replay!, seed: 6 }));
+  });
+});
+
+describe('parseReplay', () => {
+  const valid: RunReplay = {
+    seed: 42,
+    stepRate: SIM_RATE,
+    loadout: DEFAULT_LOADOUT,
+    frames: 600,
+    inputs: [{ frame: 10, action: InputAction.JUMP }, { frame: 10, action: InputAction.MOVE_LEFT }],
+    purchases: [],
+  };
+  const withChanges = (changes: Record<string, unknown>) => ({ ...valid, ...changes });
+
+  it('accepts a well-formed replay', () => {
+    assert.deepEqual(parseReplay(valid), { ...valid, token: undefined });
+    assert.equal(parseReplay(withChanges({ token: 'a'.repeat(32) }))?.token, 'a'.repeat(32));
+  });
+
+  it('rejects payloads that are not replays', () => {
+    assert.equal(parseReplay(null), null);
+    assert.equal(parseReplay('replay'), null);
+    assert.equal(parseReplay([valid]), null);
+  });
+
+  it('rejects runs recorded at another step rate', () => {
+    assert.equal(parseReplay(withChanges({ stepRate: 60 })), null);
+  });
+
+  it('rejects bad seeds and lengths', () => {
+    assert.equal(parseReplay(withChanges({ seed: -1 })), null);
+    assert.equal(parseReplay(withChanges({ seed: 1.5 })), null);
+    assert.equal(parseReplay(withChanges({ frames: MAX_REPLAY_FRAMES + 1 })), null);
+  });
+
+  it('rejects inputs out of order, past the end or unknown', () => {
+    const input = (frame: number, action: string = InputAction.JUMP) => ({ frame, action });
+    assert.equal(parseReplay(withChanges({ inputs: [input(20), input(10)] })), null);
+    assert.equal(parseReplay(withChanges({ inputs: [input(601)] })), null);
+    assert.equal(parseReplay(withChanges({ inputs: [input(10, 'TELEPORT')] })), null);
+  });
+
+  it('treats a missing or impossible loadout as malformed', () => {
+    assert.equal(parseReplay(withChanges({ loadout: undefined })), null);
+    assert.equal(parseReplay(withChanges({ loadout: { ...DEFAULT_LOADOUT, maxLives: MAX_LOADOUT_LIVES + 1 } })), null);
+    assert.equal(parseReplay(withChanges({ loadout: { ...DEFAULT_LOADOUT, hasDoubleJump: 'yes' } })), null);
+  });
+
+  it('rejects purchases of items the shop does not sell', () => {
+    assert.equal(parseReplay(withChanges({ purchases: [{ frame: 10, item: 'FREE_LIVES' }] })), null);
+    assert.deepEqual(parseReplay(withChanges({ purchases: [{ frame: 10, item: SHOP_REROLL }] }))?.purchases, [{ frame: 10, item: SHOP_REROLL }]);
+  });
+
+  it('rejects oversized tokens', () => {
+    assert.equal(parseReplay(withChanges({ token: 'a'.repeat(65) })), null);
+    assert.equal(parseReplay(withChanges({ token: 7 })), null);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameStatus, LANE_WIDTH } from '../types';
+import { InputAction, SIM_RATE, SimState, createSimState, stepSimulation } from '../simulation';
+import { DT } from './helpers';
+
+const SCRIPT = [InputAction.MOVE_LEFT, InputAction.JUMP, InputAction.MOVE_RIGHT, InputAction.JUMP, InputAction.MOVE_RIGHT];
+
+const INPUT_INTERVAL = Math.round(SIM_RATE * 0.4); // Steps between scripted inputs
+
+// Steps a run for `seconds` of play, feeding the script one input every INPUT_INTERVAL steps
+const playRun = (seed: number, seconds: number): SimState => {
+  const state = createSimState(seed);
+  for (let i = 0; i < seconds * SIM_RATE && state.status === GameStatus.PLAYING; i++) {
+    const inputs = i % INPUT_INTERVAL === 0 ? [SCRIPT[(i / INPUT_INTERVAL) % SCRIPT.length]] : [];
+    stepSimulation(state, inputs, DT);
+  }
+  return state;
+};
+
+// Everything but the generator, which holds no run data of its own
+const snapshot = ({ rng, ...state }: SimState) => JSON.parse(JSON.stringify(state));
+
+describe('stepSimulation', () => {
+  it('plays the same run from the same seed and inputs', () => {
+    assert.deepEqual(snapshot(playRun(3, 20)), snapshot(playRun(3, 20)));
+  });
+
+  it('spawns a different track on a different seed', () => {
+    const objects = (state: SimState) => state.objects.map(obj => [obj.type, ...obj.position]);
+    assert.notDeepEqual(objects(playRun(3, 5)), objects(playRun(4, 5)));
+  });
+
+  it('moves the player one lane per input and stops at the edge', () => {
+    const state = createSimState(1);
+    const maxLane = Math.floor(state.laneCount / 2);
+    for (let i = 0; i <= maxLane; i++) stepSimulation(state, [InputAction.MOVE_LEFT], DT);
+    assert.equal(state.player.lane, -maxLane);
+
+    for (let i = 0; i < 2 * SIM_RATE; i++) stepSimulation(state, [], DT);
+    assert.ok(Math.abs(state.player.x + maxLane * LANE_WIDTH) < 0.01);
+  });
+
+  it('jumps and lands back on the track', () => {
+    const state = createSimState(1);
+    const { events } = stepSimulation(state, [InputAction.JUMP], DT);
+    assert.deepEqual(events.filter(e => e.type === 'jump'), [{ type: 'jump', double: false }]);
+    assert.ok(state.player.isJumping);
+
+    for (let i = 0; i < 2 * SIM_RATE && state.player.isJumping; i++) stepSimulation(state, [], DT);
+    assert.equal(state.player.isJumping, false);
+    assert.equal(state.player.y, 0);
+  });
+
+  it('leaves a run that is not playing untouched', () => {
+    const state = createSimState(1);
+    state.status = GameStatus.SHOP;
+    stepSimulation(state, [InputAction.MOVE_LEFT], DT);
+    assert.equal(state.frame, 0);
+    assert.equal(state.player.lane, 0);
+  });
+});
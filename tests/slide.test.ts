@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameObject, ObjectType } from '../types';
+import { JUMP_FORCE, SIM_RATE, SLIDE_DURATION, InputAction, SimEvent, SimState, isSliding, stepSimulation } from '../simulation';
+import { DT, freshRun, stepUntil } from './helpers';
+
+// Hangs an overhead bar across the player's lane just ahead of them
+const placeBar = (state: SimState): GameObject => {
+  const bar: GameObject = { id: 'bar', type: ObjectType.OVERHEAD_BAR, position: [0, 1.5, -3], active: true };
+  state.objects.push(bar);
+  return bar;
+};
+
+// Steps until the bar is behind the player, applying `inputs` on the first step
+const passBar = (state: SimState, bar: GameObject, inputs: InputAction[]): SimEvent[] =>
+  stepUntil(state, () => bar.position[2] >= 3, inputs);
+
+describe('sliding', () => {
+  it('passes under an overhead bar', () => {
+    const state = freshRun();
+    const lives = state.lives;
+    const events = passBar(state, placeBar(state), [InputAction.SLIDE]);
+    assert.ok(!events.some(e => e.type === 'hit'));
+    assert.equal(state.lives, lives);
+  });
+
+  it('is the only way past an overhead bar', () => {
+    for (const inputs of [[], [InputAction.JUMP]]) {
+      const state = freshRun();
+      const events = passBar(state, placeBar(state), inputs);
+      assert.ok(events.some(e => e.type === 'hit' && e.objectType === ObjectType.OVERHEAD_BAR), `inputs: ${inputs}`);
+    }
+  });
+
+  it('lasts SLIDE_DURATION', () => {
+    const state = freshRun();
+    const { events } = stepSimulation(state, [InputAction.SLIDE], DT);
+    assert.deepEqual(events.filter(e => e.type === 'slide'), [{ type: 'slide' }]);
+    assert.ok(isSliding(state));
+
+    while (state.clock.time < SLIDE_DURATION - DT) stepSimulation(state, [], DT);
+    assert.ok(isSliding(state));
+    stepSimulation(state, [], DT);
+    stepSimulation(state, [], DT);
+    assert.equal(isSliding(state), false);
+  });
+
+  it('pulls the player down mid-air and starts on landing', () => {
+    const state = freshRun();
+    stepSimulation(state, [InputAction.JUMP], DT);
+    for (let i = 0; i < SIM_RATE / 6; i++) stepSimulation(state, [], DT); // Still rising
+    stepSimulation(state, [InputAction.SLIDE], DT);
+    assert.ok(state.player.velocityY <= -JUMP_FORCE);
+    assert.equal(isSliding(state), false);
+
+    while (state.player.isJumping) stepSimulation(state, [], DT);
+    assert.ok(isSliding(state));
+  });
+
+  it('is cancelled by jumping', () => {
+    const state = freshRun();
+    stepSimulation(state, [InputAction.SLIDE], DT);
+    stepSimulation(state, [InputAction.JUMP], DT);
+    while (state.player.isJumping) stepSimulation(state, [], DT);
+    assert.equal(isSliding(state), false);
+  });
+});
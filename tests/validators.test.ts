@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseGameFeel, parseHitboxDefinitions, parseLevelDefinitions, parseSegmentDefinitions, parseShopDefinitions
+} from '../simulation';
+import levelData from '../simulation/levels.json' with { type: 'json' };
+import segmentData from '../simulation/segments.json' with { type: 'json' };
+import shopData from '../simulation/shopItems.json' with { type: 'json' };
+import gameFeelData from '../simulation/gameFeel.json' with { type: 'json' };
+import hitboxData from '../simulation/hitboxes.json' with { type: 'json' };
+
+const copy = <T>(data: T): T => JSON.parse(JSON.stringify(data));
+
+// Asserts `parse` throws an error that mentions every one of `problems`
+const assertRejects = (parse: () => unknown, problems: string[]) => {
+  assert.throws(parse, (error: Error) => {
+    for (const problem of problems) assert.ok(error.message.includes(problem), `missing "${problem}" in:\n${error.message}`);
+    return true;
+  });
+};
+
+describe('parseLevelDefinitions', () => {
+  it('accepts the shipped levels', () => {
+    assert.equal(parseLevelDefinitions(levelData).length, levelData.levels.length);
+  });
+
+  it('lists every bad field', () => {
+    const data = copy(levelData) as { levels: Record<string, unknown>[] };
+    data.levels[0].laneCount = 4;
+    data.levels[1].minGap = 'wide';
+    data.levels[2].wings = true;
+    assertRejects(() => parseLevelDefinitions(data), [
+      'levels[0].laneCount: must be odd',
+      'levels[1].minGap: must be a number',
+      'levels[2]: unknown field "wings"',
+    ]);
+  });
+
+  it('requires the levels in order', () => {
+    const data = copy(levelData);
+    data.levels.reverse();
+    assertRejects(() => parseLevelDefinitions(data), ['levels must be listed in order']);
+  });
+});
+
+describe('parseSegmentDefinitions', () => {
+  const segment = (rows: string[]) => ({ name: 'test', difficulty: 1, tags: ['dodge'], spacing: 5, rows });
+
+  it('accepts the shipped segments', () => {
+    assert.equal(parseSegmentDefinitions(segmentData).length, segmentData.segments.length);
+  });
+
+  it('reads symbols and gem heights per lane', () => {
+    const [parsed] = parseSegmentDefinitions({ segments: [segment(['# . ^2'])] });
+    assert.equal(parsed.width, 3);
+    assert.deepEqual(parsed.rows[0].map(p => p.column), [0, 2, 2]);
+  });
+
+  it('lists every bad row', () => {
+    const data = { segments: [segment(['# . .', '# .', '. ? .', '_ _ _'])] };
+    assertRejects(() => parseSegmentDefinitions(data), [
+      'segments[0].rows[1]: has 2 lanes, expected 3',
+      'segments[0].rows[2]: unknown symbol "?"',
+      'segments[0].rows[3]: leaves no floor to run on',
+    ]);
+  });
+
+  it('rejects duplicate names', () => {
+    const data = { segments: [segment(['#']), segment(['.'])] };
+    assertRejects(() => parseSegmentDefinitions(data), ['segments[1].name: "test" is used twice']);
+  });
+});
+
+describe('parseShopDefinitions', () => {
+  it('accepts the shipped items', () => {
+    assert.equal(parseShopDefinitions(shopData).items.length, shopData.items.length);
+  });
+
+  it('lists every bad item', () => {
+    const data = copy(shopData) as { items: Record<string, unknown>[] };
+    data.items[1].id = data.items[0].id;
+    data.items[2].effects = [{ type: 'teleport' }];
+    data.items[3].rarity = 'legendary';
+    assertRejects(() => parseShopDefinitions(data), [
+      `items[1].id: "${data.items[0].id}" is used twice`,
+      'items[2].effects[0].type: must be one of',
+      'items[3].rarity: must be one of',
+    ]);
+  });
+
+  it('reserves the reroll id', () => {
+    const data = copy(shopData);
+    data.items[0].id = 'REROLL';
+    assertRejects(() => parseShopDefinitions(data), ['items[0].id: "REROLL" is reserved']);
+  });
+});
+
+describe('parseGameFeel', () => {
+  it('accepts the shipped config', () => {
+    assert.deepEqual(parseGameFeel(gameFeelData), gameFeelData);
+  });
+
+  it('lists every missing or out of range window', () => {
+    const data: Record<string, unknown> = { ...gameFeelData, jumpBufferTime: 2, laneQueueSize: 1.5, wallRun: 1 };
+    delete data.coyoteTime;
+    assertRejects(() => parseGameFeel(data), [
+      'unknown field "wallRun"',
+      'jumpBufferTime: must be between 0 and 0.5',
+      'coyoteTime: must be a number',
+      'laneQueueSize: must be a whole number',
+    ]);
+  });
+});
+
+describe('parseHitboxDefinitions', () => {
+  it('accepts the shipped hitboxes', () => {
+    assert.deepEqual(parseHitboxDefinitions(hitboxData), hitboxData);
+  });
+
+  it('lists every missing, unknown and bad box', () => {
+    const data: Record<string, Record<string, unknown>> = copy(hitboxData);
+    delete data.DRONE;
+    data.PORTAL = data.GEM;
+    data.GEM = { ...data.GEM, bottom: 2, top: 1 };
+    data.MISSILE = { ...data.MISSILE, width: 0, anchor: 'ceiling' };
+    assertRejects(() => parseHitboxDefinitions(data), [
+      'DRONE: must be an object',
+      'unknown object type "PORTAL"',
+      'GEM: bottom must be below top',
+      'MISSILE.width: must be between 0.1 and 50',
+      'MISSILE.anchor: must be "floor" or "object"',
+    ]);
+  });
+});
@@ -5,9 +5,12 @@
 */
 
 
+import type { EquippedCosmetics } from './cosmetics';
+
 export enum GameStatus {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
   SHOP = 'SHOP',
   GAME_OVER = 'GAME_OVER',
   VICTORY = 'VICTORY'
@@ -29,7 +32,25 @@ export enum ObjectType {
   SPIKE_FLOOR = 'SPIKE_FLOOR',   // Floor spikes - must jump
   TURRET = 'TURRET',             // Shoots projectiles at player
   JUMP_PAD = 'JUMP_PAD',         // Bounces player high
-  SPEED_BOOST = 'SPEED_BOOST'    // Temporary speed boost pickup
+  SPEED_BOOST = 'SPEED_BOOST',   // Temporary speed boost pickup
+  GAP = 'GAP',                   // Missing floor segment in a lane - jump it or fall
+  OVERHEAD_BAR = 'OVERHEAD_BAR', // Hanging laser bar at head height - slide under
+  WEAK_POINT = 'WEAK_POINT'      // Core ejected by a boss - jump into it to damage the boss
+}
+
+export enum BossType {
+  MOTHERSHIP = 'MOTHERSHIP'
+}
+
+// Boss guarding the end of a level; which levels have one is set in simulation/levels.json
+export interface Boss {
+  type: BossType;
+  health: number; // Weak points left to hit
+  maxHealth: number;
+  position: [number, number, number]; // x, y, z
+  nextAttackTime: number; // Sim time
+  nextWeakPointTime: number; // Sim time
+  attacksFired: number;
 }
 
 export interface GameObject {
@@ -45,12 +66,26 @@ export interface GameObject {
   moveDirection?: number; // For moving barriers (-1 or 1)
   moveSpeed?: number; // For moving objects
   laserActive?: boolean; // For laser gates (toggling)
+  length?: number; // Z extent of track gaps
+  closeCall?: boolean; // Damage source came within the near-miss margin of the player
 }
 
 export interface LeaderboardEntry {
     name: string;
     score: number;
     date: number;
+    verified?: boolean; // Score was confirmed by replaying the run on the server
+    cosmetics?: Partial<EquippedCosmetics>; // Equipped when the score was submitted
+}
+
+// Classic runs use a fresh random seed; Daily Challenge runs share the UTC day's seed
+export type RunMode = 'classic' | 'daily';
+
+export interface DailyChallenge {
+    date: string; // UTC day, YYYY-MM-DD
+    seed: number | null; // Only sent once the player has no ranked attempts left
+    maxAttempts: number;
+    attemptsUsed: number; // Ranked attempts started today
 }
 
 export interface BaseAccountUser {
@@ -74,12 +109,3 @@ export const GEMINI_COLORS = [
     '#00e676', // N - Green
     '#ff1744', // I - Red
 ];
-
-export interface ShopItem {
-    id: string;
-    name: string;
-    description: string;
-    cost: number;
-    icon: any; // Lucide icon component
-    oneTime?: boolean; // If true, remove from pool after buying
-}